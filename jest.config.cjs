@@ -7,5 +7,9 @@ module.exports = {
   transform: {
     '^.+\\.ts$': 'ts-jest'
   },
+  // Server modules import each other with .js suffixes (resolved to .ts)
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
   transformIgnorePatterns: ['/node_modules/']  // default
 };
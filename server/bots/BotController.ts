@@ -0,0 +1,206 @@
+import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+import { GameState } from "../schema/GameState.js";
+import { PlayerSchema } from "../schema/PlayerSchema.js";
+import { applyMovementInput, MovableBody, MovementKeys } from "../shared/movement.js";
+import { createRandom, RandomSource } from "../shared/random.js";
+import { distanceOutsideZone, Zone } from "../shared/zone.js";
+
+/**
+ * Available bot difficulty levels
+ */
+export type BotSkill = keyof typeof GAME_CONSTANTS.BOTS.SKILLS;
+
+type BotSkillSettings = (typeof GAME_CONSTANTS.BOTS.SKILLS)[BotSkill];
+
+// Every combination of held keys a bot considers (opposite keys cancel, so they're skipped)
+const CANDIDATE_KEYS: MovementKeys[] = [];
+for (const vertical of ["none", "up", "down"] as const) {
+  for (const horizontal of ["none", "left", "right"] as const) {
+    CANDIDATE_KEYS.push({
+      up: vertical === "up",
+      down: vertical === "down",
+      left: horizontal === "left",
+      right: horizontal === "right",
+    });
+  }
+}
+
+// Length of one step when simulating a candidate move (seconds)
+const PLAN_STEP = 0.1;
+
+// Weights of the move evaluation
+const COLLISION_COST = 1000;
+const OUTSIDE_ZONE_COST = 50; // per unit outside the safe zone
+const CENTER_COST = 0.01; // per unit away from the middle of the safe zone
+const CLIMB_COST = 0.05; // per unit below the winning line, in races
+const SWITCH_COST = 0.5; // discourages jittering between equally good moves
+
+/**
+ * Whether a value names one of the configured skill levels
+ */
+export function isBotSkill(skill: unknown): skill is BotSkill {
+  return typeof skill === "string" && Object.prototype.hasOwnProperty.call(GAME_CONSTANTS.BOTS.SKILLS, skill);
+}
+
+/**
+ * Drives a bot player. Every reaction period it tries each possible key
+ * combination against the predicted obstacle positions and holds the safest
+ * one; the chosen keys are fed through the same input queue human players use.
+ * Each bot draws its mistakes from its own generator, seeded each round from
+ * the room's seed and the bot's index, so bots never take numbers from the
+ * sequence that spawns the room's obstacles.
+ */
+export class BotController {
+  readonly player: PlayerSchema;
+  private skill: BotSkillSettings;
+  private keys: MovementKeys = CANDIDATE_KEYS[0];
+  private decisionTimer = 0;
+  private inputSeq: number;
+  private index: number;
+  private random: RandomSource | null = null;
+
+  constructor(player: PlayerSchema, skill: BotSkill, index: number) {
+    this.player = player;
+    this.skill = GAME_CONSTANTS.BOTS.SKILLS[skill];
+    this.inputSeq = player.lastProcessedInput;
+    this.index = index;
+  }
+
+  /**
+   * Queue this step's input for the bot
+   * @param state - The room's game state
+   * @param deltaTime - Duration of the simulation step in seconds
+   */
+  update(state: GameState, deltaTime: number): void {
+    if (state.gameState !== GAME_CONSTANTS.STATE.PLAYING || !this.player.isActive()) {
+      this.decisionTimer = 0;
+      this.random = null;
+      return;
+    }
+
+    if (!this.random) {
+      this.random = createRandom(state.seed + this.index);
+    }
+
+    this.decisionTimer -= deltaTime;
+    if (this.decisionTimer <= 0) {
+      this.keys = this.chooseKeys(state, this.random);
+      this.decisionTimer = this.skill.REACTION_TIME;
+    }
+
+    this.player.queueInput({ seq: ++this.inputSeq, ...this.keys, dt: deltaTime });
+  }
+
+  /**
+   * Pick the keys to hold until the next decision
+   */
+  private chooseKeys(state: GameState, random: RandomSource): MovementKeys {
+    if (random.next() < this.skill.MISTAKE_CHANCE) {
+      return CANDIDATE_KEYS[random.int(0, CANDIDATE_KEYS.length - 1)];
+    }
+
+    // Head for the circle the zone is closing in on before it gets there
+    const zone = state.nextShrinkTime > 0 ? state.getNextZone() : state.getZone();
+    let bestKeys = this.keys;
+    let bestCost = Infinity;
+
+    for (const keys of CANDIDATE_KEYS) {
+      const cost = this.evaluate(keys, state, zone);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestKeys = keys;
+      }
+    }
+
+    return bestKeys;
+  }
+
+  /**
+   * Simulate holding the keys for the look-ahead time and score the outcome (lower is better)
+   */
+  private evaluate(keys: MovementKeys, state: GameState, zone: Zone): number {
+    const body: MovableBody = {
+      x: this.player.x,
+      y: this.player.y,
+      width: this.player.width,
+      height: this.player.height,
+    };
+    const steps = Math.max(1, Math.round(this.skill.LOOK_AHEAD / PLAN_STEP));
+    // Obstacles crawl while anyone has slow motion
+    const obstacleTimeScale = state.getObstacleTimeScale();
+    let cost = 0;
+
+    // Where crashes knock players out, other players are hazards too
+    const rivals: PlayerSchema[] = [];
+    if (state.playerCollisions === GAME_CONSTANTS.PLAYER_COLLISIONS.ELIMINATE) {
+      state.players.forEach((player) => {
+        if (player !== this.player && player.isActive()) rivals.push(player);
+      });
+    }
+
+    for (let i = 1; i <= steps; i++) {
+      applyMovementInput(body, keys, PLAN_STEP, state.arenaWidth, state.arenaHeight);
+      const time = i * PLAN_STEP;
+
+      // Sooner collisions leave less time to correct, so they weigh more
+      const urgency = steps - i + 1;
+      for (const obstacle of state.obstacles) {
+        if (!obstacle || !obstacle.active) continue;
+
+        const obstacleX = obstacle.x + obstacle.speed * obstacleTimeScale * time;
+        if (this.overlaps(body, obstacleX, obstacle.y, obstacle.width, obstacle.height)) {
+          cost += COLLISION_COST * urgency;
+        }
+      }
+      for (const rival of rivals) {
+        const { up, down, left, right } = rival.movementKeys;
+        const distance = GAME_CONSTANTS.PLAYER.SPEED * time;
+        const rivalX = rival.x + (Number(right) - Number(left)) * distance;
+        const rivalY = rival.y + (Number(down) - Number(up)) * distance;
+        if (this.overlaps(body, rivalX, rivalY, rival.width, rival.height)) {
+          cost += COLLISION_COST * urgency;
+        }
+      }
+
+      cost += distanceOutsideZone(body, zone) * OUTSIDE_ZONE_COST;
+    }
+
+    // The middle of the zone leaves room to dodge either way and survives shrinking
+    const centerX = zone.x;
+    const centerY = zone.y;
+    if (state.isRace()) {
+      // Racing bots climb for the winning line, still keeping to the middle sideways
+      cost += (body.y - GAME_CONSTANTS.GAME.WINNING_LINE) * CLIMB_COST;
+      cost += Math.abs(body.x + body.width / 2 - centerX) * CENTER_COST;
+    } else {
+      cost += Math.hypot(body.x + body.width / 2 - centerX, body.y + body.height / 2 - centerY) * CENTER_COST;
+    }
+
+    if (!this.isHolding(keys)) {
+      cost += SWITCH_COST;
+    }
+
+    return cost;
+  }
+
+  /**
+   * Whether the body comes within the safety margin of an obstacle
+   */
+  private overlaps(body: MovableBody, x: number, y: number, width: number, height: number): boolean {
+    const margin = this.skill.SAFETY_MARGIN;
+    return x - margin < body.x + body.width &&
+      x + width + margin > body.x &&
+      y - margin < body.y + body.height &&
+      y + height + margin > body.y;
+  }
+
+  /**
+   * Whether the keys match the ones currently held
+   */
+  private isHolding(keys: MovementKeys): boolean {
+    return keys.up === this.keys.up &&
+      keys.down === this.keys.down &&
+      keys.left === this.keys.left &&
+      keys.right === this.keys.right;
+  }
+}
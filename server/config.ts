@@ -2,5 +2,7 @@ export default {
   port: Number(process.env.PORT) || 3000,
   pingInterval: Number(process.env.PING_INTERVAL) || 5000,
   pingMaxRetries: Number(process.env.PING_MAX_RETRIES) || 3,
-  monitorPath: process.env.MONITOR_PATH || '/colyseus'
+  monitorPath: process.env.MONITOR_PATH || '/colyseus',
+  replayDir: process.env.REPLAY_DIR || './match-replays',
+  leaderboardFile: process.env.LEADERBOARD_FILE || './leaderboard-data/scores.jsonl'
 };
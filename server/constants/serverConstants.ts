@@ -28,6 +28,37 @@ export const NETWORK = {
   MESSAGE_TIMEOUT: 10000, // 10 seconds
 };
 
+// Player collision settings
+export const PLAYER_BUMPS = {
+  REPORT_INTERVAL: 0.3, // seconds before another bump by the same player is sent to clients
+  KNOCKOUT_GRACE_PERIOD: 3, // seconds into a round before crashes knock players out
+};
+
+// Race room settings
+export const RACE = {
+  DEFAULT_CROSSINGS: 5, // winning line crossings that win a race
+  MIN_CROSSINGS: 1,
+  MAX_CROSSINGS: 20, // most crossings a room's creator can ask for
+};
+
+// Match recording settings
+export const REPLAYS = {
+  SNAPSHOT_INTERVAL: 0.1, // seconds of round time between recorded snapshots
+  MAX_LISTED: 50, // most recent replays returned by the listing endpoint
+  MAX_STORED: 1000, // replays kept in the archive; older ones are deleted
+};
+
+// Leaderboard settings
+export const LEADERBOARD = {
+  DEFAULT_LIMIT: 10, // rows returned when a request doesn't ask for a number
+  MAX_LIMIT: 100, // most rows a request can ask for
+  MAX_REPLAY_FRAMES: 60 * 60 * 60, // longest run re-run to check a score (an hour of steps)
+  REPLAY_CHUNK_FRAMES: 1000, // steps re-run at a time before other requests get a turn
+  MAX_SUBMISSIONS_PER_WINDOW: 10, // scores one client can submit per window
+  SUBMISSION_WINDOW: 60 * 1000, // length of a submission window in milliseconds
+  MAX_SUBMISSION_SIZE: "2mb", // largest score submission, replay included
+};
+
 // Re-export all constants for convenience
 export {
   GAME_CONSTANTS,
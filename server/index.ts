@@ -6,7 +6,14 @@ import { createServer } from "http";
 import express from "express";
 import cors from "cors";
 import { GameRoom } from "./rooms/GameRoom";
+import { RaceRoom } from "./rooms/RaceRoom";
 import config from "./config";
+import { replayStore } from "./replays/ReplayStore";
+import { leaderboard } from "./leaderboard/Leaderboard";
+import { verifyScoreAsync } from "./leaderboard/verifyScore";
+import { submissionLimiter } from "./leaderboard/SubmissionLimiter";
+import { LEADERBOARD } from "./constants/serverConstants";
+import { isLeaderboardMode, isLeaderboardPeriod, validateSubmission } from "./shared/leaderboard";
 import logger from "./utils/logger";
 
 // Create an Express application
@@ -15,8 +22,8 @@ const app = express();
 // Enable CORS to allow connections from your game client
 app.use(cors());
 
-// Parse JSON bodies for any REST endpoints you might add later
-app.use(express.json());
+// Parse JSON bodies; score submissions carry the run's replay
+app.use(express.json({ limit: LEADERBOARD.MAX_SUBMISSION_SIZE }));
 
 // Serve static files from the client build directory
 // In Docker, the dist folder is at /app/dist, in dev it's at ../dist
@@ -35,8 +42,9 @@ const gameServer = new Server({
   }),
 });
 
-// Register your game room
+// Register the game rooms: last player standing, and first to a number of crossings
 gameServer.define("game_room", GameRoom);
+gameServer.define("race_room", RaceRoom);
 
 // Add Colyseus monitor interface
 app.use(config.monitorPath, monitor());
@@ -50,12 +58,108 @@ app.get("/health", (_req, res) => {
   });
 });
 
+// List recorded multiplayer rounds, newest first
+app.get("/replays", async (_req, res) => {
+  try {
+    res.json(await replayStore.list());
+  } catch (error) {
+    logger.error("Failed to list replays:", error);
+    res.status(500).json({ error: "Failed to list replays" });
+  }
+});
+
+// Serve a recorded round
+app.get("/replays/:id", async (req, res) => {
+  try {
+    const replay = await replayStore.read(req.params.id);
+    if (replay === null) {
+      res.status(404).json({ error: "Replay not found" });
+      return;
+    }
+    res.type("json").send(replay);
+  } catch (error) {
+    logger.error(`Failed to read replay ${req.params.id}:`, error);
+    res.status(500).json({ error: "Failed to read replay" });
+  }
+});
+
+// Top of a leaderboard: /leaderboard/:mode?period=allTime|weekly|daily&limit=N
+app.get("/leaderboard/:mode", async (req, res) => {
+  const { mode } = req.params;
+  const period = req.query.period ?? "allTime";
+  if (!isLeaderboardMode(mode) || !isLeaderboardPeriod(period)) {
+    res.status(404).json({ error: "No such leaderboard" });
+    return;
+  }
+
+  const limit = Number(req.query.limit ?? LEADERBOARD.DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > LEADERBOARD.MAX_LIMIT) {
+    res.status(400).json({ error: `Limit must be 1-${LEADERBOARD.MAX_LIMIT}` });
+    return;
+  }
+
+  try {
+    res.json(await leaderboard.top(mode, period, limit));
+  } catch (error) {
+    logger.error(`Failed to read the ${mode} leaderboard:`, error);
+    res.status(500).json({ error: "Failed to read leaderboard" });
+  }
+});
+
+// Submit a score with the replay of its run. The replay is re-run and the
+// score only accepted if it reproduces; otherwise the response gives the reason.
+// Responds with where the score placed on each of the mode's boards.
+// Each client can only submit a few scores a minute.
+app.post("/leaderboard/:mode", async (req, res) => {
+  const { mode } = req.params;
+  if (!isLeaderboardMode(mode)) {
+    res.status(404).json({ error: "No such leaderboard" });
+    return;
+  }
+
+  if (!submissionLimiter.allow(req.ip ?? req.socket.remoteAddress ?? "unknown")) {
+    res.status(429).json({ error: "Too many scores submitted; try again in a minute" });
+    return;
+  }
+
+  let submission;
+  try {
+    submission = validateSubmission(req.body);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message, reason: "malformed" });
+    return;
+  }
+
+  let failure;
+  try {
+    failure = await verifyScoreAsync(mode, submission);
+  } catch (error) {
+    logger.error(`Failed to check a ${mode} score:`, error);
+    res.status(500).json({ error: "Failed to check score" });
+    return;
+  }
+  if (failure) {
+    logger.warn(`Rejected a ${mode} score of ${submission.score} from ${submission.name}: ${failure.reason}`);
+    res.status(422).json({ error: failure.message, reason: failure.reason });
+    return;
+  }
+
+  try {
+    res.status(201).json({ ranks: await leaderboard.submit(mode, submission) });
+  } catch (error) {
+    logger.error(`Failed to save a ${mode} score:`, error);
+    res.status(500).json({ error: "Failed to save score" });
+  }
+});
+
 // Start listening for connections
 const PORT = config.port;
 gameServer.listen(PORT);
 
 logger.info(`🎮 Ascend & Avoid Game Server is running on port ${PORT}`);
 logger.info(`🌐 Health check available at http://localhost:${PORT}/health`);
+logger.info(`🎞️ Match replays available at http://localhost:${PORT}/replays`);
+logger.info(`🏆 Leaderboards available at http://localhost:${PORT}/leaderboard/singlePlayer`);
 logger.info(`📊 Colyseus Monitor available at http://localhost:${PORT}${config.monitorPath}`);
 
 // Log environment mode
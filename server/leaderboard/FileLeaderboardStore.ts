@@ -0,0 +1,68 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { LeaderboardEntry, LeaderboardMode } from "../shared/leaderboard.js";
+import { LeaderboardStore } from "./LeaderboardStore.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Keeps scores in memory, backed by a file with one JSON entry per line.
+ * New scores are appended, so a crash loses at most the line being written.
+ */
+export class FileLeaderboardStore implements LeaderboardStore {
+  private file: string;
+  private entries: LeaderboardEntry[] | null = null;
+  private loading: Promise<LeaderboardEntry[]> | null = null;
+
+  constructor(file: string) {
+    this.file = path.resolve(file);
+  }
+
+  async add(entry: LeaderboardEntry): Promise<void> {
+    const entries = await this.load();
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await appendFile(this.file, `${JSON.stringify(entry)}\n`);
+    entries.push(entry);
+  }
+
+  async list(mode: LeaderboardMode, since: number | null): Promise<LeaderboardEntry[]> {
+    const entries = await this.load();
+    return entries.filter((entry) => entry.mode === mode && (since === null || entry.submittedAt >= since));
+  }
+
+  /**
+   * Read the file the first time scores are needed
+   */
+  private load(): Promise<LeaderboardEntry[]> {
+    if (this.entries) return Promise.resolve(this.entries);
+
+    this.loading ??= this.readEntries().then((entries) => {
+      this.entries = entries;
+      this.loading = null;
+      return entries;
+    });
+    return this.loading;
+  }
+
+  private async readEntries(): Promise<LeaderboardEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.file, "utf8");
+    } catch (error) {
+      // No scores have been submitted yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: LeaderboardEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the file is still good
+        logger.warn(`Skipping unreadable leaderboard entry in ${this.file}`);
+      }
+    }
+    return entries;
+  }
+}
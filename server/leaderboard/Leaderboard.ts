@@ -0,0 +1,100 @@
+import config from "../config.js";
+import { LEADERBOARD } from "../constants/serverConstants.js";
+import {
+  getPeriodStart,
+  LEADERBOARD_PERIODS,
+  LeaderboardEntry,
+  LeaderboardMode,
+  LeaderboardPage,
+  LeaderboardPeriod,
+  LeaderboardRanks,
+  LeaderboardRow,
+  LeaderboardSubmission,
+} from "../shared/leaderboard.js";
+import { FileLeaderboardStore } from "./FileLeaderboardStore.js";
+import { LeaderboardStore } from "./LeaderboardStore.js";
+
+/**
+ * Ranks the scores kept in a store. Each board lists a player once, by their
+ * best score in the period; equal scores go to whoever got there first.
+ */
+export class Leaderboard {
+  private store: LeaderboardStore;
+  private now: () => number;
+
+  /**
+   * @param now - Clock used to timestamp scores and pick the current day and week
+   */
+  constructor(store: LeaderboardStore, now: () => number = Date.now) {
+    this.store = store;
+    this.now = now;
+  }
+
+  /**
+   * Store a score. Check it with verifyScore first.
+   * @returns Where the score placed on each of the mode's boards
+   */
+  async submit(mode: LeaderboardMode, submission: LeaderboardSubmission): Promise<LeaderboardRanks> {
+    const entry: LeaderboardEntry = {
+      name: submission.name,
+      score: submission.score,
+      mode,
+      seed: submission.replay.seed,
+      submittedAt: this.now(),
+    };
+    await this.store.add(entry);
+
+    const ranks = {} as LeaderboardRanks;
+    for (const period of LEADERBOARD_PERIODS) {
+      const bests = bestPerPlayer(await this.store.list(mode, getPeriodStart(period, entry.submittedAt)));
+      // Players with a better score are ahead, even if this isn't the submitter's best
+      ranks[period] = 1 + bests.filter((best) => best.name !== entry.name && isAhead(best, entry)).length;
+    }
+    return ranks;
+  }
+
+  /**
+   * The top of a board
+   */
+  async top(
+    mode: LeaderboardMode,
+    period: LeaderboardPeriod,
+    limit: number = LEADERBOARD.DEFAULT_LIMIT
+  ): Promise<LeaderboardPage> {
+    const entries = await this.store.list(mode, getPeriodStart(period, this.now()));
+    const rows: LeaderboardRow[] = bestPerPlayer(entries)
+      .sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt)
+      .slice(0, limit)
+      .map((entry, index) => ({
+        rank: index + 1,
+        name: entry.name,
+        score: entry.score,
+        submittedAt: entry.submittedAt,
+      }));
+    return { mode, period, rows };
+  }
+}
+
+/**
+ * Each player's best entry
+ */
+function bestPerPlayer(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const bests = new Map<string, LeaderboardEntry>();
+  for (const entry of entries) {
+    const best = bests.get(entry.name);
+    if (!best || isAhead(entry, best)) {
+      bests.set(entry.name, entry);
+    }
+  }
+  return [...bests.values()];
+}
+
+/**
+ * Whether one entry ranks above another
+ */
+function isAhead(a: LeaderboardEntry, b: LeaderboardEntry): boolean {
+  return a.score > b.score || (a.score === b.score && a.submittedAt < b.submittedAt);
+}
+
+// The boards the HTTP endpoints serve
+export const leaderboard = new Leaderboard(new FileLeaderboardStore(config.leaderboardFile));
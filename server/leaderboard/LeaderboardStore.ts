@@ -0,0 +1,18 @@
+import { LeaderboardEntry, LeaderboardMode } from "../shared/leaderboard.js";
+
+/**
+ * Where submitted scores are kept. The leaderboard does the ranking, so a
+ * store only has to keep entries and hand back those for a mode.
+ */
+export interface LeaderboardStore {
+  /**
+   * Keep a submitted score
+   */
+  add(entry: LeaderboardEntry): Promise<void>;
+
+  /**
+   * Scores submitted for a mode, in any order
+   * @param since - Only scores submitted at or after this time (milliseconds since the epoch)
+   */
+  list(mode: LeaderboardMode, since: number | null): Promise<LeaderboardEntry[]>;
+}
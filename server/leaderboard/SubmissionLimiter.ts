@@ -0,0 +1,61 @@
+import { LEADERBOARD } from "../constants/serverConstants.js";
+
+/**
+ * Caps how many scores each client can submit in a window of time, so no
+ * one can keep the server busy re-running replays.
+ */
+export class SubmissionLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+  private limit: number;
+  private windowLength: number;
+  private now: () => number;
+
+  /**
+   * @param limit - Submissions a client may make per window
+   * @param windowLength - Length of a window in milliseconds
+   * @param now - Clock used to start and end windows
+   */
+  constructor(
+    limit: number = LEADERBOARD.MAX_SUBMISSIONS_PER_WINDOW,
+    windowLength: number = LEADERBOARD.SUBMISSION_WINDOW,
+    now: () => number = Date.now
+  ) {
+    this.limit = limit;
+    this.windowLength = windowLength;
+    this.now = now;
+  }
+
+  /**
+   * Count a submission from a client
+   * @param client - Who is submitting, e.g. their IP address
+   * @returns Whether the client is still within its limit
+   */
+  allow(client: string): boolean {
+    const now = this.now();
+    this.forgetExpired(now);
+
+    const window = this.windows.get(client);
+    if (!window) {
+      this.windows.set(client, { start: now, count: 1 });
+      return true;
+    }
+    if (window.count >= this.limit) {
+      return false;
+    }
+    window.count++;
+    return true;
+  }
+
+  /**
+   * Drop the windows that have ended, so clients seen once aren't kept forever
+   */
+  private forgetExpired(now: number): void {
+    for (const [client, window] of this.windows) {
+      if (now - window.start >= this.windowLength) {
+        this.windows.delete(client);
+      }
+    }
+  }
+}
+
+export const submissionLimiter = new SubmissionLimiter();
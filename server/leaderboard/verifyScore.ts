@@ -0,0 +1,208 @@
+import { setImmediate } from "timers/promises";
+import { CANVAS, DEVICE_SETTINGS, GAME, OBSTACLE, PLAYER, POWER_UPS } from "../constants/gameConstants.js";
+import { LEADERBOARD } from "../constants/serverConstants.js";
+import { DAILY_FIELD, getDailySeed, getDayKey } from "../shared/dailyChallenge.js";
+import { LeaderboardMode, LeaderboardSubmission, ScoreRejection } from "../shared/leaderboard.js";
+import { Replay, ReplayPlayer } from "../shared/replay.js";
+import { BASE_CANVAS_HEIGHT, SimulationConfig } from "../shared/singlePlayerSimulation.js";
+
+/**
+ * Why a submission was turned down
+ */
+export interface ScoreCheckFailure {
+  reason: ScoreRejection;
+  message: string;
+}
+
+// Obstacle widths the client can play with: the standard curve, and desktop's
+const DIFFICULTY_TIERS = [
+  { min: OBSTACLE.MIN_WIDTH_RATIO, max: OBSTACLE.MAX_WIDTH_RATIO },
+  { min: DEVICE_SETTINGS.DESKTOP.OBSTACLE_MIN_WIDTH_RATIO, max: DEVICE_SETTINGS.DESKTOP.OBSTACLE_MAX_WIDTH_RATIO },
+];
+
+// Fields the client lays out keep the canvas's aspect ratio, from the smallest
+// phone canvas up to the widest desktop one
+const FIELD_ASPECT_RATIO = CANVAS.BASE_HEIGHT / CANVAS.BASE_WIDTH;
+const MIN_FIELD_WIDTH = Math.floor(CANVAS.MIN_HEIGHT / FIELD_ASPECT_RATIO);
+const MAX_FIELD_WIDTH = CANVAS.MAX_DESKTOP_WIDTH;
+// Canvas sizes are rounded down to whole pixels
+const FIELD_SIZE_TOLERANCE = 2;
+
+/**
+ * Check that a submitted score is what its replay scores under the game's
+ * rules. The cheap checks run first, so most bad submissions are turned down
+ * without re-running the run. Re-running a long run takes a while; the server
+ * uses verifyScoreAsync so other requests aren't held up.
+ * @param submittedAt - When the score was submitted (milliseconds since the
+ * epoch); daily challenge runs must be on that day's seed
+ * @returns Why the score was turned down, or null if it stands
+ */
+export function verifyScore(
+  mode: LeaderboardMode,
+  submission: LeaderboardSubmission,
+  submittedAt: number = Date.now()
+): ScoreCheckFailure | null {
+  const failure = checkSubmission(mode, submission, submittedAt);
+  if (failure) {
+    return failure;
+  }
+
+  const run = replayRun(submission.replay, submission.score);
+  let result = run.next();
+  while (!result.done) {
+    result = run.next();
+  }
+  return result.value;
+}
+
+/**
+ * verifyScore, re-running the replay LEADERBOARD.REPLAY_CHUNK_FRAMES steps at
+ * a time and letting the event loop handle other work in between
+ */
+export async function verifyScoreAsync(
+  mode: LeaderboardMode,
+  submission: LeaderboardSubmission,
+  submittedAt: number = Date.now()
+): Promise<ScoreCheckFailure | null> {
+  const failure = checkSubmission(mode, submission, submittedAt);
+  if (failure) {
+    return failure;
+  }
+
+  const run = replayRun(submission.replay, submission.score);
+  let result = run.next();
+  while (!result.done) {
+    await setImmediate();
+    result = run.next();
+  }
+  return result.value;
+}
+
+/**
+ * The checks that don't need the run re-played
+ */
+function checkSubmission(
+  mode: LeaderboardMode,
+  submission: LeaderboardSubmission,
+  submittedAt: number
+): ScoreCheckFailure | null {
+  const { replay, score } = submission;
+
+  if (mode === "dailyChallenge") {
+    const day = getDayKey(new Date(submittedAt));
+    if (replay.seed !== getDailySeed(day)) {
+      return { reason: "wrong_seed", message: `The run wasn't played on the challenge for ${day}` };
+    }
+  }
+
+  const configs = [replay.config, ...replay.configChanges.map((change) => change.config)];
+  for (const config of configs) {
+    const problem = checkConfig(mode, config);
+    if (problem) {
+      return { reason: "invalid_config", message: problem };
+    }
+  }
+
+  if (replay.frameCount > LEADERBOARD.MAX_REPLAY_FRAMES) {
+    return { reason: "too_long", message: `Runs longer than ${LEADERBOARD.MAX_REPLAY_FRAMES} steps can't be checked` };
+  }
+
+  const minFrames = score * Math.min(...configs.map(minFramesPerPoint));
+  if (replay.frameCount < minFrames) {
+    return {
+      reason: "too_fast",
+      message: `${score} points need at least ${Math.ceil(minFrames)} steps; the run lasted ${replay.frameCount}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Re-run the replay and compare the outcome with the claim. Pauses every
+ * LEADERBOARD.REPLAY_CHUNK_FRAMES steps; the caller decides when to go on.
+ */
+function* replayRun(replay: Replay, score: number): Generator<void, ScoreCheckFailure | null> {
+  const player = new ReplayPlayer(replay);
+  while (player.step()) {
+    if (player.getState().done && !player.isFinished()) {
+      return {
+        reason: "inputs_after_end",
+        message: `The player ran out of lives on step ${player.getFrame()} of ${replay.frameCount}`,
+      };
+    }
+    if (player.getFrame() % LEADERBOARD.REPLAY_CHUNK_FRAMES === 0) {
+      yield;
+    }
+  }
+
+  const state = player.getState();
+  if (!state.done) {
+    return { reason: "not_finished", message: "The replay ends before the player ran out of lives" };
+  }
+  if (state.score !== score || replay.score !== score) {
+    return { reason: "score_mismatch", message: `The replay scores ${state.score}, not ${score}` };
+  }
+  return null;
+}
+
+/**
+ * Check a playing field is one the client could have played on
+ * @returns What's wrong with it, or null if nothing is
+ */
+function checkConfig(mode: LeaderboardMode, config: SimulationConfig): string | null {
+  // The client draws entities at the same size on every field
+  if (config.scale !== 1) {
+    return "Scale doesn't match the game's";
+  }
+  // The daily challenge is played on the same field everywhere
+  if (
+    mode === "dailyChallenge" &&
+    (config.width !== DAILY_FIELD.width || config.height !== DAILY_FIELD.height || config.scale !== DAILY_FIELD.scale)
+  ) {
+    return "Playing field isn't the daily challenge's";
+  }
+  if (config.width < MIN_FIELD_WIDTH || config.width > MAX_FIELD_WIDTH) {
+    return `Playing field must be ${MIN_FIELD_WIDTH}-${MAX_FIELD_WIDTH} wide`;
+  }
+  if (Math.abs(config.height - config.width * FIELD_ASPECT_RATIO) > FIELD_SIZE_TOLERANCE) {
+    return "Playing field isn't the shape of the game's";
+  }
+  if (config.maxObstacles !== GAME.MAX_OBSTACLES) {
+    return "Obstacle count doesn't match the game's";
+  }
+  if (config.lives !== PLAYER.LIVES) {
+    return "Lives don't match the game's";
+  }
+  if (config.powerUpInterval !== POWER_UPS.SPAWN_INTERVAL) {
+    return "Power-ups don't match the game's";
+  }
+
+  // The daily challenge plays the standard curve on every device
+  const tiers = mode === "dailyChallenge" ? DIFFICULTY_TIERS.slice(0, 1) : DIFFICULTY_TIERS;
+  const matchesTier = tiers.some(
+    (tier) => config.obstacleMinWidthRatio === tier.min && config.obstacleMaxWidthRatio === tier.max
+  );
+  return matchesTier ? null : "Obstacle widths don't match the game's";
+}
+
+/**
+ * Fewest steps a point can take on a playing field. Each point is a climb
+ * from the bottom to the winning line, and the quickest way up is tapping up
+ * on every other step: a full step on the press plus the slow climb for
+ * holding it. (PLAYER.BASE_SPEED, the speed of the old frame-based player,
+ * doesn't apply: the simulation moves the player in steps.) With power-ups
+ * on, a climb can be worth double points.
+ */
+function minFramesPerPoint(config: SimulationConfig): number {
+  const { height, scale } = config;
+  const heightRatio = height / BASE_CANVAS_HEIGHT;
+  const playerSize = Math.max(PLAYER.BASE_WIDTH * scale, 15);
+  const start = height - playerSize - 10 * scale;
+  const climb = start - GAME.WINNING_LINE * heightRatio;
+
+  const step = Math.max(BASE_CANVAS_HEIGHT * 0.07 * scale, PLAYER.MIN_STEP * scale);
+  const perTwoSteps = step + 3 * heightRatio;
+  // The first press can land on the very first step
+  const frames = Math.max(0, (2 * (climb - perTwoSteps)) / perTwoSteps + 1);
+  return config.powerUpInterval > 0 ? frames / POWER_UPS.POINTS_MULTIPLIER : frames;
+}
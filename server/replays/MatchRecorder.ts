@@ -0,0 +1,187 @@
+import { randomBytes } from "crypto";
+import { GAME_CONSTANTS, REPLAYS } from "../constants/serverConstants.js";
+import { GameState } from "../schema/GameState.js";
+import { PlayerSchema } from "../schema/PlayerSchema.js";
+import {
+  MATCH_REPLAY_FORMAT,
+  MATCH_REPLAY_VERSION,
+  MatchEvent,
+  MatchReplay,
+  MatchReplayPlayer,
+  MatchSnapshot,
+} from "../shared/matchReplay.js";
+import { Zone } from "../shared/zone.js";
+
+// Positions are stored to a tenth of a unit, which is plenty for playback and keeps files small
+const round = (value: number): number => Math.round(value * 10) / 10;
+const roundZone = (zone: Zone): Zone => ({ x: round(zone.x), y: round(zone.y), radius: round(zone.radius) });
+
+/**
+ * Records one multiplayer round as periodic snapshots of the room state plus
+ * an event log of joins, leaves, eliminations and the winner.
+ */
+export class MatchRecorder {
+  private roomId: string;
+  private seed: number;
+  private startedAt: Date;
+  private time = 0;
+  private nextSnapshotTime = 0;
+  private snapshots: MatchSnapshot[] = [];
+  private events: MatchEvent[] = [];
+  private players = new Map<string, MatchReplayPlayer>();
+  // Player states seen on the last update, to spot eliminations
+  private playerStates = new Map<string, string>();
+  private arenaWidth: number;
+  private arenaHeight: number;
+
+  /**
+   * Start recording a round
+   * @param roomId - Room the round is played in
+   * @param state - Room state as the round starts
+   */
+  constructor(roomId: string, state: GameState) {
+    this.roomId = roomId;
+    this.seed = state.seed;
+    this.startedAt = new Date();
+    this.arenaWidth = state.arenaWidth;
+    this.arenaHeight = state.arenaHeight;
+
+    state.players.forEach((player) => this.addPlayer(player));
+    this.takeSnapshot(state);
+  }
+
+  /**
+   * Note a player joining mid-round
+   */
+  recordJoin(player: PlayerSchema): void {
+    this.addPlayer(player);
+    this.events.push({ time: round(this.time), type: "join", playerId: player.sessionId, name: player.name });
+  }
+
+  /**
+   * Note a player leaving mid-round
+   */
+  recordLeave(sessionId: string): void {
+    this.playerStates.delete(sessionId);
+    this.events.push({ time: round(this.time), type: "leave", playerId: sessionId });
+  }
+
+  /**
+   * Advance the recording after a simulation step
+   * @param state - Room state after the step
+   * @param deltaTime - Length of the step in seconds
+   */
+  update(state: GameState, deltaTime: number): void {
+    this.time += deltaTime;
+
+    state.players.forEach((player, sessionId) => {
+      const previous = this.playerStates.get(sessionId);
+      if (previous === GAME_CONSTANTS.PLAYER_STATE.ALIVE && player.state === GAME_CONSTANTS.PLAYER_STATE.DEAD) {
+        this.events.push({ time: round(this.time), type: "eliminated", playerId: sessionId });
+      }
+      this.playerStates.set(sessionId, player.state);
+    });
+
+    if (this.time >= this.nextSnapshotTime) {
+      this.takeSnapshot(state);
+    }
+  }
+
+  /**
+   * Stop recording
+   * @param state - Room state at game over
+   * @returns The finished replay
+   */
+  finish(state: GameState): MatchReplay {
+    this.takeSnapshot(state);
+    if (state.winnerName) {
+      this.events.push({ time: round(this.time), type: "winner", name: state.winnerName });
+    }
+
+    const startedAt = this.startedAt.toISOString();
+    return {
+      format: MATCH_REPLAY_FORMAT,
+      version: MATCH_REPLAY_VERSION,
+      // Sorts by start time, and is safe to use as a file name. The random
+      // part tells apart rounds that started together without giving away the room.
+      id: `${startedAt.replace(/[-:.]/g, "")}-${randomBytes(4).toString("hex")}`,
+      roomId: this.roomId,
+      seed: this.seed,
+      startedAt,
+      duration: round(this.time),
+      winnerName: state.winnerName,
+      playerCount: this.players.size,
+      arenaWidth: this.arenaWidth,
+      arenaHeight: this.arenaHeight,
+      players: Array.from(this.players.values()),
+      snapshots: this.snapshots,
+      events: this.events,
+    };
+  }
+
+  private addPlayer(player: PlayerSchema): void {
+    this.players.set(player.sessionId, {
+      id: player.sessionId,
+      name: player.name,
+      playerIndex: player.playerIndex,
+      isBot: player.isBot,
+    });
+    this.playerStates.set(player.sessionId, player.state);
+  }
+
+  private takeSnapshot(state: GameState): void {
+    const snapshot: MatchSnapshot = {
+      time: round(this.time),
+      gameState: state.gameState,
+      zone: roundZone(state.getZone()),
+      nextZone: roundZone(state.getNextZone()),
+      players: [],
+      obstacles: [],
+      projectiles: [],
+    };
+
+    state.players.forEach((player, sessionId) => {
+      // Players can rename themselves at any time; keep the latest name
+      const info = this.players.get(sessionId);
+      if (info) {
+        info.name = player.name;
+      }
+
+      snapshot.players.push({
+        id: sessionId,
+        x: round(player.x),
+        y: round(player.y),
+        width: player.width,
+        height: player.height,
+        state: player.state,
+        score: player.score,
+        stunned: player.stunTime > 0,
+      });
+    });
+
+    state.obstacles.forEach((obstacle) => {
+      if (!obstacle.active) return;
+      snapshot.obstacles.push({
+        id: obstacle.id,
+        x: round(obstacle.x),
+        y: round(obstacle.y),
+        width: round(obstacle.width),
+        height: round(obstacle.height),
+        variant: obstacle.variant,
+      });
+    });
+
+    state.projectiles.forEach((projectile) => {
+      snapshot.projectiles.push({
+        id: projectile.id,
+        x: round(projectile.x),
+        y: round(projectile.y),
+        width: projectile.width,
+        height: projectile.height,
+      });
+    });
+
+    this.snapshots.push(snapshot);
+    this.nextSnapshotTime = this.time + REPLAYS.SNAPSHOT_INTERVAL;
+  }
+}
@@ -0,0 +1,107 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import config from "../config.js";
+import { REPLAYS } from "../constants/serverConstants.js";
+import { MatchReplay, MatchReplaySummary, summarizeMatchReplay } from "../shared/matchReplay.js";
+
+// Replay IDs become file names, so only allow characters that can't escape the directory
+const REPLAY_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+// Each replay is stored next to a small summary file, so listing doesn't read whole replays
+const SUMMARY_SUFFIX = ".summary.json";
+
+/**
+ * Stores recorded rounds as JSON files in a local directory, keeping only the
+ * most recent ones
+ */
+export class ReplayStore {
+  private directory: string;
+  private maxStored: number;
+
+  /**
+   * @param maxStored - Replays kept; saving one more deletes the oldest
+   */
+  constructor(directory: string, maxStored: number = REPLAYS.MAX_STORED) {
+    this.directory = path.resolve(directory);
+    this.maxStored = maxStored;
+  }
+
+  /**
+   * Write a replay to the directory, then delete the oldest replays beyond the cap
+   */
+  async save(replay: MatchReplay): Promise<void> {
+    if (!REPLAY_ID_PATTERN.test(replay.id)) {
+      throw new Error(`Invalid replay ID: ${replay.id}`);
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.replayPath(replay.id), JSON.stringify(replay));
+    // Written last, so a replay is only listed once it's complete
+    await writeFile(this.summaryPath(replay.id), JSON.stringify(summarizeMatchReplay(replay)));
+
+    const stale = (await this.listIds()).slice(this.maxStored);
+    // Summary first, so a replay stops being listed before it's gone
+    for (const id of stale) {
+      await rm(this.summaryPath(id), { force: true });
+      await rm(this.replayPath(id), { force: true });
+    }
+  }
+
+  /**
+   * Summaries of the most recent replays, newest first
+   */
+  async list(limit: number = REPLAYS.MAX_LISTED): Promise<MatchReplaySummary[]> {
+    const ids = (await this.listIds()).slice(0, limit);
+    const summaries = await Promise.all(
+      ids.map(async (id) => JSON.parse(await readFile(this.summaryPath(id), "utf8")) as MatchReplaySummary)
+    );
+    return summaries;
+  }
+
+  /**
+   * Read a stored replay as its raw JSON text
+   * @returns The replay, or null if there is no replay with that ID
+   */
+  async read(id: string): Promise<string | null> {
+    if (!REPLAY_ID_PATTERN.test(id)) return null;
+
+    try {
+      return await readFile(this.replayPath(id), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of the stored replays, newest first
+   */
+  private async listIds(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      // Nothing has been recorded yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    // IDs start with the time the round started, so name order is age order
+    return files
+      .filter((file) => file.endsWith(SUMMARY_SUFFIX))
+      .map((file) => file.slice(0, -SUMMARY_SUFFIX.length))
+      .sort()
+      .reverse();
+  }
+
+  private replayPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private summaryPath(id: string): string {
+    return path.join(this.directory, `${id}${SUMMARY_SUFFIX}`);
+  }
+}
+
+// The archive every room records into and the HTTP endpoints serve from
+export const replayStore = new ReplayStore(config.replayDir);
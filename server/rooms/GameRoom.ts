@@ -5,26 +5,50 @@ import { Room, Client } from "colyseus";
 // import { GameState } from "../schema/GameState";
 import { GAME_CONSTANTS } from "../constants/serverConstants";
 import logger from "../utils/logger";
-import { GameState } from '../schema/GameState';
+import { GameMode, GameState, isPlayerCollisionMode, PlayerCollisionMode } from '../schema/GameState';
+import { MovementInput, sanitizeMovementInput } from "../shared/movement";
+import { BotController, BotSkill, isBotSkill } from "../bots/BotController";
+import { MatchRecorder } from "../replays/MatchRecorder";
+import { replayStore } from "../replays/ReplayStore";
 /**
  * Options sent by clients when joining a room
  */
 interface JoinOptions {
   name?: string;
-  width?: number;
-  height?: number;
 }
 
 /**
- * Structure of an input message from the client
+ * Options sent by the client that creates a room
  */
-interface InputMessage {
-  up: boolean;
-  down: boolean;
-  left: boolean;
-  right: boolean;
+export interface CreateOptions extends JoinOptions {
+  roomName?: string;
+  private?: boolean;
+  // Room size bots fill up to (0 disables bots)
+  bots?: number;
+  botSkill?: string;
+  // Play every round from this seed instead of a random one
+  seed?: number;
+  // What happens when players run into each other
+  playerCollisions?: string;
 }
 
+/**
+ * Room details shown in the client's room browser
+ */
+export interface RoomMetadata {
+  roomName: string;
+  mode: GameMode;
+  playerCollisions: PlayerCollisionMode;
+  gameState: string;
+}
+
+// Room IDs double as join codes, so keep them short and unambiguous
+const JOIN_CODE_LENGTH = 5;
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Presence set of join codes in use across all rooms
+const JOIN_CODES_KEY = "game_room:joinCodes";
+
 /**
  * Structure of a name‑update message from the client
  */
@@ -36,57 +60,159 @@ interface NameUpdateMessage {
  * Last‑Player‑Standing Game Room
  */
 export class GameRoom extends Room<GameState> {
-  private updateInterval: NodeJS.Timeout | null = null;
+  // Simulation time (ms) not yet consumed by fixed steps
+  private accumulator = 0;
+
+  // Game state last published in the room listing
+  private listedGameState = "";
+
+  // Bot players, keyed by their session ID
+  private bots = new Map<string, BotController>();
+  private botTarget: number = GAME_CONSTANTS.BOTS.TARGET_ROOM_SIZE;
+  private botSkill: BotSkill = GAME_CONSTANTS.BOTS.DEFAULT_SKILL;
+  private nextBotId = 0;
+
+  // Seed chosen by the room's creator, reused for every round
+  private fixedSeed: number | undefined;
+
+  // Recording of the round in progress, from its countdown to game over
+  private recorder: MatchRecorder | null = null;
 
   constructor() {
     super();
-    // Configure room settings
+    // Configure room settings (empty rooms are disposed so the browser only lists live ones)
     this.maxClients = GAME_CONSTANTS.GAME.MAX_PLAYERS;
-    this.autoDispose = false; // keep room alive even when empty
-    logger.info("Last Player Standing Game Room instantiated");
+    logger.info(`${this.getTitle()} Game Room instantiated`);
   }
 
   /**
    * Called when the room is first created
    */
-  onCreate(options: JoinOptions = {}): void {
-    logger.info("Creating Last Player Standing Game Room");
+  async onCreate(options: CreateOptions = {}): Promise<void> {
+    logger.info(`Creating ${this.getTitle()} Game Room`);
+
+    // Use a short code as the room ID so players can share it
+    this.roomId = await this.generateJoinCode();
+
+    // Private rooms are hidden from the browser and matchmaking; they can only be joined by code
+    if (options.private) {
+      await this.setPrivate(true);
+    }
+
+    if (typeof options.seed === "number" && Number.isInteger(options.seed)) {
+      this.fixedSeed = options.seed >>> 0;
+    }
 
-    // Initialize the state schema
-    this.setState(new GameState());
+    // Initialize the state schema (the arena always uses the logical world size)
+    this.setState(this.createState(options, this.fixedSeed));
 
-    // Override arena dimensions if provided
-    if (options.width && options.height) {
-      this.state.arenaWidth = options.width;
-      this.state.arenaHeight = options.height;
+    if (isPlayerCollisionMode(options.playerCollisions)) {
+      this.state.playerCollisions = options.playerCollisions;
     }
 
-    // Start the game loop
-    const updateRate = GAME_CONSTANTS.GAME.STATE_UPDATE_RATE;
-    this.updateInterval = setInterval(() => this.gameLoop(), updateRate);
+    // Let every client show projectile hits, players bumping into each other
+    // and power-ups being collected
+    this.state.onProjectileHit = (hit) => this.broadcast("projectileHit", hit);
+    this.state.onPlayerBump = (bump) => this.broadcast("playerBump", bump);
+    this.state.onPowerUp = (pickup) => this.broadcast("powerUp", pickup);
+
+    // Simulate in fixed steps and send patches at the state update rate
+    this.setSimulationInterval(
+      (deltaTime) => this.gameLoop(deltaTime),
+      GAME_CONSTANTS.GAME.SIMULATION_STEP
+    );
+    this.setPatchRate(GAME_CONSTANTS.GAME.STATE_UPDATE_RATE);
 
     // Register message handlers
     this.setupMessageHandlers();
 
+    if (typeof options.bots === "number" && Number.isFinite(options.bots)) {
+      this.botTarget = Math.min(Math.max(Math.floor(options.bots), 0), this.maxClients);
+    }
+    if (isBotSkill(options.botSkill)) {
+      this.botSkill = options.botSkill;
+    }
+
+    const roomName = options.roomName?.trim().substring(0, 30) || `Room ${this.roomId}`;
+    this.listedGameState = this.state.gameState;
+    const metadata: RoomMetadata = {
+      roomName,
+      mode: this.state.mode,
+      playerCollisions: this.state.playerCollisions,
+      gameState: this.listedGameState,
+    };
+    await this.setMetadata(metadata);
+
     logger.info(
-      `Room ready - Arena: ${this.state.arenaWidth}×${this.state.arenaHeight}`
+      `Room ${this.roomId} ready${options.private ? " (private)" : ""} - Arena: ${this.state.arenaWidth}×${this.state.arenaHeight}, seed ${this.state.seed}`
     );
   }
 
+  /**
+   * Create the room's state, which carries the rules it plays by
+   * @param _options - Options sent by the room's creator
+   * @param seed - Seed for every round, or undefined for a fresh one each round
+   */
+  protected createState(_options: CreateOptions, seed: number | undefined): GameState {
+    return new GameState(seed);
+  }
+
+  /**
+   * Name of the room type, for the logs
+   */
+  protected getTitle(): string {
+    return "Last Player Standing";
+  }
+
+  /**
+   * Generate a join code that no other room is using
+   */
+  private async generateJoinCode(): Promise<string> {
+    const codesInUse = await this.presence.smembers(JOIN_CODES_KEY);
+
+    let code: string;
+    do {
+      code = "";
+      for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+        code += JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)];
+      }
+    } while (codesInUse.includes(code));
+
+    await this.presence.sadd(JOIN_CODES_KEY, code);
+    return code;
+  }
+
   /**
    * Register handlers for incoming messages
    */
   private setupMessageHandlers(): void {
-    this.onMessage("input", (client: Client, data: InputMessage) => {
+    this.onMessage("input", (client: Client, data: Partial<MovementInput>) => {
       const player = this.state.players.get(client.sessionId);
       if (!player) return;
 
-      player.movementKeys = {
-        up: data.up ?? false,
-        down: data.down ?? false,
-        left: data.left ?? false,
-        right: data.right ?? false,
-      };
+      const input = sanitizeMovementInput(data);
+      if (input) {
+        player.queueInput(input);
+      }
+    });
+
+    this.onMessage("shoot", (client: Client) => {
+      const player = this.state.players.get(client.sessionId);
+      if (!player) return;
+
+      if (this.state.gameState !== GAME_CONSTANTS.STATE.PLAYING ||
+          player.state !== GAME_CONSTANTS.PLAYER_STATE.ALIVE ||
+          player.stunTime > 0) {
+        return;
+      }
+
+      // Enforce fire rate (in simulation time) and the in-flight limit
+      const now = this.state.elapsedTime * 1000;
+      if (now - player.lastShotTime < GAME_CONSTANTS.PROJECTILE.FIRE_RATE) return;
+      if (this.state.countProjectiles(client.sessionId) >= GAME_CONSTANTS.PROJECTILE.MAX_ACTIVE) return;
+
+      player.lastShotTime = now;
+      this.state.spawnProjectile(player);
     });
 
     this.onMessage("updateName", (client: Client, data: NameUpdateMessage) => {
@@ -99,7 +225,7 @@ export class GameRoom extends Room<GameState> {
     this.onMessage("restartGame", (client: Client) => {
       if (this.state.gameState === GAME_CONSTANTS.STATE.GAME_OVER) {
         logger.info("Restart requested by", client.sessionId);
-        this.state.resetGame();
+        this.state.resetGame(this.fixedSeed);
       }
     });
   }
@@ -119,42 +245,179 @@ export class GameRoom extends Room<GameState> {
       id: client.sessionId,
       name: player.name,
     });
+    this.recorder?.recordJoin(player);
 
     logger.info(`Current players: ${this.state.totalPlayers}`);
   }
 
   /**
-   * Called when a client leaves
+   * Called when a client leaves. Unless the client left on purpose, its
+   * player is frozen and the slot is held for a grace period so the same
+   * session can rejoin after a network drop.
    */
-  onLeave(client: Client, _consented: boolean): void {
+  async onLeave(client: Client, consented: boolean): Promise<void> {
+    const player = this.state.players.get(client.sessionId);
+
+    if (player && !consented) {
+      player.connected = false;
+      player.discardInputs();
+      logger.info(`Player ${client.sessionId} disconnected, holding slot for reconnection`);
+
+      try {
+        await this.allowReconnection(client, GAME_CONSTANTS.GAME.RECONNECT_GRACE_PERIOD);
+
+        player.connected = true;
+        player.resetInputs();
+        logger.info(`Player ${client.sessionId} reconnected`);
+        return;
+      } catch {
+        logger.info(`Player ${client.sessionId} did not reconnect in time`);
+      }
+    }
+
     logger.info(`Player ${client.sessionId} left`);
 
     this.state.removePlayer(client.sessionId);
     this.broadcast("playerLeft", { id: client.sessionId });
+    this.recorder?.recordLeave(client.sessionId);
     this.state.checkWinCondition();
 
     logger.info(`Current players: ${this.state.totalPlayers}`);
   }
 
   /**
-   * Main game loop, called at a fixed interval
+   * Main game loop. Advances the simulation in fixed steps regardless of
+   * timer jitter, so gameplay speed doesn't depend on the tick rate.
+   * @param deltaTime - Wall-clock time since the last call in milliseconds
    */
-  private gameLoop(): void {
-    const now = Date.now();
-    const deltaTime = (now - this.state.lastUpdateTime) / 1000;
-    this.state.lastUpdateTime = now;
+  private gameLoop(deltaTime: number): void {
+    const step = GAME_CONSTANTS.GAME.SIMULATION_STEP;
+    this.accumulator += deltaTime;
+
+    // Drop time we can't catch up on (e.g. after the process was paused)
+    const maxBacklog = step * GAME_CONSTANTS.GAME.MAX_SIMULATION_STEPS;
+    if (this.accumulator > maxBacklog) {
+      this.accumulator = maxBacklog;
+    }
 
-    this.state.update(deltaTime);
+    while (this.accumulator >= step) {
+      this.bots.forEach((bot) => bot.update(this.state, step / 1000));
+      this.state.update(step / 1000);
+      this.updateRecording(step / 1000);
+      this.accumulator -= step;
+    }
+    this.state.lastUpdateTime = Date.now();
+
+    // Bots only come and go between rounds
+    if (this.state.gameState !== GAME_CONSTANTS.STATE.PLAYING) {
+      this.balanceBots();
+    }
+
+    // Keep the room browser's state column current
+    if (this.state.gameState !== this.listedGameState) {
+      this.listedGameState = this.state.gameState;
+      this.setMetadata({ gameState: this.listedGameState });
+    }
   }
 
   /**
-   * Clean up when the room is disposed
+   * Start recording when a round's countdown begins, and save the recording
+   * to the replay archive once the round is over. The archive is public, so
+   * private rooms (whose room ID is their join code) aren't recorded.
+   * @param deltaTime - Length of the simulation step just run in seconds
+   */
+  private updateRecording(deltaTime: number): void {
+    const gameState = this.state.gameState;
+
+    if (!this.recorder) {
+      if (gameState === GAME_CONSTANTS.STATE.STARTING && !this.listing.private) {
+        this.recorder = new MatchRecorder(this.roomId, this.state);
+      }
+      return;
+    }
+
+    // Everyone left before the round finished
+    if (gameState === GAME_CONSTANTS.STATE.WAITING) {
+      this.recorder = null;
+      return;
+    }
+
+    this.recorder.update(this.state, deltaTime);
+
+    if (gameState === GAME_CONSTANTS.STATE.GAME_OVER) {
+      const replay = this.recorder.finish(this.state);
+      this.recorder = null;
+      replayStore.save(replay)
+        .then(() => logger.info(`Room ${this.roomId} saved replay ${replay.id}`))
+        .catch((error) => logger.error(`Room ${this.roomId} failed to save replay ${replay.id}:`, error));
+    }
+  }
+
+  /**
+   * Add or remove bots so rooms with at least one human reach the target
+   * size. Bots give up their places to arriving humans, and leave once no
+   * humans remain.
    */
-  onDispose(): void {
-    logger.info("Last Player Standing Game Room disposed");
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = null;
+  private balanceBots(): void {
+    const humans = this.state.players.size - this.bots.size;
+    const wanted = humans > 0 ? Math.max(0, this.botTarget - humans) : 0;
+
+    while (this.bots.size < wanted) {
+      this.addBot();
+    }
+
+    for (const sessionId of this.bots.keys()) {
+      if (this.bots.size <= wanted) break;
+      this.removeBot(sessionId);
     }
   }
+
+  /**
+   * Add a bot player to the room
+   */
+  private addBot(): void {
+    const index = this.nextBotId++;
+    const sessionId = `bot-${index}`;
+    const player = this.state.createPlayer(sessionId);
+    player.isBot = true;
+    player.name = this.pickBotName();
+
+    this.bots.set(sessionId, new BotController(player, this.botSkill, index));
+    this.broadcast("playerJoined", { id: sessionId, name: player.name });
+    this.recorder?.recordJoin(player);
+    logger.info(`Bot ${sessionId} (${this.botSkill}) joined room ${this.roomId}`);
+  }
+
+  /**
+   * Remove a bot player from the room
+   */
+  private removeBot(sessionId: string): void {
+    this.bots.delete(sessionId);
+    this.state.removePlayer(sessionId);
+    this.broadcast("playerLeft", { id: sessionId });
+    this.recorder?.recordLeave(sessionId);
+    logger.info(`Bot ${sessionId} left room ${this.roomId}`);
+  }
+
+  /**
+   * Pick a bot name no other player in the room has
+   */
+  private pickBotName(): string {
+    const names = new Set<string>();
+    this.state.players.forEach((player) => names.add(player.name));
+
+    const available = GAME_CONSTANTS.BOTS.NAMES.map((name) => `Bot ${name}`)
+      .filter((name) => !names.has(name));
+    return available.length > 0
+      ? available[Math.floor(Math.random() * available.length)]
+      : `Bot ${this.nextBotId}`;
+  }
+
+  /**
+   * Clean up when the room is disposed
+   */
+  async onDispose(): Promise<void> {
+    await this.presence.srem(JOIN_CODES_KEY, this.roomId);
+    logger.info(`${this.getTitle()} Game Room ${this.roomId} disposed`);
+  }
 }
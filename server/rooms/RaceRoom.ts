@@ -0,0 +1,32 @@
+// server/rooms/RaceRoom.ts
+
+import { GAME_CONSTANTS, RACE } from "../constants/serverConstants";
+import { GameState } from "../schema/GameState";
+import { CreateOptions, GameRoom } from "./GameRoom";
+
+/**
+ * Options sent by the client that creates a race room
+ */
+interface RaceCreateOptions extends CreateOptions {
+  // Winning line crossings needed to win
+  crossings?: number;
+}
+
+/**
+ * Race Game Room: the first player to cross the winning line the target
+ * number of times wins. Obstacles send players back to the start rather than
+ * eliminating them, and the arena doesn't shrink.
+ */
+export class RaceRoom extends GameRoom {
+  protected createState(options: RaceCreateOptions, seed: number | undefined): GameState {
+    let crossings: number = RACE.DEFAULT_CROSSINGS;
+    if (typeof options.crossings === "number" && Number.isFinite(options.crossings)) {
+      crossings = Math.min(Math.max(Math.floor(options.crossings), RACE.MIN_CROSSINGS), RACE.MAX_CROSSINGS);
+    }
+    return new GameState(seed, GAME_CONSTANTS.GAME_MODES.RACE, crossings);
+  }
+
+  protected getTitle(): string {
+    return "Race";
+  }
+}
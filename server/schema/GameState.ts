@@ -2,7 +2,27 @@ import * as schema from "@colyseus/schema";
 const { Schema, MapSchema, ArraySchema, type } = schema;
 import { PlayerSchema } from "./PlayerSchema.js";
 import { ObstacleSchema } from "./ObstacleSchema.js";
-import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+import { ProjectileSchema } from "./ProjectileSchema.js";
+import { PowerUpSchema } from "./PowerUpSchema.js";
+import { GAME_CONSTANTS, PLAYER_BUMPS } from "../constants/serverConstants.js";
+import { createRandom, RandomSource, randomSeed } from "../shared/random.js";
+import { clampToArena, MovableBody, moveToSpawn } from "../shared/movement.js";
+import { distanceOutsideZone, getInitialZone, interpolateZone, pickNextZone, Zone } from "../shared/zone.js";
+import { applyPowerUp, getHitbox, pickPowerUpType, PowerUpType } from "../shared/powerUps.js";
+
+/**
+ * Rule set a room plays by
+ */
+export type GameMode = (typeof GAME_CONSTANTS.GAME_MODES)[keyof typeof GAME_CONSTANTS.GAME_MODES];
+
+/**
+ * What happens when two players run into each other
+ */
+export type PlayerCollisionMode = (typeof GAME_CONSTANTS.PLAYER_COLLISIONS)[keyof typeof GAME_CONSTANTS.PLAYER_COLLISIONS];
+
+export function isPlayerCollisionMode(value: unknown): value is PlayerCollisionMode {
+  return Object.values(GAME_CONSTANTS.PLAYER_COLLISIONS).includes(value as PlayerCollisionMode);
+}
 
 /**
  * Interface for player positions used in obstacle placement
@@ -12,6 +32,49 @@ interface PlayerPosition {
   y: number;
 }
 
+/**
+ * A projectile hit, reported to the room so clients can show effects
+ */
+export interface ProjectileHit {
+  type: "obstacle" | "player";
+  ownerId: string;
+  targetId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Two players running into each other, reported to the room so clients can
+ * show the bump
+ */
+export interface PlayerBump {
+  playerIds: [string, string];
+  // The slower player, when the crash hit them
+  loserId: string | null;
+  x: number;
+  y: number;
+}
+
+/**
+ * A power-up collected, reported to the room so clients can show effects
+ */
+export interface PowerUpPickup {
+  playerId: string;
+  type: PowerUpType;
+  x: number;
+  y: number;
+}
+
+/**
+ * Whether two bodies overlap
+ */
+function overlaps(a: MovableBody, b: MovableBody): boolean {
+  return a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y;
+}
+
 /**
  * GameState defines the full synchronized game state
  */
@@ -22,15 +85,43 @@ class GameState extends Schema {
   startTime: number;
   countdownTime: number; 
   
+  // Rule set, and for races the number of crossings that wins
+  mode: GameMode;
+  raceTarget: number;
+  playerCollisions: PlayerCollisionMode;
+  
+  // Seed of the current round; all gameplay randomness comes from it
+  seed: number;
+  random: RandomSource;
+  
   // Arena settings
   arenaWidth: number;
   arenaHeight: number;
-  areaPercentage: number;
+  
+  // Safe zone: the circle players must stay in, and the circle it shrinks to
+  // next, starting at nextShrinkTime (round time in seconds, 0 once the zone
+  // has stopped shrinking)
+  zoneX: number;
+  zoneY: number;
+  zoneRadius: number;
+  nextZoneX: number;
+  nextZoneY: number;
+  nextZoneRadius: number;
   nextShrinkTime: number;
+  private shrinkFrom: Zone;
   
-  // Collections for players and obstacles
+  // Collections for players, obstacles, projectiles and power-ups
   players: schema.MapSchema<PlayerSchema>;
   obstacles: schema.ArraySchema<ObstacleSchema>;
+  projectiles: schema.ArraySchema<ProjectileSchema>;
+  powerUps: schema.ArraySchema<PowerUpSchema>;
+  nextProjectileId: number;
+  nextPowerUpId: number;
+  // Round time in seconds the next power-up appears at
+  nextPowerUpTime: number;
+  onProjectileHit: ((hit: ProjectileHit) => void) | null;
+  onPlayerBump: ((bump: PlayerBump) => void) | null;
+  onPowerUp: ((pickup: PowerUpPickup) => void) | null;
   
   // Game statistics
   aliveCount: number;
@@ -40,7 +131,11 @@ class GameState extends Schema {
   // Last update time for delta calculations
   lastUpdateTime: number;
 
-  constructor() {
+  constructor(
+    seed: number = randomSeed(),
+    mode: GameMode = GAME_CONSTANTS.GAME_MODES.LAST_STANDING,
+    raceTarget: number = 0
+  ) {
     super();
     
     // Initialize game state
@@ -48,16 +143,34 @@ class GameState extends Schema {
     this.elapsedTime = 0;
     this.startTime = 0;
     this.countdownTime = 5; // 5 second countdown before game starts
+    this.mode = mode;
+    this.raceTarget = raceTarget;
+    this.playerCollisions = GAME_CONSTANTS.PLAYER_COLLISIONS.PUSH;
+    this.seed = seed;
+    this.random = createRandom(seed);
     
     // Arena settings
-    this.arenaWidth = 800;
-    this.arenaHeight = 600;
-    this.areaPercentage = GAME_CONSTANTS.ARENA.INITIAL_AREA_PERCENTAGE;
+    this.arenaWidth = GAME_CONSTANTS.ARENA.WIDTH;
+    this.arenaHeight = GAME_CONSTANTS.ARENA.HEIGHT;
+    
+    // The zone starts as the whole arena, with no shrink scheduled
+    this.shrinkFrom = getInitialZone(this.arenaWidth, this.arenaHeight);
+    this.zoneX = this.nextZoneX = this.shrinkFrom.x;
+    this.zoneY = this.nextZoneY = this.shrinkFrom.y;
+    this.zoneRadius = this.nextZoneRadius = this.shrinkFrom.radius;
     this.nextShrinkTime = 0;
     
-    // Create collections for players and obstacles
+    // Create collections for players, obstacles, projectiles and power-ups
     this.players = new MapSchema<PlayerSchema>();
     this.obstacles = new ArraySchema<ObstacleSchema>();
+    this.projectiles = new ArraySchema<ProjectileSchema>();
+    this.powerUps = new ArraySchema<PowerUpSchema>();
+    this.nextProjectileId = 0;
+    this.nextPowerUpId = 0;
+    this.nextPowerUpTime = GAME_CONSTANTS.POWER_UPS.SPAWN_INTERVAL / 1000;
+    this.onProjectileHit = null;
+    this.onPlayerBump = null;
+    this.onPowerUp = null;
     
     // Game statistics
     this.aliveCount = 0;
@@ -74,14 +187,20 @@ class GameState extends Schema {
    * @returns The created player
    */
   createPlayer(sessionId: string): PlayerSchema {
-    const playerIndex = this.totalPlayers;
+    const playerIndex = this.getFreePlayerIndex();
     const player = new PlayerSchema(sessionId, playerIndex);
     
     // Position player at bottom of screen
     player.resetPosition(this.arenaWidth, this.arenaHeight);
     
+    // Players joining mid-round watch until resetGame brings everyone into the next one
+    if (this.gameState === GAME_CONSTANTS.STATE.PLAYING) {
+      player.becomeSpectator();
+    } else {
+      this.aliveCount++;
+    }
+    
     this.players.set(sessionId, player);
-    this.aliveCount++;
     this.totalPlayers++;
     
     return player;
@@ -100,8 +219,24 @@ class GameState extends Schema {
       }
       
       this.players.delete(sessionId);
+      this.totalPlayers--;
     }
   }
+
+  /**
+   * Lowest player index not held by anyone in the room, so slots (and their
+   * colors) are reused when players leave
+   */
+  private getFreePlayerIndex(): number {
+    const taken = new Set<number>();
+    this.players.forEach((player, _sessionId) => taken.add(player.playerIndex));
+
+    let index = 0;
+    while (taken.has(index)) {
+      index++;
+    }
+    return index;
+  }
   
   /**
    * Initialize obstacles
@@ -122,28 +257,142 @@ class GameState extends Schema {
   createObstacle(): ObstacleSchema {
     const obstacle = new ObstacleSchema(this.obstacles.length);
     
-    // Get player positions for obstacle placement
+    // Initialize obstacle position away from players
+    obstacle.reset(this.random, this.arenaWidth, this.arenaHeight, this.getAlivePlayerPositions());
+    
+    this.obstacles.push(obstacle);
+    return obstacle;
+  }
+  
+  /**
+   * Fire a projectile from the top of a player
+   * @param player - The player shooting
+   * @returns The created projectile
+   */
+  spawnProjectile(player: PlayerSchema): ProjectileSchema {
+    const projectile = new ProjectileSchema(
+      this.nextProjectileId++,
+      player.sessionId,
+      player.x + player.width / 2,
+      player.y
+    );
+    this.projectiles.push(projectile);
+    return projectile;
+  }
+
+  /**
+   * Count the projectiles a player currently has in flight
+   * @param sessionId - The shooting player's session ID
+   */
+  countProjectiles(sessionId: string): number {
+    return this.projectiles.filter((projectile) => projectile.ownerId === sessionId).length;
+  }
+
+  /**
+   * Move projectiles and resolve hits. Obstacles that are hit are destroyed
+   * (respawned off-screen); players that are hit get stunned.
+   * @param deltaTime - Time since last update in seconds
+   */
+  updateProjectiles(deltaTime: number): void {
+    for (let i = this.projectiles.length - 1; i >= 0; i--) {
+      const projectile = this.projectiles[i];
+      if (!projectile) continue;
+
+      if (projectile.update(deltaTime) || this.resolveProjectileHit(projectile)) {
+        this.projectiles.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Check a projectile against obstacles and other players
+   * @param projectile - The projectile to check
+   * @returns Whether the projectile hit something
+   */
+  private resolveProjectileHit(projectile: ProjectileSchema): boolean {
+    for (const obstacle of this.obstacles) {
+      if (obstacle && obstacle.active && projectile.checkCollision(obstacle)) {
+        this.reportHit("obstacle", projectile, String(obstacle.id), obstacle);
+        obstacle.reset(this.random, this.arenaWidth, this.arenaHeight, this.getAlivePlayerPositions());
+        return true;
+      }
+    }
+
+    let hitPlayer: PlayerSchema | null = null;
+    this.players.forEach((player, sessionId) => {
+      if (hitPlayer || sessionId === projectile.ownerId) return;
+      if (player.isActive() && projectile.checkCollision(player)) {
+        hitPlayer = player;
+      }
+    });
+
+    if (hitPlayer) {
+      const player: PlayerSchema = hitPlayer;
+      this.reportHit("player", projectile, player.sessionId, player);
+      player.stun(GAME_CONSTANTS.PROJECTILE.STUN_DURATION / 1000);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Notify the room about a projectile hit
+   */
+  private reportHit(
+    type: ProjectileHit["type"],
+    projectile: ProjectileSchema,
+    targetId: string,
+    target: { x: number; y: number; width: number; height: number }
+  ): void {
+    if (this.onProjectileHit) {
+      this.onProjectileHit({
+        type,
+        ownerId: projectile.ownerId,
+        targetId,
+        x: target.x + target.width / 2,
+        y: target.y + target.height / 2,
+      });
+    }
+  }
+
+  /**
+   * Get positions of all alive players (used for obstacle placement)
+   */
+  private getAlivePlayerPositions(): PlayerPosition[] {
     const playerPositions: PlayerPosition[] = [];
     this.players.forEach((player, _sessionId) => {
       if (player.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
         playerPositions.push({ x: player.x, y: player.y });
       }
     });
-    
-    // Initialize obstacle position
-    obstacle.reset(this.arenaWidth, this.arenaHeight, playerPositions);
-    
-    this.obstacles.push(obstacle);
-    return obstacle;
+    return playerPositions;
   }
-  
+
+  /**
+   * Whether the room plays the race rules
+   */
+  isRace(): boolean {
+    return this.mode === GAME_CONSTANTS.GAME_MODES.RACE;
+  }
+
   /**
    * Check for win condition
    * @returns Whether the game is over
    */
   checkWinCondition(): boolean {
-    // Game is won when only one player remains alive
-    if (this.aliveCount === 1 && this.totalPlayers > 1) {
+    // A race is won by the first player to reach the target
+    const raceWinner = this.isRace() && this.gameState === GAME_CONSTANTS.STATE.PLAYING
+      ? this.getRaceWinner()
+      : null;
+    if (raceWinner) {
+      this.winnerName = raceWinner.name;
+      this.gameState = GAME_CONSTANTS.STATE.GAME_OVER;
+      return true;
+    }
+
+    // Otherwise the game is won when only one player remains alive
+    if (!this.isRace() && this.aliveCount === 1 && this.totalPlayers > 1) {
       // Find the last player standing
       this.players.forEach((player, _sessionId) => {
         if (player.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
@@ -163,12 +412,32 @@ class GameState extends Schema {
     
     return false;
   }
+
+  /**
+   * The player who reached the race target, if anyone has. When several
+   * players got there on the same step, the one with the most crossings wins.
+   */
+  private getRaceWinner(): PlayerSchema | null {
+    let winner: PlayerSchema | null = null;
+    this.players.forEach((player, _sessionId) => {
+      if (player.score >= this.raceTarget && (!winner || player.score > winner.score)) {
+        winner = player;
+      }
+    });
+    return winner;
+  }
   
   /**
    * Update game state
    * @param deltaTime - Time since last update
    */
   update(deltaTime: number): void {
+    // Inputs only move players during a round; acknowledge them otherwise
+    // so clients can drop them from their prediction buffers
+    if (this.gameState !== GAME_CONSTANTS.STATE.PLAYING) {
+      this.players.forEach((player, _sessionId) => player.discardInputs());
+    }
+
     // Update based on current game state
     switch (this.gameState) {
       case GAME_CONSTANTS.STATE.WAITING:
@@ -189,10 +458,19 @@ class GameState extends Schema {
         if (this.countdownTime <= 0) {
           this.gameState = GAME_CONSTANTS.STATE.PLAYING;
           this.elapsedTime = 0;
-          this.nextShrinkTime = Date.now() + GAME_CONSTANTS.ARENA.SHRINK_INTERVAL;
+          
+          // Restart the sequence so the round plays out the same for the same seed
+          this.random = createRandom(this.seed);
+          
+          // Races keep the whole arena, start and finish included
+          this.resetZone();
+          if (!this.isRace()) {
+            this.scheduleShrink(GAME_CONSTANTS.ARENA.SHRINK_INTERVAL / 1000);
+          }
           
           // Initialize obstacles
           this.initializeObstacles(5 + Math.floor(this.totalPlayers / 5));
+          this.nextPowerUpTime = GAME_CONSTANTS.POWER_UPS.SPAWN_INTERVAL / 1000;
         }
         break;
         
@@ -200,43 +478,34 @@ class GameState extends Schema {
         // Update elapsed time
         this.elapsedTime += deltaTime;
         
-        // Update arena shrinking
-        if (Date.now() >= this.nextShrinkTime && 
-            this.areaPercentage > GAME_CONSTANTS.ARENA.MIN_AREA_PERCENTAGE) {
-          // Shrink the play area
-          this.areaPercentage -= GAME_CONSTANTS.ARENA.SHRINK_PERCENTAGE;
-          this.areaPercentage = Math.max(this.areaPercentage, GAME_CONSTANTS.ARENA.MIN_AREA_PERCENTAGE);
-          
-          // Schedule next shrink
-          this.nextShrinkTime = Date.now() + GAME_CONSTANTS.ARENA.SHRINK_INTERVAL;
-        }
+        // Close the safe zone in on the next one
+        this.updateZone();
         
-        // Update all players
-        this.players.forEach((player, _sessionId) => {
-          if (player.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
-            player.updateMovement(deltaTime, this.arenaWidth, this.arenaHeight);
+        // Update all players, remembering where they were for the collision check
+        const previousPositions = new Map<string, MovableBody>();
+        this.players.forEach((player, sessionId) => {
+          if (player.isActive()) {
+            previousPositions.set(sessionId, { x: player.x, y: player.y, width: player.width, height: player.height });
+            player.updateMovement(deltaTime, this.arenaWidth, this.arenaHeight, this.isRace());
             
-            // Check if player is outside shrinking arena
-            this.checkPlayerInArena(player);
+            // Players outside the safe zone lose health
+            this.checkPlayerInZone(player, deltaTime);
+          } else {
+            player.discardInputs();
           }
         });
         
-        // Update all obstacles
+        // Players can't pass through each other
+        this.resolvePlayerCollisions(previousPositions);
+        
+        // Update all obstacles, slowed down for everyone while anyone has slow motion
         for (let i = 0; i < this.obstacles.length; i++) {
           const obstacle = this.obstacles[i];
           if (obstacle) {
-            const needsReset = obstacle.update(deltaTime, this.arenaWidth);
+            const needsReset = obstacle.update(deltaTime * this.getObstacleTimeScale(), this.arenaWidth);
             
             if (needsReset) {
-              // Get player positions for obstacle placement
-              const playerPositions: PlayerPosition[] = [];
-              this.players.forEach((player, _sessionId) => {
-                if (player.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
-                  playerPositions.push({ x: player.x, y: player.y });
-                }
-              });
-              
-              obstacle.reset(this.arenaWidth, this.arenaHeight, playerPositions);
+              obstacle.reset(this.random, this.arenaWidth, this.arenaHeight, this.getAlivePlayerPositions());
             }
             
             // Check collisions with all alive players
@@ -244,6 +513,12 @@ class GameState extends Schema {
           }
         }
         
+        // Update projectiles and resolve hits
+        this.updateProjectiles(deltaTime);
+        
+        // Spawn, expire and collect power-ups
+        this.updatePowerUps(deltaTime);
+        
         // Check if the game is over
         this.checkWinCondition();
         break;
@@ -255,63 +530,328 @@ class GameState extends Schema {
   }
   
   /**
-   * Check if player is inside the arena boundaries
-   * @param player - The player to check
+   * Spawn a power-up every so often, drop the ones nobody picked up in time
+   * and give the others to the first active player touching them
+   * @param deltaTime - Time since last update in seconds
    */
-  checkPlayerInArena(player: PlayerSchema): void {
-    if (this.areaPercentage < 100) {
-      // Calculate arena boundaries based on shrinking percentage
-      const shrinkScale = this.areaPercentage / 100;
-      
-      // Original arena center
-      const centerX = this.arenaWidth / 2;
-      const centerY = this.arenaHeight / 2;
-      
-      // Shrunken arena dimensions
-      const shrunkWidth = this.arenaWidth * shrinkScale;
-      const shrunkHeight = this.arenaHeight * shrinkScale;
-      
-      // Shrunken arena boundaries
-      const minX = centerX - (shrunkWidth / 2);
-      const maxX = centerX + (shrunkWidth / 2);
-      const minY = centerY - (shrunkHeight / 2);
-      const maxY = centerY + (shrunkHeight / 2);
-      
-      // Check if player is outside arena
-      if (player.x < minX || player.x + player.width > maxX || 
-          player.y < minY || player.y + player.height > maxY) {
-        // Player is outside arena, mark as dead
-        player.markAsDead();
-        this.aliveCount--;
+  updatePowerUps(deltaTime: number): void {
+    if (this.elapsedTime >= this.nextPowerUpTime) {
+      this.nextPowerUpTime += GAME_CONSTANTS.POWER_UPS.SPAWN_INTERVAL / 1000;
+      if (this.powerUps.length < GAME_CONSTANTS.POWER_UPS.MAX_ACTIVE) {
+        this.spawnPowerUp();
       }
     }
+
+    for (let i = this.powerUps.length - 1; i >= 0; i--) {
+      const powerUp = this.powerUps[i];
+      if (!powerUp) continue;
+
+      if (powerUp.update(deltaTime) || this.collectPowerUp(powerUp)) {
+        this.powerUps.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Put a power-up somewhere in the safe zone, between the start and the
+   * winning line
+   * @returns The created power-up
+   */
+  spawnPowerUp(): PowerUpSchema {
+    const size = GAME_CONSTANTS.POWER_UPS.SIZE;
+    const zone = this.getZone();
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    const angle = this.random.next() * Math.PI * 2;
+    const distance = this.random.next() * Math.max(0, zone.radius - size);
+    const x = clamp(zone.x + Math.cos(angle) * distance - size / 2, 5, this.arenaWidth - size - 5);
+    const y = clamp(
+      zone.y + Math.sin(angle) * distance - size / 2,
+      GAME_CONSTANTS.GAME.WINNING_LINE + size,
+      this.arenaHeight - size * 2
+    );
+
+    const powerUp = new PowerUpSchema(this.nextPowerUpId++, pickPowerUpType(this.random), x, y);
+    this.powerUps.push(powerUp);
+    return powerUp;
+  }
+
+  /**
+   * Give a power-up to the first active player touching it
+   * @returns Whether someone collected it
+   */
+  private collectPowerUp(powerUp: PowerUpSchema): boolean {
+    let collector: PlayerSchema | null = null;
+    this.players.forEach((player, _sessionId) => {
+      if (!collector && player.isActive() && overlaps(powerUp, player)) {
+        collector = player;
+      }
+    });
+    if (!collector) {
+      return false;
+    }
+
+    const player: PlayerSchema = collector;
+    applyPowerUp(player, powerUp.type);
+    if (this.onPowerUp) {
+      this.onPowerUp({
+        playerId: player.sessionId,
+        type: powerUp.type,
+        x: powerUp.x + powerUp.width / 2,
+        y: powerUp.y + powerUp.height / 2,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * How fast obstacles move compared to normal: slowed down while any
+   * active player has slow motion running
+   */
+  getObstacleTimeScale(): number {
+    let slowed = false;
+    this.players.forEach((player, _sessionId) => {
+      slowed = slowed || (player.isActive() && player.slowMotionTime > 0);
+    });
+    return slowed ? GAME_CONSTANTS.POWER_UPS.SLOW_MOTION_FACTOR : 1;
+  }
+  
+  /**
+   * Drain the health of a player outside the safe zone, eliminating them
+   * once it runs out
+   * @param player - The player to check
+   * @param deltaTime - Time since last update in seconds
+   */
+  checkPlayerInZone(player: PlayerSchema, deltaTime: number): void {
+    if (distanceOutsideZone(player, this.getZone()) <= 0) {
+      return;
+    }
+    if (player.takeDamage(GAME_CONSTANTS.ARENA.ZONE_DAMAGE * deltaTime)) {
+      this.aliveCount--;
+    }
+  }
+
+  /**
+   * The safe zone as it is now
+   */
+  getZone(): Zone {
+    return { x: this.zoneX, y: this.zoneY, radius: this.zoneRadius };
+  }
+
+  /**
+   * The circle the safe zone is shrinking (or will next shrink) to
+   */
+  getNextZone(): Zone {
+    return { x: this.nextZoneX, y: this.nextZoneY, radius: this.nextZoneRadius };
+  }
+
+  /**
+   * Shrink the zone while a shrink is under way, and once it ends pick the
+   * next circle and schedule the shrink after it
+   */
+  private updateZone(): void {
+    if (this.nextShrinkTime <= 0 || this.elapsedTime < this.nextShrinkTime) {
+      return;
+    }
+
+    const duration = GAME_CONSTANTS.ARENA.SHRINK_DURATION / 1000;
+    const progress = (this.elapsedTime - this.nextShrinkTime) / duration;
+    this.setZone(interpolateZone(this.shrinkFrom, this.getNextZone(), progress));
+
+    if (progress >= 1) {
+      this.shrinkFrom = this.getZone();
+      this.scheduleShrink(this.nextShrinkTime + duration + GAME_CONSTANTS.ARENA.SHRINK_INTERVAL / 1000);
+    }
+  }
+
+  /**
+   * Pick the next zone and when the shrink to it starts, or stop shrinking
+   * once the zone is as small as it gets
+   * @param startTime - Round time in seconds the shrink starts at
+   */
+  private scheduleShrink(startTime: number): void {
+    const next = pickNextZone(this.shrinkFrom, this.random, this.arenaWidth, this.arenaHeight);
+    if (!next) {
+      this.nextShrinkTime = 0;
+      return;
+    }
+    this.nextZoneX = next.x;
+    this.nextZoneY = next.y;
+    this.nextZoneRadius = next.radius;
+    this.nextShrinkTime = startTime;
+  }
+
+  /**
+   * Open the zone up to the whole arena, with no shrink scheduled
+   */
+  private resetZone(): void {
+    this.shrinkFrom = getInitialZone(this.arenaWidth, this.arenaHeight);
+    this.setZone(this.shrinkFrom);
+    this.nextZoneX = this.zoneX;
+    this.nextZoneY = this.zoneY;
+    this.nextZoneRadius = this.zoneRadius;
+    this.nextShrinkTime = 0;
+  }
+
+  private setZone(zone: Zone): void {
+    this.zoneX = zone.x;
+    this.zoneY = zone.y;
+    this.zoneRadius = zone.radius;
   }
   
   /**
-   * Check if obstacle collides with any players
+   * Check if obstacle collides with any players. A hit costs the player
+   * health, or in a race sends them back to the start. Shrunk players are
+   * only hit by what touches their smaller hitbox.
    * @param obstacle - The obstacle to check
    */
   checkObstacleCollisions(obstacle: ObstacleSchema): void {
     this.players.forEach((player, _sessionId) => {
       // Only check collisions for active players
-      if (player.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
-        if (obstacle.checkCollision(player)) {
-          // Mark player as dead
-          player.markAsDead();
-          this.aliveCount--;
+      if (player.isActive()) {
+        if (obstacle.checkCollision(getHitbox(player, player))) {
+          this.hitPlayer(player);
         }
       }
     });
   }
+
+  /**
+   * Hit a player. A shield takes the hit in their place, leaving them
+   * invulnerable for a moment. Otherwise, in a race they're sent back to the
+   * start; in other rounds they take damage, which eliminates them once
+   * their last life is gone, and a hit they survive throws them back towards
+   * the start and leaves them invulnerable for a moment.
+   * @param player - The player who was hit
+   * @returns Whether the player was moved off the spot, sent back or eliminated
+   */
+  private hitPlayer(player: PlayerSchema): boolean {
+    if (player.isInvulnerable()) {
+      return false;
+    }
+    if (player.shield) {
+      player.shield = false;
+      player.invulnerableTime = GAME_CONSTANTS.PLAYER.INVULNERABILITY_TIME / 1000;
+      return false;
+    }
+    if (this.isRace()) {
+      moveToSpawn(player, this.arenaWidth, this.arenaHeight);
+      return true;
+    }
+    if (player.takeDamage(GAME_CONSTANTS.PLAYER.HIT_DAMAGE)) {
+      this.aliveCount--;
+      return true;
+    }
+
+    player.invulnerableTime = Math.max(player.invulnerableTime, GAME_CONSTANTS.PLAYER.INVULNERABILITY_TIME / 1000);
+    player.y += GAME_CONSTANTS.PLAYER.KNOCKBACK;
+    clampToArena(player, this.arenaWidth, this.arenaHeight);
+    return false;
+  }
+
+  /**
+   * Separate players who ran into each other. Depending on the room, both are
+   * pushed apart or the slower one takes a hit. Players who already
+   * overlapped before this step (e.g. everyone standing at the start) are
+   * only pushed apart, so hits need a real crash, and there are none
+   * while the crowd at the start spreads out.
+   * @param previousPositions - Where active players were before this step's movement
+   */
+  private resolvePlayerCollisions(previousPositions: Map<string, MovableBody>): void {
+    const active: PlayerSchema[] = [];
+    this.players.forEach((player, _sessionId) => {
+      if (player.isActive()) active.push(player);
+    });
+
+    for (let i = 0; i < active.length; i++) {
+      for (let j = i + 1; j < active.length; j++) {
+        const a = active[i];
+        const b = active[j];
+        if (!a.isActive() || !b.isActive() || !overlaps(a, b)) continue;
+
+        const previousA = previousPositions.get(a.sessionId);
+        const previousB = previousPositions.get(b.sessionId);
+        const crashed = !previousA || !previousB || !overlaps(previousA, previousB);
+
+        let loser: PlayerSchema | null = null;
+        if (crashed && this.playerCollisions === GAME_CONSTANTS.PLAYER_COLLISIONS.ELIMINATE &&
+            this.elapsedTime >= PLAYER_BUMPS.KNOCKOUT_GRACE_PERIOD) {
+          const speedA = a.getSpeed();
+          const speedB = b.getSpeed();
+          const slower = speedA < speedB ? a : b;
+          if (speedA !== speedB && !slower.isInvulnerable()) {
+            loser = slower;
+          }
+        }
+
+        if (crashed) {
+          this.reportBump(a, b, loser);
+        }
+
+        const moved = loser ? this.hitPlayer(loser) : false;
+        if (!moved && a.isActive() && b.isActive() && overlaps(a, b)) {
+          this.pushApart(a, b);
+        }
+      }
+    }
+  }
+
+  /**
+   * Move two overlapping players apart along the axis they overlap least on,
+   * half the overlap each
+   */
+  private pushApart(a: PlayerSchema, b: PlayerSchema): void {
+    const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+
+    if (overlapX <= overlapY) {
+      const direction = a.x + a.width / 2 <= b.x + b.width / 2 ? -1 : 1;
+      a.x += direction * overlapX / 2;
+      b.x -= direction * overlapX / 2;
+    } else {
+      const direction = a.y + a.height / 2 <= b.y + b.height / 2 ? -1 : 1;
+      a.y += direction * overlapY / 2;
+      b.y -= direction * overlapY / 2;
+    }
+
+    clampToArena(a, this.arenaWidth, this.arenaHeight);
+    clampToArena(b, this.arenaWidth, this.arenaHeight);
+  }
+
+  /**
+   * Notify the room about two players running into each other. Players
+   * leaning on each other collide every step, so each player's bumps are
+   * only reported every so often.
+   */
+  private reportBump(a: PlayerSchema, b: PlayerSchema, loser: PlayerSchema | null): void {
+    const now = this.elapsedTime;
+    const interval = PLAYER_BUMPS.REPORT_INTERVAL;
+    if (!loser && now - a.lastBumpTime < interval && now - b.lastBumpTime < interval) {
+      return;
+    }
+    a.lastBumpTime = now;
+    b.lastBumpTime = now;
+
+    if (this.onPlayerBump) {
+      this.onPlayerBump({
+        playerIds: [a.sessionId, b.sessionId],
+        loserId: loser ? loser.sessionId : null,
+        x: (a.x + a.width / 2 + b.x + b.width / 2) / 2,
+        y: (a.y + a.height / 2 + b.y + b.height / 2) / 2,
+      });
+    }
+  }
   
   /**
    * Reset game state for a new round
+   * @param seed - Seed for the next round
    */
-  resetGame(): void {
+  resetGame(seed: number = randomSeed()): void {
     this.gameState = GAME_CONSTANTS.STATE.WAITING;
+    this.seed = seed;
     this.elapsedTime = 0;
     this.winnerName = "";
-    this.areaPercentage = GAME_CONSTANTS.ARENA.INITIAL_AREA_PERCENTAGE;
+    this.resetZone();
     
     // Reset alive count
     this.aliveCount = 0;
@@ -324,8 +864,10 @@ class GameState extends Schema {
       this.aliveCount++;
     });
     
-    // Clear obstacles
+    // Clear obstacles, projectiles and power-ups
     this.obstacles = new ArraySchema<ObstacleSchema>();
+    this.projectiles = new ArraySchema<ProjectileSchema>();
+    this.powerUps = new ArraySchema<PowerUpSchema>();
   }
 }
 
@@ -334,14 +876,25 @@ type("string")(GameState.prototype, "gameState");
 type("number")(GameState.prototype, "elapsedTime");
 type("number")(GameState.prototype, "startTime");
 type("number")(GameState.prototype, "countdownTime");
+type("string")(GameState.prototype, "mode");
+type("number")(GameState.prototype, "raceTarget");
+type("string")(GameState.prototype, "playerCollisions");
+type("number")(GameState.prototype, "seed");
 type("number")(GameState.prototype, "arenaWidth");
 type("number")(GameState.prototype, "arenaHeight");
-type("number")(GameState.prototype, "areaPercentage");
+type("number")(GameState.prototype, "zoneX");
+type("number")(GameState.prototype, "zoneY");
+type("number")(GameState.prototype, "zoneRadius");
+type("number")(GameState.prototype, "nextZoneX");
+type("number")(GameState.prototype, "nextZoneY");
+type("number")(GameState.prototype, "nextZoneRadius");
 type("number")(GameState.prototype, "nextShrinkTime");
 type({ map: PlayerSchema })(GameState.prototype, "players");
 type([ObstacleSchema])(GameState.prototype, "obstacles");
+type([ProjectileSchema])(GameState.prototype, "projectiles");
+type([PowerUpSchema])(GameState.prototype, "powerUps");
 type("number")(GameState.prototype, "aliveCount");
 type("number")(GameState.prototype, "totalPlayers");
 type("string")(GameState.prototype, "winnerName");
 
-export { GameState };
\ No newline at end of file
+export { GameState };
@@ -1,6 +1,7 @@
 import * as schema from "@colyseus/schema";
 const { Schema, type } = schema;
 import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+import { RandomSource } from "../shared/random.js";
 
 /**
  * Interface for player position (used in obstacle placement)
@@ -32,19 +33,20 @@ class ObstacleSchema extends Schema {
     this.y = 0;
     this.width = GAME_CONSTANTS.OBSTACLE.MIN_WIDTH;
     this.height = 20; // Will be recalculated based on canvas dimensions
-    this.speed = GAME_CONSTANTS.OBSTACLE.BASE_SPEED;
-    this.variant = Math.floor(Math.random() * 3); // Random variant (0-2)
+    this.speed = GAME_CONSTANTS.OBSTACLE.SPEED;
+    this.variant = 0; // Picked at random in reset()
     this.active = true;
   }
   
   /**
    * Reset obstacle to a new position
+   * @param random - The round's random source
    * @param canvasWidth - Width of the game canvas
    * @param canvasHeight - Height of the game canvas
    * @param playerPositions - Array of player positions to avoid when placing obstacle
    * @returns Whether the reset was successful
    */
-  reset(_canvasWidth: number, canvasHeight: number, playerPositions: PlayerPosition[] = []): boolean {
+  reset(random: RandomSource, _canvasWidth: number, canvasHeight: number, playerPositions: PlayerPosition[] = []): boolean {
     // Set starting position off-screen to the left
     this.x = -this.width;
     
@@ -54,7 +56,7 @@ class ObstacleSchema extends Schema {
     
     while (!validPosition && attempts < 10) {
       // Generate random y position
-      this.y = Math.random() * (canvasHeight - 70) + 20;
+      this.y = random.next() * (canvasHeight - 70) + 20;
       
       // Check if too close to any player's spawn area
       validPosition = true;
@@ -84,10 +86,10 @@ class ObstacleSchema extends Schema {
     }
     
     // Randomize variant for visual diversity
-    this.variant = Math.floor(Math.random() * 3);
+    this.variant = random.int(0, 2);
     
     // Reset speed based on current score
-    this.speed = GAME_CONSTANTS.OBSTACLE.BASE_SPEED;
+    this.speed = GAME_CONSTANTS.OBSTACLE.SPEED;
     
     // Set active
     this.active = true;
@@ -100,13 +102,9 @@ class ObstacleSchema extends Schema {
    * Update obstacle position
    * @param deltaTime - Time since last update in seconds
    * @param canvasWidth - Width of the game canvas
-   * @param score - Current game score
    * @returns Whether the obstacle needs to be reset
    */
-  update(deltaTime: number, canvasWidth: number, score: number = 0): boolean {
-    // Update speed based on score (increases difficulty)
-    this.speed = GAME_CONSTANTS.OBSTACLE.BASE_SPEED + (score / 10);
-    
+  update(deltaTime: number, canvasWidth: number): boolean {
     // Move the obstacle
     if (this.x < canvasWidth) {
       this.x += this.speed * deltaTime;
@@ -1,21 +1,27 @@
 import * as schema from "@colyseus/schema";
 const { Schema, type } = schema;
 import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+import {
+  applyMovementInput,
+  crossWinningLine,
+  MAX_INPUT_DT,
+  MovementInput,
+  MovementKeys,
+  moveToSpawn,
+} from "../shared/movement.js";
+import { PowerUpEffects, scorePoints, tickPowerUpEffects } from "../shared/powerUps.js";
 
-/**
- * Interface for movement keys
- */
-interface MovementKeys {
-  up: boolean;
-  down: boolean;
-  left: boolean;
-  right: boolean;
-}
+// Upper bound on queued input commands per player
+const MAX_QUEUED_INPUTS = 64;
+
+// Most input time a player can bank while their commands are in flight (seconds)
+const MAX_INPUT_BUDGET = MAX_INPUT_DT * 2;
 
 /**
- * PlayerSchema defines the synchronized properties for each player
+ * PlayerSchema defines the synchronized properties for each player, power-up
+ * effects included
  */
-class PlayerSchema extends Schema {
+class PlayerSchema extends Schema implements PowerUpEffects {
   sessionId: string;
   playerIndex: number;
   name: string;
@@ -25,7 +31,22 @@ class PlayerSchema extends Schema {
   height: number;
   state: string;
   score: number;
+  connected: boolean;
+  isBot: boolean;
   movementKeys: MovementKeys;
+  inputQueue: MovementInput[];
+  lastProcessedInput: number;
+  inputBudget: number;
+  stunTime: number;
+  health: number;
+  lives: number;
+  invulnerableTime: number;
+  shield: boolean;
+  slowMotionTime: number;
+  shrinkTime: number;
+  doublePointsTime: number;
+  lastShotTime: number;
+  lastBumpTime: number;
   lastUpdateTime: number;
 
   constructor(sessionId: string, playerIndex: number) {
@@ -41,12 +62,27 @@ class PlayerSchema extends Schema {
     this.height = GAME_CONSTANTS.PLAYER.BASE_HEIGHT;
     this.state = GAME_CONSTANTS.PLAYER_STATE.ALIVE;
     this.score = 0;
+    this.connected = true;
+    this.isBot = false;
     this.movementKeys = {
       up: false,
       down: false,
       left: false,
       right: false
     };
+    this.inputQueue = [];
+    this.lastProcessedInput = 0;
+    this.inputBudget = 0;
+    this.stunTime = 0;
+    this.health = GAME_CONSTANTS.PLAYER.MAX_HEALTH;
+    this.lives = GAME_CONSTANTS.PLAYER.LIVES;
+    this.invulnerableTime = 0;
+    this.shield = false;
+    this.slowMotionTime = 0;
+    this.shrinkTime = 0;
+    this.doublePointsTime = 0;
+    this.lastShotTime = -Infinity;
+    this.lastBumpTime = -Infinity;
     this.lastUpdateTime = Date.now();
   }
   
@@ -56,42 +92,161 @@ class PlayerSchema extends Schema {
    * @param canvasHeight - Height of the game canvas
    */
   resetPosition(canvasWidth: number, canvasHeight: number): void {
-    this.x = canvasWidth / 2 - this.width / 2;
-    this.y = canvasHeight - this.height - 10;
+    moveToSpawn(this, canvasWidth, canvasHeight);
     this.state = GAME_CONSTANTS.PLAYER_STATE.ALIVE;
+    this.stunTime = 0;
+    this.health = GAME_CONSTANTS.PLAYER.MAX_HEALTH;
+    this.lives = GAME_CONSTANTS.PLAYER.LIVES;
+    this.invulnerableTime = 0;
+    this.shield = false;
+    this.slowMotionTime = 0;
+    this.shrinkTime = 0;
+    this.doublePointsTime = 0;
+    this.lastShotTime = -Infinity;
+    this.lastBumpTime = -Infinity;
   }
   
   /**
-   * Update player movement based on input
+   * Queue an input command from the client
+   * @param input - Sanitized input command
+   */
+  queueInput(input: MovementInput): void {
+    // Ignore stale or duplicated commands
+    const lastQueued = this.inputQueue.length > 0
+      ? this.inputQueue[this.inputQueue.length - 1].seq
+      : this.lastProcessedInput;
+    if (input.seq <= lastQueued) return;
+
+    if (this.inputQueue.length >= MAX_QUEUED_INPUTS) {
+      this.inputQueue.shift();
+    }
+    this.inputQueue.push(input);
+  }
+
+  /**
+   * Update player movement by applying queued input commands. Each tick adds
+   * deltaTime to the player's input budget and only whole commands that fit in
+   * the budget are applied, so a client can't move faster than real time.
+   * Reaching the winning line scores a point and sends the player back to
+   * the start. In a race each crossing counts once, so double points can't
+   * turn one crossing into two towards the target.
    * @param deltaTime - Time since last update in seconds
    * @param canvasWidth - Width of the game canvas
    * @param canvasHeight - Height of the game canvas
+   * @param isRace - Whether the room is racing to a number of crossings
    */
-  updateMovement(_deltaTime: number, canvasWidth: number, canvasHeight: number): void {
-    if (this.state !== GAME_CONSTANTS.PLAYER_STATE.ALIVE) return;
-    
-    // Calculate movement step
-    const moveX = GAME_CONSTANTS.PLAYER.BASE_SPEED;
-    const moveY = GAME_CONSTANTS.PLAYER.BASE_SPEED;
-    
-    // Apply movement based on keys
-    if (this.movementKeys.up && this.y > GAME_CONSTANTS.GAME.WINNING_LINE) {
-      this.y -= moveY;
+  updateMovement(deltaTime: number, canvasWidth: number, canvasHeight: number, isRace: boolean = false): void {
+    if (this.state !== GAME_CONSTANTS.PLAYER_STATE.ALIVE) {
+      this.discardInputs();
+      return;
     }
-    
-    if (this.movementKeys.down && this.y + this.height < canvasHeight - 10) {
-      this.y += moveY;
+
+    this.invulnerableTime = Math.max(0, this.invulnerableTime - deltaTime);
+    tickPowerUpEffects(this, deltaTime);
+
+    // Stunned players can't move; their inputs are acknowledged and dropped
+    if (this.stunTime > 0) {
+      this.stunTime = Math.max(0, this.stunTime - deltaTime);
+      this.discardInputs();
+      return;
     }
-    
-    if (this.movementKeys.left && this.x > 5) {
-      this.x -= moveX;
+
+    this.inputBudget = Math.min(this.inputBudget + deltaTime, MAX_INPUT_BUDGET);
+
+    while (this.inputQueue.length > 0 && this.inputQueue[0].dt <= this.inputBudget) {
+      const input = this.inputQueue.shift()!;
+      applyMovementInput(this, input, input.dt, canvasWidth, canvasHeight);
+      if (crossWinningLine(this, canvasWidth, canvasHeight)) {
+        this.score += isRace ? 1 : scorePoints(this, 1);
+      }
+      this.movementKeys = { up: input.up, down: input.down, left: input.left, right: input.right };
+      this.lastProcessedInput = input.seq;
+      this.inputBudget -= input.dt;
     }
-    
-    if (this.movementKeys.right && this.x + this.width < canvasWidth - 5) {
-      this.x += moveX;
+  }
+
+  /**
+   * Acknowledge queued input commands without moving
+   * (used while the round is not in progress)
+   */
+  discardInputs(): void {
+    if (this.inputQueue.length > 0) {
+      this.lastProcessedInput = this.inputQueue[this.inputQueue.length - 1].seq;
+      this.inputQueue = [];
     }
   }
   
+  /**
+   * Forget all input state. Used when a client reconnects, since a reloaded
+   * client starts numbering its commands from scratch.
+   */
+  resetInputs(): void {
+    this.inputQueue = [];
+    this.lastProcessedInput = 0;
+    this.inputBudget = 0;
+  }
+
+  /**
+   * Stun the player, freezing movement for a while
+   * @param duration - Stun duration in seconds
+   */
+  stun(duration: number): void {
+    this.stunTime = Math.max(this.stunTime, duration);
+  }
+
+  /**
+   * How fast the player is moving, from the keys they hold
+   * @returns Speed in units per second
+   */
+  getSpeed(): number {
+    if (this.stunTime > 0) return 0;
+
+    const { up, down, left, right } = this.movementKeys;
+    return GAME_CONSTANTS.PLAYER.SPEED * Math.hypot(Number(right) - Number(left), Number(down) - Number(up));
+  }
+
+  /**
+   * Whether the player takes part in the round. Players whose connection
+   * dropped are frozen in place and can't be hit until they reconnect.
+   */
+  isActive(): boolean {
+    return this.state === GAME_CONSTANTS.PLAYER_STATE.ALIVE && this.connected;
+  }
+
+  /**
+   * Whether the player is still shielded after their last hit
+   */
+  isInvulnerable(): boolean {
+    return this.invulnerableTime > 0;
+  }
+
+  /**
+   * Take health away. Each time it runs out the player loses a life and
+   * starts the next one at full health, briefly invulnerable; losing the
+   * last life eliminates them.
+   * @param amount - Health lost
+   * @returns Whether the damage eliminated the player
+   */
+  takeDamage(amount: number): boolean {
+    if (this.isInvulnerable()) {
+      return false;
+    }
+
+    this.health = Math.max(0, this.health - amount);
+    if (this.health > 0) {
+      return false;
+    }
+
+    this.lives = Math.max(0, this.lives - 1);
+    if (this.lives === 0) {
+      this.markAsDead();
+      return true;
+    }
+    this.health = GAME_CONSTANTS.PLAYER.MAX_HEALTH;
+    this.invulnerableTime = GAME_CONSTANTS.PLAYER.INVULNERABILITY_TIME / 1000;
+    return false;
+  }
+
   /**
    * Mark player as dead
    */
@@ -117,5 +272,16 @@ type("number")(PlayerSchema.prototype, "width");
 type("number")(PlayerSchema.prototype, "height");
 type("string")(PlayerSchema.prototype, "state");
 type("number")(PlayerSchema.prototype, "score");
+type("boolean")(PlayerSchema.prototype, "connected");
+type("boolean")(PlayerSchema.prototype, "isBot");
+type("number")(PlayerSchema.prototype, "lastProcessedInput");
+type("number")(PlayerSchema.prototype, "stunTime");
+type("number")(PlayerSchema.prototype, "health");
+type("number")(PlayerSchema.prototype, "lives");
+type("number")(PlayerSchema.prototype, "invulnerableTime");
+type("boolean")(PlayerSchema.prototype, "shield");
+type("number")(PlayerSchema.prototype, "slowMotionTime");
+type("number")(PlayerSchema.prototype, "shrinkTime");
+type("number")(PlayerSchema.prototype, "doublePointsTime");
 
 export { PlayerSchema };
@@ -0,0 +1,49 @@
+import * as schema from "@colyseus/schema";
+const { Schema, type } = schema;
+import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+import { PowerUpType } from "../shared/powerUps.js";
+
+/**
+ * PowerUpSchema defines the synchronized properties for a pickup lying in the arena
+ */
+class PowerUpSchema extends Schema {
+  id: number;
+  type: PowerUpType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  age: number;
+
+  constructor(id: number, type: PowerUpType, x: number, y: number) {
+    super();
+
+    this.id = id;
+    this.type = type;
+    this.x = x;
+    this.y = y;
+    this.width = GAME_CONSTANTS.POWER_UPS.SIZE;
+    this.height = GAME_CONSTANTS.POWER_UPS.SIZE;
+    this.age = 0;
+  }
+
+  /**
+   * Age the pickup
+   * @param deltaTime - Time since last update in seconds
+   * @returns Whether it has been lying around long enough to disappear
+   */
+  update(deltaTime: number): boolean {
+    this.age += deltaTime * 1000;
+    return this.age >= GAME_CONSTANTS.POWER_UPS.LIFETIME;
+  }
+}
+
+// Define the schema types for network synchronization
+type("number")(PowerUpSchema.prototype, "id");
+type("string")(PowerUpSchema.prototype, "type");
+type("number")(PowerUpSchema.prototype, "x");
+type("number")(PowerUpSchema.prototype, "y");
+type("number")(PowerUpSchema.prototype, "width");
+type("number")(PowerUpSchema.prototype, "height");
+
+export { PowerUpSchema };
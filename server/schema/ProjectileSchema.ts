@@ -0,0 +1,65 @@
+import * as schema from "@colyseus/schema";
+const { Schema, type } = schema;
+import { GAME_CONSTANTS } from "../constants/serverConstants.js";
+
+/**
+ * ProjectileSchema defines the synchronized properties for a fired projectile
+ */
+class ProjectileSchema extends Schema {
+  id: number;
+  ownerId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  velocityY: number;
+  age: number;
+
+  constructor(id: number, ownerId: string, x: number, y: number) {
+    super();
+
+    this.id = id;
+    this.ownerId = ownerId;
+    this.width = GAME_CONSTANTS.PROJECTILE.WIDTH;
+    this.height = GAME_CONSTANTS.PROJECTILE.HEIGHT;
+    // Center the projectile on the given position
+    this.x = x - this.width / 2;
+    this.y = y - this.height;
+    this.velocityY = -GAME_CONSTANTS.PROJECTILE.SPEED;
+    this.age = 0;
+  }
+
+  /**
+   * Move the projectile
+   * @param deltaTime - Time since last update in seconds
+   * @returns Whether the projectile has expired (left the arena or ran out of time)
+   */
+  update(deltaTime: number): boolean {
+    this.y += this.velocityY * deltaTime;
+    this.age += deltaTime * 1000;
+
+    return this.y + this.height < 0 || this.age >= GAME_CONSTANTS.PROJECTILE.LIFETIME;
+  }
+
+  /**
+   * Check for collision with a rectangular target
+   * @param target - The obstacle or player to check against
+   * @returns Whether the projectile overlaps the target
+   */
+  checkCollision(target: { x: number; y: number; width: number; height: number }): boolean {
+    return this.x < target.x + target.width &&
+      this.x + this.width > target.x &&
+      this.y < target.y + target.height &&
+      this.y + this.height > target.y;
+  }
+}
+
+// Define the schema types for network synchronization
+type("number")(ProjectileSchema.prototype, "id");
+type("string")(ProjectileSchema.prototype, "ownerId");
+type("number")(ProjectileSchema.prototype, "x");
+type("number")(ProjectileSchema.prototype, "y");
+type("number")(ProjectileSchema.prototype, "width");
+type("number")(ProjectileSchema.prototype, "height");
+
+export { ProjectileSchema };
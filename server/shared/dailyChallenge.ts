@@ -0,0 +1,49 @@
+/**
+ * Days of the daily challenge and the seed played on each, shared by the
+ * client that plays it and the server that checks its scores. Days start at
+ * midnight UTC, like the daily leaderboards, so everyone plays the same
+ * obstacles on the same day wherever they are. Days are written as YYYY-MM-DD.
+ */
+
+import { CANVAS } from "../constants/gameConstants.js";
+import type { SimulationConfig } from "./singlePlayerSimulation.js";
+
+/**
+ * Playing field every daily challenge run is played on, whatever the screen.
+ * Obstacles are placed across the field, so a field of its own on each device
+ * would give each device a different challenge. The client scales it to fit.
+ */
+export const DAILY_FIELD: Pick<SimulationConfig, "width" | "height" | "scale"> = {
+  width: CANVAS.BASE_WIDTH,
+  height: CANVAS.BASE_HEIGHT,
+  scale: 1,
+};
+
+/**
+ * Day key for a date, in UTC
+ */
+export function getDayKey(date: Date = new Date()): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Day key a number of days before or after another
+ */
+export function shiftDayKey(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  return getDayKey(new Date(Date.UTC(year, month - 1, day + days)));
+}
+
+/**
+ * Seed everyone plays on a given day (FNV-1a hash of the day key)
+ */
+export function getDailySeed(dayKey: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dayKey.length; i++) {
+    hash ^= dayKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,131 @@
+/**
+ * Leaderboard types and rules shared by the server that keeps the boards and
+ * the client that submits scores and shows them. Every mode has an all-time,
+ * a weekly and a daily board; weeks start on Monday and days at midnight UTC,
+ * so everyone sees the same boards wherever they are.
+ *
+ * Scores are submitted with the replay of the run, which the server re-runs
+ * before accepting the score.
+ */
+import { Replay, validateReplay } from "./replay.js";
+
+export const LEADERBOARD_MODES = ["singlePlayer", "dailyChallenge"] as const;
+export type LeaderboardMode = (typeof LEADERBOARD_MODES)[number];
+
+export const LEADERBOARD_PERIODS = ["allTime", "weekly", "daily"] as const;
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export const MAX_LEADERBOARD_NAME_LENGTH = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why the server turned a score down
+ */
+export const SCORE_REJECTIONS = [
+  "malformed", // not a submission, or the replay can't be read
+  "invalid_config", // playing field or difficulty the game never uses
+  "wrong_seed", // a daily challenge run that isn't on the day's seed
+  "too_long", // more steps than the server will re-run
+  "too_fast", // points scored faster than the player can move
+  "not_finished", // the replay stops before the player was hit
+  "inputs_after_end", // the replay carries on after the player was hit
+  "score_mismatch", // re-running the replay gives a different score
+] as const;
+export type ScoreRejection = (typeof SCORE_REJECTIONS)[number];
+
+/**
+ * A score as submitted by a player, with the replay of the run that scored it
+ */
+export interface LeaderboardSubmission {
+  name: string;
+  score: number;
+  replay: Replay;
+}
+
+/**
+ * A stored score
+ */
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  mode: LeaderboardMode;
+  // Seed of the run that scored it
+  seed: number;
+  // Milliseconds since the epoch
+  submittedAt: number;
+}
+
+/**
+ * A player's place on a board
+ */
+export interface LeaderboardRow {
+  rank: number;
+  name: string;
+  score: number;
+  submittedAt: number;
+}
+
+/**
+ * The top of one board
+ */
+export interface LeaderboardPage {
+  mode: LeaderboardMode;
+  period: LeaderboardPeriod;
+  rows: LeaderboardRow[];
+}
+
+/**
+ * Where a submitted score placed on each of its mode's boards
+ */
+export type LeaderboardRanks = Record<LeaderboardPeriod, number>;
+
+/**
+ * Response to a turned-down submission
+ */
+export interface ScoreRejectedResponse {
+  error: string;
+  reason: ScoreRejection;
+}
+
+export function isLeaderboardMode(value: unknown): value is LeaderboardMode {
+  return LEADERBOARD_MODES.includes(value as LeaderboardMode);
+}
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return LEADERBOARD_PERIODS.includes(value as LeaderboardPeriod);
+}
+
+/**
+ * When the board for a period started
+ * @param now - Milliseconds since the epoch
+ * @returns Milliseconds since the epoch, or null for the all-time board
+ */
+export function getPeriodStart(period: LeaderboardPeriod, now: number): number | null {
+  const startOfDay = Math.floor(now / DAY_MS) * DAY_MS;
+  switch (period) {
+    case "daily":
+      return startOfDay;
+    case "weekly":
+      // getUTCDay() is 0 on Sunday; count days back to Monday
+      return startOfDay - ((new Date(now).getUTCDay() + 6) % 7) * DAY_MS;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check the shape of a submission from a client and tidy the name. Whether
+ * the replay really scores what's claimed is checked separately.
+ * @throws If the submission can't be read
+ */
+export function validateSubmission(data: any): LeaderboardSubmission {
+  const name = typeof data?.name === "string" ? data.name.trim().replace(/\s+/g, " ") : "";
+  if (name.length === 0 || name.length > MAX_LEADERBOARD_NAME_LENGTH) {
+    throw new Error(`Name must be 1-${MAX_LEADERBOARD_NAME_LENGTH} characters`);
+  }
+  if (!Number.isSafeInteger(data.score) || data.score <= 0) {
+    throw new Error("Score must be a positive whole number");
+  }
+  return { name, score: data.score, replay: validateReplay(data.replay) };
+}
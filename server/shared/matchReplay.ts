@@ -0,0 +1,191 @@
+/**
+ * Recorded multiplayer rounds, shared by the server that records them and the
+ * client viewer that plays them back. A match replay is a series of periodic
+ * state snapshots plus a log of what happened between them.
+ */
+import { interpolateZone, Zone } from "./zone.js";
+
+export const MATCH_REPLAY_FORMAT = "ascend-avoid-match";
+export const MATCH_REPLAY_VERSION = 2;
+
+/**
+ * Anything with a position and size in arena units
+ */
+export interface MatchBody {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A player's position and status at the time of a snapshot
+ */
+export interface MatchSnapshotPlayer extends MatchBody {
+  id: string;
+  state: string;
+  score: number;
+  stunned: boolean;
+}
+
+export interface MatchSnapshotObstacle extends MatchBody {
+  id: number;
+  variant: number;
+}
+
+export interface MatchSnapshotProjectile extends MatchBody {
+  id: number;
+}
+
+/**
+ * State of the room at one moment of the round
+ */
+export interface MatchSnapshot {
+  // Seconds since the recording started
+  time: number;
+  gameState: string;
+  // Safe zone, and the circle it's closing in on
+  zone: Zone;
+  nextZone: Zone;
+  players: MatchSnapshotPlayer[];
+  obstacles: MatchSnapshotObstacle[];
+  projectiles: MatchSnapshotProjectile[];
+}
+
+/**
+ * Something that happened during the round
+ */
+export type MatchEvent =
+  | { time: number; type: "join"; playerId: string; name: string }
+  | { time: number; type: "leave"; playerId: string }
+  | { time: number; type: "eliminated"; playerId: string }
+  | { time: number; type: "winner"; name: string };
+
+/**
+ * Everyone who took part in the round, including players who left
+ */
+export interface MatchReplayPlayer {
+  id: string;
+  name: string;
+  playerIndex: number;
+  isBot: boolean;
+}
+
+/**
+ * Listing entry for a stored replay
+ */
+export interface MatchReplaySummary {
+  id: string;
+  roomId: string;
+  seed: number;
+  startedAt: string;
+  duration: number;
+  winnerName: string;
+  playerCount: number;
+}
+
+/**
+ * A recorded round, from its countdown to game over
+ */
+export interface MatchReplay extends MatchReplaySummary {
+  format: typeof MATCH_REPLAY_FORMAT;
+  version: number;
+  arenaWidth: number;
+  arenaHeight: number;
+  players: MatchReplayPlayer[];
+  snapshots: MatchSnapshot[];
+  events: MatchEvent[];
+}
+
+/**
+ * Pick the listing entry out of a replay
+ */
+export function summarizeMatchReplay(replay: MatchReplay): MatchReplaySummary {
+  return {
+    id: replay.id,
+    roomId: replay.roomId,
+    seed: replay.seed,
+    startedAt: replay.startedAt,
+    duration: replay.duration,
+    winnerName: replay.winnerName,
+    playerCount: replay.players.length,
+  };
+}
+
+/**
+ * Check that data fetched from the server is a replay this version can play
+ * @throws Error if it isn't
+ */
+export function validateMatchReplay(data: any): MatchReplay {
+  if (!data || data.format !== MATCH_REPLAY_FORMAT) {
+    throw new Error("Not a match replay");
+  }
+  if (data.version !== MATCH_REPLAY_VERSION) {
+    throw new Error(`Unsupported match replay version ${data.version}`);
+  }
+  if (!Array.isArray(data.snapshots) || data.snapshots.length === 0 ||
+      !Array.isArray(data.players) || !Array.isArray(data.events)) {
+    throw new Error("Match replay is incomplete");
+  }
+  return data as MatchReplay;
+}
+
+/**
+ * Find the snapshot at or before the given time
+ * @returns Its index, or -1 if the time is before the first snapshot
+ */
+export function findSnapshotIndex(snapshots: MatchSnapshot[], time: number): number {
+  let low = 0;
+  let high = snapshots.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (snapshots[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * State of the round at any time, blending the snapshots either side of it.
+ * Positions are interpolated for bodies present in both; everything else
+ * (statuses, scores, who is present) comes from the earlier snapshot.
+ */
+export function sampleMatchReplay(replay: MatchReplay, time: number): MatchSnapshot {
+  const snapshots = replay.snapshots;
+  const index = Math.max(0, findSnapshotIndex(snapshots, time));
+  const from = snapshots[index];
+  const to = snapshots[index + 1];
+
+  if (!to || time <= from.time) {
+    return from;
+  }
+
+  const t = (time - from.time) / (to.time - from.time);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const blend = <T extends MatchBody & { id: string | number }>(bodies: T[], next: T[]): T[] => {
+    const nextById = new Map(next.map((body) => [body.id, body]));
+    return bodies.map((body) => {
+      const target = nextById.get(body.id);
+      // Don't slide bodies that were recycled to a new position
+      if (!target || Math.abs(target.y - body.y) > replay.arenaHeight / 2) {
+        return body;
+      }
+      return { ...body, x: lerp(body.x, target.x), y: lerp(body.y, target.y) };
+    });
+  };
+
+  return {
+    ...from,
+    time,
+    zone: interpolateZone(from.zone, to.zone, t),
+    players: blend(from.players, to.players),
+    obstacles: blend(from.obstacles, to.obstacles),
+    projectiles: blend(from.projectiles, to.projectiles),
+  };
+}
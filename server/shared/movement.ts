@@ -0,0 +1,132 @@
+/**
+ * Player movement rules shared by the server simulation and client-side prediction.
+ * Both sides must run exactly this code so replayed inputs land where the server puts them.
+ */
+import { GAME, PLAYER } from "../constants/gameConstants.js";
+
+/**
+ * Directional keys held by a player
+ */
+export interface MovementKeys {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+/**
+ * A single input command: the keys held for `dt` seconds, tagged with a sequence number
+ */
+export interface MovementInput extends MovementKeys {
+  seq: number;
+  dt: number;
+}
+
+/**
+ * Minimal shape of anything that moves like a player
+ */
+export interface MovableBody {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Longest duration a single input command may cover. This only bounds one
+// command; the per-tick input budget in PlayerSchema is what stops a client
+// moving faster than real time.
+export const MAX_INPUT_DT = 0.25;
+
+/**
+ * Move a body according to the held keys, clamped to the arena
+ * @param body - The body to move (mutated in place)
+ * @param keys - The keys held during this step
+ * @param deltaTime - Duration of the step in seconds
+ * @param arenaWidth - Width of the arena
+ * @param arenaHeight - Height of the arena
+ */
+export function applyMovementInput(
+  body: MovableBody,
+  keys: MovementKeys,
+  deltaTime: number,
+  arenaWidth: number,
+  arenaHeight: number
+): void {
+  const distance = PLAYER.SPEED * deltaTime;
+
+  if (keys.up) {
+    body.y = Math.max(GAME.WINNING_LINE, body.y - distance);
+  }
+
+  if (keys.down) {
+    body.y = Math.min(arenaHeight - body.height - 10, body.y + distance);
+  }
+
+  if (keys.left) {
+    body.x = Math.max(5, body.x - distance);
+  }
+
+  if (keys.right) {
+    body.x = Math.min(arenaWidth - body.width - 5, body.x + distance);
+  }
+}
+
+/**
+ * Keep a body that was moved by something other than its keys within the
+ * limits movement keeps it in
+ * @param body - The body to clamp (mutated in place)
+ * @param arenaWidth - Width of the arena
+ * @param arenaHeight - Height of the arena
+ */
+export function clampToArena(body: MovableBody, arenaWidth: number, arenaHeight: number): void {
+  body.x = Math.min(Math.max(body.x, 5), arenaWidth - body.width - 5);
+  body.y = Math.min(Math.max(body.y, GAME.WINNING_LINE), arenaHeight - body.height - 10);
+}
+
+/**
+ * Put a body at the start: the bottom middle of the arena
+ * @param body - The body to move (mutated in place)
+ * @param arenaWidth - Width of the arena
+ * @param arenaHeight - Height of the arena
+ */
+export function moveToSpawn(body: MovableBody, arenaWidth: number, arenaHeight: number): void {
+  body.x = arenaWidth / 2 - body.width / 2;
+  body.y = arenaHeight - body.height - 10;
+}
+
+/**
+ * Send a body that has reached the winning line back to the start
+ * @param body - The body to check (mutated in place)
+ * @param arenaWidth - Width of the arena
+ * @param arenaHeight - Height of the arena
+ * @returns Whether the body crossed the line
+ */
+export function crossWinningLine(body: MovableBody, arenaWidth: number, arenaHeight: number): boolean {
+  if (body.y > GAME.WINNING_LINE) {
+    return false;
+  }
+  moveToSpawn(body, arenaWidth, arenaHeight);
+  return true;
+}
+
+/**
+ * Validate and normalize an input command received over the network
+ * @param data - Raw message payload
+ * @returns A sanitized command, or null if the payload is unusable
+ */
+export function sanitizeMovementInput(data: Partial<MovementInput> | null | undefined): MovementInput | null {
+  if (!data || typeof data.seq !== "number" || !Number.isFinite(data.seq)) {
+    return null;
+  }
+
+  const dt = typeof data.dt === "number" && Number.isFinite(data.dt) ? data.dt : 0;
+
+  return {
+    seq: data.seq,
+    up: data.up === true,
+    down: data.down === true,
+    left: data.left === true,
+    right: data.right === true,
+    dt: Math.min(Math.max(dt, 0), MAX_INPUT_DT),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Power-up pickups and their effects, shared by the single-player simulation,
+ * the server that runs multiplayer rounds and the clients that draw them.
+ */
+import { POWER_UPS } from "../constants/gameConstants.js";
+import { MovableBody } from "./movement.js";
+import { RandomSource } from "./random.js";
+
+export type PowerUpType = (typeof POWER_UPS.TYPES)[keyof typeof POWER_UPS.TYPES];
+
+export const POWER_UP_TYPES: PowerUpType[] = Object.values(POWER_UPS.TYPES);
+
+/**
+ * Effects a player has picked up. The timed ones hold the seconds they have left.
+ */
+export interface PowerUpEffects {
+  shield: boolean;
+  slowMotionTime: number;
+  shrinkTime: number;
+  doublePointsTime: number;
+}
+
+export function createPowerUpEffects(): PowerUpEffects {
+  return { shield: false, slowMotionTime: 0, shrinkTime: 0, doublePointsTime: 0 };
+}
+
+export function isPowerUpType(value: unknown): value is PowerUpType {
+  return POWER_UP_TYPES.includes(value as PowerUpType);
+}
+
+/**
+ * Pick the kind of the next pickup
+ */
+export function pickPowerUpType(random: RandomSource): PowerUpType {
+  return POWER_UP_TYPES[random.int(0, POWER_UP_TYPES.length - 1)];
+}
+
+/**
+ * Start the effect of a collected pickup. Collecting an effect that's
+ * already running starts its timer over.
+ * @param effects - The collector's effects (mutated in place)
+ */
+export function applyPowerUp(effects: PowerUpEffects, type: PowerUpType): void {
+  const duration = POWER_UPS.DURATION / 1000;
+  switch (type) {
+    case POWER_UPS.TYPES.SHIELD:
+      effects.shield = true;
+      break;
+    case POWER_UPS.TYPES.SLOW_MOTION:
+      effects.slowMotionTime = duration;
+      break;
+    case POWER_UPS.TYPES.SHRINK:
+      effects.shrinkTime = duration;
+      break;
+    case POWER_UPS.TYPES.DOUBLE_POINTS:
+      effects.doublePointsTime = duration;
+      break;
+  }
+}
+
+/**
+ * Run the timed effects down
+ * @param effects - The effects to update (mutated in place)
+ * @param deltaTime - Time since last update in seconds
+ */
+export function tickPowerUpEffects(effects: PowerUpEffects, deltaTime: number): void {
+  effects.slowMotionTime = Math.max(0, effects.slowMotionTime - deltaTime);
+  effects.shrinkTime = Math.max(0, effects.shrinkTime - deltaTime);
+  effects.doublePointsTime = Math.max(0, effects.doublePointsTime - deltaTime);
+}
+
+/**
+ * Points a player with these effects gets for something worth `points`
+ */
+export function scorePoints(effects: PowerUpEffects, points: number): number {
+  return effects.doublePointsTime > 0 ? points * POWER_UPS.POINTS_MULTIPLIER : points;
+}
+
+/**
+ * The part of a body that can be hit: all of it, or a smaller box around its
+ * center while it's shrunk
+ */
+export function getHitbox(body: MovableBody, effects: PowerUpEffects): MovableBody {
+  if (effects.shrinkTime <= 0) {
+    return body;
+  }
+  const width = body.width * POWER_UPS.SHRINK_FACTOR;
+  const height = body.height * POWER_UPS.SHRINK_FACTOR;
+  return {
+    x: body.x + (body.width - width) / 2,
+    y: body.y + (body.height - height) / 2,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Seeded pseudo-random numbers for gameplay, shared by the client and the server.
+ * A generator created from the same seed always produces the same sequence.
+ */
+
+/**
+ * A source of random numbers
+ */
+export interface RandomSource {
+  /**
+   * Next number in the range [0, 1)
+   */
+  next(): number;
+
+  /**
+   * Random integer between min and max (inclusive)
+   */
+  int(min: number, max: number): number;
+}
+
+/**
+ * Create a seeded generator (mulberry32: tiny, fast and good enough for gameplay)
+ * @param seed - Any 32-bit integer
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1) + min),
+  };
+}
+
+/**
+ * Pick a seed for a new run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
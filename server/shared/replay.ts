@@ -0,0 +1,370 @@
+/**
+ * Single-player replays. A run is fully determined by its seed, the playing
+ * field and the keys held on each simulation step, so that's all a replay
+ * stores; playing it back re-runs the simulation with the same inputs.
+ */
+import {
+    DEFAULT_SIMULATION_CONFIG,
+    FRAME_TIME,
+    SimulationAction,
+    SimulationConfig,
+    SimulationState,
+    SinglePlayerSimulation,
+} from './singlePlayerSimulation.js';
+
+export const REPLAY_FORMAT = 'ascend-avoid-replay';
+export const REPLAY_VERSION = 3;
+
+// Settings each version added, with the values runs recorded before it were
+// played with: a single life before version 2, no power-ups before version 3
+const SETTINGS_ADDED_IN_VERSION: Record<number, Partial<SimulationConfig>> = {
+    2: { lives: 1 },
+    3: { powerUpInterval: 0 },
+};
+
+/**
+ * A change of playing field (the canvas was resized) and the step it applies from
+ */
+export interface ReplayConfigChange {
+    frame: number;
+    config: SimulationConfig;
+}
+
+/**
+ * A recorded run. Every step lasts FRAME_TIME. Inputs are run-length encoded
+ * as [keys, steps] pairs, where keys is the bit mask made by encodeAction.
+ */
+export interface Replay {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    seed: number;
+    config: SimulationConfig;
+    score: number;
+    frameCount: number;
+    inputs: Array<[number, number]>;
+    configChanges: ReplayConfigChange[];
+    recordedAt: string;
+}
+
+// Bit order of the keys in an input mask
+const ACTION_KEYS = ['up', 'down', 'left', 'right', 'shoot'] as const;
+
+/**
+ * Pack the held keys into a bit mask
+ */
+export function encodeAction(action: SimulationAction): number {
+    return ACTION_KEYS.reduce((mask, key, bit) => (action[key] ? mask | (1 << bit) : mask), 0);
+}
+
+/**
+ * Unpack a bit mask made by encodeAction
+ */
+export function decodeAction(mask: number): SimulationAction {
+    return {
+        up: (mask & 1) !== 0,
+        down: (mask & 2) !== 0,
+        left: (mask & 4) !== 0,
+        right: (mask & 8) !== 0,
+        shoot: (mask & 16) !== 0,
+    };
+}
+
+/**
+ * Records the inputs of a run as it's played
+ */
+export class ReplayRecorder {
+    private replay: Replay | null = null;
+
+    /**
+     * Start recording a new run
+     * @param seed - Seed the simulation was reset with
+     * @param config - Playing field at the start of the run
+     */
+    start(seed: number, config: Readonly<SimulationConfig>): void {
+        this.replay = {
+            format: REPLAY_FORMAT,
+            version: REPLAY_VERSION,
+            seed,
+            config: { ...config },
+            score: 0,
+            frameCount: 0,
+            inputs: [],
+            configChanges: [],
+            recordedAt: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Note a playing field change that applies from the next recorded step
+     */
+    recordConfig(config: Readonly<SimulationConfig>): void {
+        if (!this.replay) return;
+
+        const changes = this.replay.configChanges;
+        const last = changes[changes.length - 1];
+        if (last && last.frame === this.replay.frameCount) {
+            last.config = { ...config };
+        } else {
+            changes.push({ frame: this.replay.frameCount, config: { ...config } });
+        }
+    }
+
+    /**
+     * Record the keys held for one simulation step
+     */
+    record(action: SimulationAction): void {
+        if (!this.replay) return;
+
+        const mask = encodeAction(action);
+        const inputs = this.replay.inputs;
+        const last = inputs[inputs.length - 1];
+        if (last && last[0] === mask) {
+            last[1]++;
+        } else {
+            inputs.push([mask, 1]);
+        }
+        this.replay.frameCount++;
+    }
+
+    /**
+     * Stop recording
+     * @param score - Final score of the run
+     * @returns The finished replay, or null if nothing was being recorded
+     */
+    finish(score: number): Replay | null {
+        const replay = this.replay;
+        this.replay = null;
+        if (replay) {
+            replay.score = score;
+        }
+        return replay;
+    }
+}
+
+/**
+ * Turn a replay into the text stored in replay files
+ */
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+/**
+ * Read a replay file
+ * @throws Error if the text isn't a replay this version can play
+ */
+export function parseReplay(text: string): Replay {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+    return validateReplay(data);
+}
+
+/**
+ * Check that parsed data is a replay this version can play
+ * @returns A copy holding only the replay's own fields
+ * @throws Error if it isn't
+ */
+export function validateReplay(data: any): Replay {
+    if (!data || data.format !== REPLAY_FORMAT) {
+        throw new Error('Not a replay file');
+    }
+    if (!Number.isInteger(data.version) || data.version < 1 || data.version > REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version ${data.version}`);
+    }
+    data = upgradeConfig(data);
+    if (!isNonNegativeInteger(data.seed) || !isNonNegativeInteger(data.score)) {
+        throw new Error('Replay file is missing its seed or score');
+    }
+    if (!isConfig(data.config)) {
+        throw new Error('Replay file has an invalid config');
+    }
+
+    const inputs = data.inputs;
+    if (
+        !Array.isArray(inputs) ||
+        !inputs.every(
+            (run: unknown) =>
+                Array.isArray(run) &&
+                run.length === 2 &&
+                isNonNegativeInteger(run[0]) &&
+                isNonNegativeInteger(run[1]) &&
+                run[1] > 0
+        )
+    ) {
+        throw new Error('Replay file has invalid inputs');
+    }
+    const frameCount = inputs.reduce((total: number, run: [number, number]) => total + run[1], 0);
+    if (frameCount !== data.frameCount) {
+        throw new Error('Replay file is truncated');
+    }
+
+    const changes = data.configChanges ?? [];
+    if (
+        !Array.isArray(changes) ||
+        !changes.every((change: any) => change && isNonNegativeInteger(change.frame) && isConfig(change.config))
+    ) {
+        throw new Error('Replay file has invalid config changes');
+    }
+
+    return {
+        format: REPLAY_FORMAT,
+        version: REPLAY_VERSION,
+        seed: data.seed,
+        config: pickConfig(data.config),
+        score: data.score,
+        frameCount,
+        inputs: inputs.map((run: [number, number]) => [run[0], run[1]]),
+        configChanges: changes.map((change: ReplayConfigChange) => ({
+            frame: change.frame,
+            config: pickConfig(change.config),
+        })),
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    };
+}
+
+/**
+ * Give an older replay the settings added since, as its run was played with them
+ */
+function upgradeConfig(data: any): any {
+    let added: Partial<SimulationConfig> = {};
+    for (let version = data.version + 1; version <= REPLAY_VERSION; version++) {
+        added = { ...added, ...SETTINGS_ADDED_IN_VERSION[version] };
+    }
+    const upgrade = (config: any) => (config ? { ...config, ...added } : config);
+    return {
+        ...data,
+        config: upgrade(data.config),
+        configChanges: Array.isArray(data.configChanges)
+            ? data.configChanges.map((change: any) => (change ? { ...change, config: upgrade(change.config) } : change))
+            : data.configChanges,
+    };
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isConfig(value: any): value is SimulationConfig {
+    return (
+        !!value &&
+        (Object.keys(DEFAULT_SIMULATION_CONFIG) as Array<keyof SimulationConfig>).every(
+            (key) => typeof value[key] === 'number' && Number.isFinite(value[key])
+        )
+    );
+}
+
+function pickConfig(config: SimulationConfig): SimulationConfig {
+    return {
+        width: config.width,
+        height: config.height,
+        scale: config.scale,
+        obstacleMinWidthRatio: config.obstacleMinWidthRatio,
+        obstacleMaxWidthRatio: config.obstacleMaxWidthRatio,
+        maxObstacles: config.maxObstacles,
+        lives: config.lives,
+        powerUpInterval: config.powerUpInterval,
+    };
+}
+
+/**
+ * Plays a replay back by re-running the simulation. Seeking backwards
+ * replays from the start, which takes well under a second for long runs.
+ */
+export class ReplayPlayer {
+    private replay: Replay;
+    private simulation: SinglePlayerSimulation;
+    private frame = 0;
+    // Position in the run-length encoded inputs
+    private inputIndex = 0;
+    private inputOffset = 0;
+    private changeIndex = 0;
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.simulation = new SinglePlayerSimulation(replay.config, replay.seed);
+        this.restart();
+    }
+
+    /**
+     * Number of steps played so far
+     */
+    getFrame(): number {
+        return this.frame;
+    }
+
+    getFrameCount(): number {
+        return this.replay.frameCount;
+    }
+
+    /**
+     * Simulation state after the steps played so far
+     */
+    getState(): Readonly<SimulationState> {
+        return this.simulation.getState();
+    }
+
+    /**
+     * Keys held on the last step played
+     */
+    getLastAction(): SimulationAction {
+        if (this.frame === 0) return decodeAction(0);
+
+        // The step just played used the run the position is in, or the one before if it just ended
+        const run = this.inputOffset > 0 ? this.replay.inputs[this.inputIndex] : this.replay.inputs[this.inputIndex - 1];
+        return decodeAction(run ? run[0] : 0);
+    }
+
+    isFinished(): boolean {
+        return this.frame >= this.replay.frameCount;
+    }
+
+    /**
+     * Play the next step
+     * @returns Whether there was a step left to play
+     */
+    step(): boolean {
+        if (this.isFinished()) return false;
+
+        const changes = this.replay.configChanges;
+        while (this.changeIndex < changes.length && changes[this.changeIndex].frame <= this.frame) {
+            this.simulation.configure(changes[this.changeIndex].config);
+            this.changeIndex++;
+        }
+
+        const run = this.replay.inputs[this.inputIndex];
+        this.simulation.step(decodeAction(run[0]), FRAME_TIME);
+
+        this.frame++;
+        this.inputOffset++;
+        if (this.inputOffset >= run[1]) {
+            this.inputIndex++;
+            this.inputOffset = 0;
+        }
+        return true;
+    }
+
+    /**
+     * Jump to the state after the given number of steps
+     */
+    seek(frame: number): void {
+        const target = Math.max(0, Math.min(Math.floor(frame), this.replay.frameCount));
+        if (target < this.frame) {
+            this.restart();
+        }
+        while (this.frame < target && this.step()) {
+            // Keep stepping until the target is reached
+        }
+    }
+
+    private restart(): void {
+        this.simulation.configure(this.replay.config);
+        this.simulation.reset(this.replay.seed);
+        this.frame = 0;
+        this.inputIndex = 0;
+        this.inputOffset = 0;
+        this.changeIndex = 0;
+    }
+}
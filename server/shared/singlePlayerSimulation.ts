@@ -0,0 +1,700 @@
+/**
+ * Rendering-free single-player simulation. Every rule of the solo game
+ * (movement, obstacles, shooting, power-ups and scoring) lives here, with no
+ * DOM or canvas access, so the game can run in Node for tests and AI
+ * training, and the server can re-run submitted runs to check their scores.
+ * SinglePlayerMode steps it once per frame and draws the resulting state.
+ *
+ * The API follows the gym convention: reset(seed) starts an episode,
+ * step(action) advances it by one frame and reports the reward, and the
+ * episode is done once the player has lost all their lives.
+ */
+import { GAME, OBSTACLE, PLAYER, POWER_UPS, PROJECTILE } from '../constants/gameConstants.js';
+import { MovementKeys } from './movement.js';
+import {
+    applyPowerUp,
+    createPowerUpEffects,
+    getHitbox,
+    pickPowerUpType,
+    PowerUpEffects,
+    PowerUpType,
+    scorePoints,
+    tickPowerUpEffects,
+} from './powerUps.js';
+import { createRandom, RandomSource } from './random.js';
+
+/**
+ * Keys held during a step
+ */
+export type SimulationAction = MovementKeys & { shoot: boolean };
+
+// Playing field the game was tuned on; sizes and speeds scale from it
+export const BASE_CANVAS_WIDTH = 560;
+export const BASE_CANVAS_HEIGHT = 550;
+
+/**
+ * Playing field and difficulty settings
+ */
+export interface SimulationConfig {
+    width: number;
+    height: number;
+    // Size multiplier for entities, steps and speeds (the renderer's SCALE_FACTOR)
+    scale: number;
+    obstacleMinWidthRatio: number;
+    obstacleMaxWidthRatio: number;
+    maxObstacles: number;
+    // Lives a run starts with
+    lives: number;
+    // Milliseconds between power-up spawns, 0 for none
+    powerUpInterval: number;
+}
+
+export interface SimulationBody {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SimulationPowerUp extends SimulationBody {
+    id: number;
+    type: PowerUpType;
+    age: number; // seconds since it appeared
+}
+
+export interface SimulationObstacle extends SimulationBody {
+    id: number;
+    speed: number; // pixels per second, always to the right
+    variant: number;
+    exploding: boolean;
+    explosionFrame: number;
+}
+
+/**
+ * Full state of a run
+ */
+export interface SimulationState {
+    seed: number;
+    frame: number;
+    time: number;
+    score: number;
+    done: boolean;
+    width: number;
+    height: number;
+    winningLine: number;
+    stepSize: { x: number; y: number };
+    player: SimulationBody;
+    obstacles: SimulationObstacle[];
+    projectiles: SimulationBody[];
+    heat: number; // fraction of the maximum (0-1)
+    overheated: boolean;
+    health: number;
+    lives: number;
+    invulnerableTime: number; // seconds left of the invulnerability after a hit
+    powerUps: SimulationPowerUp[];
+    effects: PowerUpEffects;
+}
+
+/**
+ * Something that happened during a step, for the renderer's effects. A hit
+ * the player survives is a 'hit' (or 'shieldBroken' when a shield took it);
+ * the one that ends the run is a 'collision'.
+ */
+export interface SimulationEvent {
+    type: 'scored' | 'obstacleDestroyed' | 'hit' | 'shieldBroken' | 'collision' | 'powerUp';
+    x: number;
+    y: number;
+    // The pickup collected, for 'powerUp' events
+    powerUp?: PowerUpType;
+}
+
+export interface StepResult {
+    observation: SimulationState;
+    reward: number;
+    done: boolean;
+    events: SimulationEvent[];
+}
+
+interface ObstacleBody extends SimulationObstacle {
+    baseWidth: number;
+    explosionTimer: number;
+}
+
+interface ProjectileBody extends SimulationBody {
+    velocityY: number;
+    age: number;
+}
+
+type MovementKey = 'up' | 'down' | 'left' | 'right';
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+    width: BASE_CANVAS_WIDTH,
+    height: BASE_CANVAS_HEIGHT,
+    scale: 1,
+    obstacleMinWidthRatio: OBSTACLE.MIN_WIDTH_RATIO,
+    obstacleMaxWidthRatio: OBSTACLE.MAX_WIDTH_RATIO,
+    maxObstacles: GAME.MAX_OBSTACLES,
+    lives: PLAYER.LIVES,
+    powerUpInterval: POWER_UPS.SPAWN_INTERVAL,
+};
+
+// Frame length the per-frame speeds were tuned for, and the default step (seconds)
+export const FRAME_TIME = 16.67 / 1000;
+
+// The explosion animation shows each sprite frame for this many ~60fps frames
+const EXPLOSION_FRAMES = 5;
+const EXPLOSION_FRAME_DURATION = 5;
+
+// Reward for each hit (each point scored is worth +1)
+const HIT_REWARD = -1;
+
+export class SinglePlayerSimulation {
+    private config: SimulationConfig;
+    private random: RandomSource;
+    private state: SimulationState;
+    private obstacles: ObstacleBody[];
+    private projectiles: ProjectileBody[];
+    private heldKeys: Record<MovementKey, boolean>;
+    private heat: number;
+    private lastShotTime: number;
+    private nextObstacleId: number;
+    private nextPowerUpId: number;
+    private nextPowerUpTime: number;
+
+    constructor(config: Partial<SimulationConfig> = {}, seed: number = 0) {
+        this.config = { ...DEFAULT_SIMULATION_CONFIG, ...config };
+        this.random = createRandom(seed);
+        this.obstacles = [];
+        this.projectiles = [];
+        this.heldKeys = { up: false, down: false, left: false, right: false };
+        this.heat = 0;
+        this.lastShotTime = -Infinity;
+        this.nextObstacleId = 0;
+        this.nextPowerUpId = 0;
+        this.nextPowerUpTime = 0;
+        this.state = this.createState(seed);
+        this.reset(seed);
+    }
+
+    /**
+     * Start a new run
+     * @param seed - Seed for obstacle placement; the same seed and actions replay the same run
+     * @returns The initial observation
+     */
+    reset(seed: number): SimulationState {
+        this.random = createRandom(seed);
+        this.state = this.createState(seed);
+        this.obstacles = this.state.obstacles as ObstacleBody[];
+        this.projectiles = this.state.projectiles as ProjectileBody[];
+        this.heldKeys = { up: false, down: false, left: false, right: false };
+        this.heat = 0;
+        this.lastShotTime = -Infinity;
+        this.nextObstacleId = 0;
+        this.nextPowerUpId = 0;
+        this.nextPowerUpTime = this.config.powerUpInterval / 1000;
+
+        this.resetPlayer();
+
+        // Start with one obstacle; more are added as the score grows
+        this.addObstacle();
+
+        return this.observe();
+    }
+
+    /**
+     * Advance the run by one frame
+     * @param action - Keys held during the frame
+     * @param deltaTime - Frame duration in seconds
+     */
+    step(action: SimulationAction, deltaTime: number = FRAME_TIME): StepResult {
+        const events: SimulationEvent[] = [];
+        if (this.state.done) {
+            return { observation: this.observe(), reward: 0, done: true, events };
+        }
+
+        const scoreBefore = this.state.score;
+        this.state.frame++;
+        this.state.time += deltaTime;
+
+        this.movePlayer(action);
+        this.updateObstacles(deltaTime);
+        tickPowerUpEffects(this.state.effects, deltaTime);
+
+        this.state.invulnerableTime = Math.max(0, this.state.invulnerableTime - deltaTime);
+        const hit = this.state.invulnerableTime > 0 ? null : this.findCollision();
+        let hurt = false;
+        if (hit && this.state.effects.shield) {
+            // The shield takes the hit instead of the player
+            this.state.effects.shield = false;
+            this.state.invulnerableTime = PLAYER.INVULNERABILITY_TIME / 1000;
+            events.push({ type: 'shieldBroken', ...this.centerOf(hit) });
+        } else if (hit) {
+            hurt = true;
+            const fatal = this.takeHit();
+            events.push({ type: fatal ? 'collision' : 'hit', ...this.centerOf(hit) });
+            if (fatal) {
+                this.state.done = true;
+                return { observation: this.observe(), reward: HIT_REWARD, done: true, events };
+            }
+        }
+
+        this.updateShooting(action, deltaTime, events);
+        this.updatePowerUps(deltaTime, events);
+        this.checkWinningLine(events);
+
+        return {
+            observation: this.observe(),
+            reward: this.state.score - scoreBefore + (hurt ? HIT_REWARD : 0),
+            done: false,
+            events,
+        };
+    }
+
+    /**
+     * Live state of the run. Treat it as read-only; use step() results for snapshots.
+     */
+    getState(): Readonly<SimulationState> {
+        return this.state;
+    }
+
+    /**
+     * Change the playing field, e.g. when the canvas is resized. Entities keep
+     * their positions and pick up the new sizes straight away.
+     */
+    configure(config: Partial<SimulationConfig>): void {
+        this.config = { ...this.config, ...config };
+        this.applyDimensions(this.state);
+
+        const player = this.state.player;
+        player.width = this.playerSize();
+        player.height = player.width;
+
+        for (const obstacle of this.obstacles) {
+            obstacle.width = obstacle.baseWidth * this.config.scale;
+            obstacle.height = this.obstacleHeight();
+        }
+    }
+
+    /**
+     * Get the current configuration
+     */
+    getConfig(): Readonly<SimulationConfig> {
+        return this.config;
+    }
+
+    /**
+     * Build an empty state for a new run
+     */
+    private createState(seed: number): SimulationState {
+        const state: SimulationState = {
+            seed,
+            frame: 0,
+            time: 0,
+            score: 0,
+            done: false,
+            width: 0,
+            height: 0,
+            winningLine: 0,
+            stepSize: { x: 0, y: 0 },
+            player: { x: 0, y: 0, width: 0, height: 0 },
+            obstacles: [],
+            projectiles: [],
+            heat: 0,
+            overheated: false,
+            health: PLAYER.MAX_HEALTH,
+            lives: this.config.lives,
+            invulnerableTime: 0,
+            powerUps: [],
+            effects: createPowerUpEffects(),
+        };
+        this.applyDimensions(state);
+        return state;
+    }
+
+    /**
+     * Copy the config's dimensions into a state
+     */
+    private applyDimensions(state: SimulationState): void {
+        const { width, height, scale } = this.config;
+        state.width = width;
+        state.height = height;
+        state.winningLine = GAME.WINNING_LINE * (height / BASE_CANVAS_HEIGHT);
+        state.stepSize = {
+            x: Math.max(BASE_CANVAS_WIDTH * 0.07 * scale, PLAYER.MIN_STEP * scale),
+            y: Math.max(BASE_CANVAS_HEIGHT * 0.07 * scale, PLAYER.MIN_STEP * scale),
+        };
+    }
+
+    /**
+     * Snapshot of the state that later steps won't change
+     */
+    private observe(): SimulationState {
+        const state = this.state;
+        return {
+            ...state,
+            stepSize: { ...state.stepSize },
+            player: { ...state.player },
+            obstacles: this.obstacles.map((obstacle) => ({
+                id: obstacle.id,
+                x: obstacle.x,
+                y: obstacle.y,
+                width: obstacle.width,
+                height: obstacle.height,
+                speed: obstacle.speed,
+                variant: obstacle.variant,
+                exploding: obstacle.exploding,
+                explosionFrame: obstacle.explosionFrame,
+            })),
+            projectiles: this.projectiles.map(({ x, y, width, height }) => ({ x, y, width, height })),
+            powerUps: state.powerUps.map((powerUp) => ({ ...powerUp })),
+            effects: { ...state.effects },
+        };
+    }
+
+    private playerSize(): number {
+        return Math.max(PLAYER.BASE_WIDTH * this.config.scale, 15);
+    }
+
+    private obstacleHeight(): number {
+        return Math.max(BASE_CANVAS_HEIGHT * 0.04, 20) * this.config.scale;
+    }
+
+    /**
+     * Put the player back at the bottom center
+     */
+    private resetPlayer(): void {
+        const { width, height, scale } = this.config;
+        const player = this.state.player;
+        player.width = this.playerSize();
+        player.height = player.width;
+        player.x = Math.max(0, Math.min(width / 2 - player.width / 2, width - player.width));
+        player.y = Math.max(0, Math.min(height - player.height - 10 * scale, height - player.height));
+    }
+
+    /**
+     * Move the player. Each key moves one step when it's pressed; holding
+     * it down doesn't repeat, except that holding up keeps climbing slowly.
+     */
+    private movePlayer(action: SimulationAction): void {
+        const { width, height, scale } = this.config;
+        const { player, winningLine, stepSize } = this.state;
+
+        if (action.up && player.y > 30) {
+            player.y -= 3 * (height / BASE_CANVAS_HEIGHT);
+        }
+
+        const pressed = (key: MovementKey) => action[key] && !this.heldKeys[key];
+
+        if (pressed('up') && player.y > winningLine - player.height / 2) {
+            player.y -= stepSize.y;
+        }
+        if (pressed('down') && player.y + player.height <= height - 10 * scale) {
+            player.y += stepSize.y;
+        }
+        if (pressed('right') && player.x < width - player.width - 5 * scale) {
+            player.x += stepSize.x;
+        }
+        if (pressed('left') && player.x > 5 * scale) {
+            player.x -= stepSize.x;
+        }
+
+        this.heldKeys = { up: action.up, down: action.down, left: action.left, right: action.right };
+
+        // Keep the player fully on the field
+        player.x = Math.max(0, Math.min(player.x, width - player.width));
+        player.y = Math.max(winningLine, Math.min(player.y, height - player.height));
+    }
+
+    /**
+     * Move obstacles and advance explosions, respawning whatever is finished
+     */
+    private updateObstacles(deltaTime: number): void {
+        const frames = deltaTime / FRAME_TIME;
+        const slowdown = this.state.effects.slowMotionTime > 0 ? POWER_UPS.SLOW_MOTION_FACTOR : 1;
+        const speed = ((OBSTACLE.BASE_SPEED + this.state.score / 10) * this.config.scale * slowdown) / FRAME_TIME;
+
+        for (const obstacle of this.obstacles) {
+            if (obstacle.exploding) {
+                obstacle.explosionTimer += frames;
+                obstacle.explosionFrame = Math.floor(obstacle.explosionTimer / EXPLOSION_FRAME_DURATION);
+                if (obstacle.explosionFrame >= EXPLOSION_FRAMES) {
+                    this.placeObstacle(obstacle);
+                }
+                continue;
+            }
+
+            // Obstacles speed up as the score grows
+            obstacle.speed = speed;
+            if (obstacle.x < this.config.width) {
+                obstacle.x += obstacle.speed * deltaTime;
+            } else {
+                this.placeObstacle(obstacle);
+            }
+        }
+    }
+
+    /**
+     * Find an obstacle touching the player (hitboxes are trimmed by 10% for fairness)
+     */
+    private findCollision(): ObstacleBody | null {
+        const player = getHitbox(this.state.player, this.state.effects);
+        const trim = 0.1;
+        const pLeft = player.x + player.width * trim;
+        const pRight = player.x + player.width * (1 - trim);
+        const pTop = player.y + player.height * trim;
+        const pBottom = player.y + player.height * (1 - trim);
+
+        for (const obstacle of this.obstacles) {
+            if (obstacle.exploding) continue;
+
+            const oLeft = obstacle.x + obstacle.width * trim;
+            const oRight = obstacle.x + obstacle.width * (1 - trim);
+            const oTop = obstacle.y + obstacle.height * trim;
+            const oBottom = obstacle.y + obstacle.height * (1 - trim);
+            if (oLeft < pRight && oRight > pLeft && oTop < pBottom && oBottom > pTop) {
+                return obstacle;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Take an obstacle hit: lose health, and a life whenever health runs out.
+     * A hit the player survives throws them back towards the start and leaves
+     * them invulnerable for a moment.
+     * @returns Whether the hit ended the run
+     */
+    private takeHit(): boolean {
+        const state = this.state;
+        state.health -= PLAYER.HIT_DAMAGE;
+        if (state.health <= 0) {
+            state.lives--;
+            if (state.lives <= 0) {
+                state.health = 0;
+                return true;
+            }
+            state.health = PLAYER.MAX_HEALTH;
+        }
+
+        state.invulnerableTime = PLAYER.INVULNERABILITY_TIME / 1000;
+        const { player } = state;
+        player.y = Math.min(player.y + PLAYER.KNOCKBACK * this.config.scale, this.config.height - player.height);
+        return false;
+    }
+
+    /**
+     * Cool the gun, fire while shoot is held and blow up obstacles that are hit
+     */
+    private updateShooting(action: SimulationAction, deltaTime: number, events: SimulationEvent[]): void {
+        if (action.shoot) {
+            this.fireProjectile();
+        }
+
+        this.heat = Math.max(0, this.heat - PROJECTILE.HEAT_COOLING_RATE * deltaTime);
+        if (this.state.overheated && this.heat <= PROJECTILE.OVERHEAT_RECOVERY) {
+            this.state.overheated = false;
+        }
+        this.state.heat = this.heat / PROJECTILE.MAX_HEAT;
+
+        const lifetime = PROJECTILE.LIFETIME / 1000;
+        for (let i = this.projectiles.length - 1; i >= 0; i--) {
+            const projectile = this.projectiles[i];
+            projectile.y += projectile.velocityY * deltaTime;
+            projectile.age += deltaTime;
+
+            const target = this.obstacles.find((obstacle) => !obstacle.exploding && this.overlaps(projectile, obstacle));
+            if (target) {
+                this.destroyObstacle(target, events);
+            }
+
+            if (target || projectile.age >= lifetime || projectile.y + projectile.height < 0) {
+                this.projectiles.splice(i, 1);
+            }
+        }
+    }
+
+    /**
+     * Fire from the top center of the player unless on cooldown, overheated or at capacity
+     */
+    private fireProjectile(): void {
+        if (this.state.overheated) return;
+        if ((this.state.time - this.lastShotTime) * 1000 < PROJECTILE.FIRE_RATE) return;
+        if (this.projectiles.length >= PROJECTILE.MAX_COUNT) return;
+
+        const { player } = this.state;
+        const { scale } = this.config;
+        const width = PROJECTILE.WIDTH * scale;
+        this.projectiles.push({
+            x: player.x + player.width / 2 - width / 2,
+            y: player.y,
+            width,
+            height: PROJECTILE.HEIGHT * scale,
+            velocityY: -PROJECTILE.BASE_SPEED * scale,
+            age: 0,
+        });
+        this.lastShotTime = this.state.time;
+
+        this.heat = Math.min(PROJECTILE.MAX_HEAT, this.heat + PROJECTILE.HEAT_PER_SHOT);
+        if (this.heat >= PROJECTILE.MAX_HEAT) {
+            this.state.overheated = true;
+        }
+    }
+
+    /**
+     * Blow up an obstacle hit by a projectile and award the bonus
+     */
+    private destroyObstacle(obstacle: ObstacleBody, events: SimulationEvent[]): void {
+        obstacle.exploding = true;
+        obstacle.explosionTimer = 0;
+        obstacle.explosionFrame = 0;
+        this.state.score += scorePoints(this.state.effects, PROJECTILE.OBSTACLE_BONUS);
+        events.push({ type: 'obstacleDestroyed', ...this.centerOf(obstacle) });
+    }
+
+    /**
+     * Spawn pickups every so often, expire the ones left lying around and
+     * apply the one the player touches
+     */
+    private updatePowerUps(deltaTime: number, events: SimulationEvent[]): void {
+        const powerUps = this.state.powerUps;
+        const interval = this.config.powerUpInterval / 1000;
+        if (interval > 0 && this.state.time >= this.nextPowerUpTime) {
+            this.nextPowerUpTime += interval;
+            if (powerUps.length < POWER_UPS.MAX_ACTIVE) {
+                this.spawnPowerUp();
+            }
+        }
+
+        const lifetime = POWER_UPS.LIFETIME / 1000;
+        for (let i = powerUps.length - 1; i >= 0; i--) {
+            const powerUp = powerUps[i];
+            powerUp.age += deltaTime;
+
+            if (this.overlaps(powerUp, this.state.player)) {
+                applyPowerUp(this.state.effects, powerUp.type);
+                events.push({ type: 'powerUp', ...this.centerOf(powerUp), powerUp: powerUp.type });
+                powerUps.splice(i, 1);
+            } else if (powerUp.age >= lifetime) {
+                powerUps.splice(i, 1);
+            }
+        }
+    }
+
+    /**
+     * Put a pickup somewhere between the start and the winning line
+     */
+    private spawnPowerUp(): void {
+        const { width, height, scale } = this.config;
+        const size = POWER_UPS.SIZE * scale;
+        this.state.powerUps.push({
+            id: this.nextPowerUpId++,
+            type: pickPowerUpType(this.random),
+            x: this.random.int(0, Math.floor(width - size)),
+            y: this.random.int(Math.floor(this.state.winningLine + size), Math.floor(height - 80 * scale)),
+            width: size,
+            height: size,
+            age: 0,
+        });
+    }
+
+    /**
+     * Score when the player reaches the winning line, then send them back down
+     */
+    private checkWinningLine(events: SimulationEvent[]): void {
+        const { player, winningLine } = this.state;
+        if (player.y > winningLine) return;
+
+        this.state.score += scorePoints(this.state.effects, 1);
+        events.push({ type: 'scored', x: player.x + player.width / 2, y: winningLine });
+
+        // More obstacles early on, then one every four points
+        if (this.state.score <= 2) {
+            this.addObstacle();
+        }
+        if (this.state.score % 4 === 0) {
+            this.addObstacle();
+        }
+
+        this.resetPlayer();
+    }
+
+    /**
+     * Add an obstacle, or respawn a random one once the field is full
+     */
+    private addObstacle(): void {
+        if (this.obstacles.length >= this.config.maxObstacles) {
+            this.placeObstacle(this.obstacles[this.random.int(0, this.obstacles.length - 1)]);
+            return;
+        }
+
+        const minWidth = Math.max(this.config.width * this.config.obstacleMinWidthRatio, 30);
+        const maxWidth = Math.max(this.config.width * this.config.obstacleMaxWidthRatio, 80);
+        const obstacle: ObstacleBody = {
+            id: this.nextObstacleId++,
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            speed: 0,
+            variant: 0,
+            exploding: false,
+            explosionFrame: 0,
+            baseWidth: this.random.int(Math.floor(minWidth), Math.floor(maxWidth)),
+            explosionTimer: 0,
+        };
+        this.placeObstacle(obstacle);
+        this.obstacles.push(obstacle);
+    }
+
+    /**
+     * Move an obstacle just off the left edge at a random height, away from the
+     * player's spawn point and other obstacles where possible
+     */
+    private placeObstacle(obstacle: ObstacleBody): void {
+        const { height, scale } = this.config;
+        obstacle.width = obstacle.baseWidth * scale;
+        obstacle.height = this.obstacleHeight();
+        obstacle.x = -obstacle.width;
+
+        for (let attempt = 0; attempt < 10; attempt++) {
+            obstacle.y = this.random.int(Math.floor(20 * scale), Math.floor(height - 50 * scale));
+            if (!this.isNearSpawn(obstacle) && !this.overlapsOtherObstacle(obstacle)) break;
+        }
+
+        obstacle.variant = this.random.int(0, 2);
+        obstacle.exploding = false;
+        obstacle.explosionFrame = 0;
+        obstacle.explosionTimer = 0;
+    }
+
+    private isNearSpawn(obstacle: ObstacleBody): boolean {
+        const { width, height, scale } = this.config;
+        const size = 100 * scale;
+        return this.overlaps(obstacle, {
+            x: width / 2 - size / 2,
+            y: height - 70 * scale - size / 2,
+            width: size,
+            height: size,
+        });
+    }
+
+    private overlapsOtherObstacle(obstacle: ObstacleBody): boolean {
+        // Keep a small gap between obstacles
+        const buffer = 5 * this.config.scale;
+        return this.obstacles.some((other) =>
+            other !== obstacle &&
+            obstacle.x < other.x + other.width + buffer &&
+            obstacle.x + obstacle.width + buffer > other.x &&
+            obstacle.y < other.y + other.height + buffer &&
+            obstacle.y + obstacle.height + buffer > other.y
+        );
+    }
+
+    private overlaps(a: SimulationBody, b: SimulationBody): boolean {
+        return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+    }
+
+    private centerOf(body: SimulationBody): { x: number; y: number } {
+        return { x: body.x + body.width / 2, y: body.y + body.height / 2 };
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * The safe zone of a last-player-standing round, shared by the server that
+ * shrinks it and the clients that draw it. The zone is a circle that closes
+ * in on a smaller circle somewhere inside it, one shrink at a time.
+ */
+import { ARENA } from "../constants/gameConstants.js";
+import { MovableBody } from "./movement.js";
+import { RandomSource } from "./random.js";
+
+/**
+ * A circle in arena units
+ */
+export interface Zone {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * The zone a round starts with: a circle just reaching the arena's corners,
+ * so nowhere in the arena is outside it
+ */
+export function getInitialZone(arenaWidth: number, arenaHeight: number): Zone {
+  return {
+    x: arenaWidth / 2,
+    y: arenaHeight / 2,
+    radius: Math.hypot(arenaWidth, arenaHeight) / 2,
+  };
+}
+
+/**
+ * Pick the circle the zone shrinks to next: smaller, inside the current zone
+ * and offset from its center by a random amount
+ * @param zone - The zone as it is now
+ * @param random - The round's random source
+ * @returns The next zone, or null once the zone is as small as it gets
+ */
+export function pickNextZone(zone: Zone, random: RandomSource, arenaWidth: number, arenaHeight: number): Zone | null {
+  if (zone.radius <= ARENA.MIN_ZONE_RADIUS) {
+    return null;
+  }
+
+  const radius = Math.max(zone.radius * ARENA.ZONE_SHRINK_RATIO, ARENA.MIN_ZONE_RADIUS);
+  const angle = random.next() * Math.PI * 2;
+  const offset = random.next() * (zone.radius - radius);
+
+  // Keep the center well inside the arena so most of the zone stays playable
+  const margin = Math.min(radius, arenaWidth / 2, arenaHeight / 2) / 2;
+  return {
+    x: clamp(zone.x + Math.cos(angle) * offset, margin, arenaWidth - margin),
+    y: clamp(zone.y + Math.sin(angle) * offset, margin, arenaHeight - margin),
+    radius,
+  };
+}
+
+/**
+ * The zone part way through shrinking from one circle to the next
+ * @param progress - 0 at the start of the shrink, 1 at the end
+ */
+export function interpolateZone(from: Zone, to: Zone, progress: number): Zone {
+  const t = clamp(progress, 0, 1);
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    radius: from.radius + (to.radius - from.radius) * t,
+  };
+}
+
+/**
+ * How far a body's center is outside the zone
+ * @returns Distance in arena units, 0 if the center is inside
+ */
+export function distanceOutsideZone(body: MovableBody, zone: Zone): number {
+  const distance = Math.hypot(body.x + body.width / 2 - zone.x, body.y + body.height / 2 - zone.y);
+  return Math.max(0, distance - zone.radius);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,203 @@
+/**
+ * Autopilot that plays single-player on its own. It produces the same
+ * InputState the InputManager does, so it can stand in for the keyboard.
+ *
+ * The player moves one step per key press, so the agent alternates between
+ * pressing a key and releasing it. Each time it presses, it searches a few
+ * moves ahead against the predicted obstacle sweeps and takes the first move
+ * of the safest path that climbs furthest toward the winning line.
+ */
+import { InputState } from '../types';
+import type { SimulationObstacle, SimulationState } from '../../server/shared/singlePlayerSimulation';
+
+type Move = 'up' | 'down' | 'left' | 'right' | 'wait';
+
+interface Position {
+    x: number;
+    y: number;
+}
+
+// Moves tried at each search step; up comes first so ties favor progress
+const MOVES: Move[] = ['up', 'left', 'right', 'wait', 'down'];
+
+// Number of moves the search looks ahead
+const SEARCH_DEPTH = 4;
+
+// Extra time a path's final position must stay clear for (seconds)
+const SETTLE_TIME = 0.25;
+
+// Clearance kept around obstacles (pixels)
+const SAFETY_MARGIN = 4;
+
+// Score weights
+const COLLISION_PENALTY = 10000;
+const UNSETTLED_PENALTY = 500;
+const GOAL_REWARD = 5000;
+const CENTER_WEIGHT = 0.05; // per pixel away from the horizontal center
+
+export class AutopilotAgent {
+    private pressedLastFrame = false;
+    private frameTime = 1 / 60;
+
+    /**
+     * Decide the keys to hold this frame
+     * @param state - Current state of the single-player simulation
+     * @param deltaTime - Time since the last frame in seconds
+     */
+    getInputState(state: Readonly<SimulationState>, deltaTime: number): InputState {
+        const input: InputState = { up: false, down: false, left: false, right: false };
+
+        // Smooth the frame time; a move takes two frames (press, then release)
+        if (deltaTime > 0) {
+            this.frameTime += (deltaTime - this.frameTime) * 0.1;
+        }
+
+        // Keys must be released between presses for the player to keep moving
+        if (this.pressedLastFrame) {
+            this.pressedLastFrame = false;
+            return input;
+        }
+
+        const move = this.chooseMove(state);
+        if (move !== 'wait') {
+            input[move] = true;
+            this.pressedLastFrame = true;
+        }
+        return input;
+    }
+
+    /**
+     * Forget any in-progress key press (used when the game restarts)
+     */
+    reset(): void {
+        this.pressedLastFrame = false;
+    }
+
+    /**
+     * Pick the first move of the best path found by the search
+     */
+    private chooseMove(state: Readonly<SimulationState>): Move {
+        const hazards = state.obstacles.filter((obstacle) => !obstacle.exploding);
+        const start = { x: state.player.x, y: state.player.y };
+
+        let bestMove: Move = 'wait';
+        let bestScore = -Infinity;
+        for (const move of MOVES) {
+            const score = this.scorePath(start, move, 0, SEARCH_DEPTH, state, hazards);
+            if (score > bestScore) {
+                bestScore = score;
+                bestMove = move;
+            }
+        }
+        return bestMove;
+    }
+
+    /**
+     * Score the best path that starts with the given move (higher is better)
+     * @param from - Position before the move
+     * @param move - The move to make
+     * @param time - Seconds from now at which the move is made
+     * @param depth - Moves left to search, including this one
+     */
+    private scorePath(
+        from: Position,
+        move: Move,
+        time: number,
+        depth: number,
+        state: Readonly<SimulationState>,
+        hazards: readonly SimulationObstacle[]
+    ): number {
+        const position = this.applyMove(from, move, state);
+        const moveTime = this.frameTime * 2;
+
+        // Being hit sooner is worse, since there's less time to find a way out
+        if (this.isHit(position, time, time + moveTime, state, hazards)) {
+            return -COLLISION_PENALTY * depth;
+        }
+
+        // Reaching the line scores, sooner is better
+        if (position.y <= state.winningLine) {
+            return GOAL_REWARD * depth;
+        }
+
+        if (depth <= 1) {
+            return this.scoreLeaf(position, time + moveTime, state, hazards);
+        }
+
+        let best = -Infinity;
+        for (const next of MOVES) {
+            best = Math.max(best, this.scorePath(position, next, time + moveTime, depth - 1, state, hazards));
+        }
+        return best;
+    }
+
+    /**
+     * Score where a path ends: higher up is better, as is staying near the
+     * middle with room to dodge and not sitting in an obstacle's way
+     */
+    private scoreLeaf(
+        position: Position,
+        time: number,
+        state: Readonly<SimulationState>,
+        hazards: readonly SimulationObstacle[]
+    ): number {
+        let score = -position.y;
+        score -= Math.abs(position.x + state.player.width / 2 - state.width / 2) * CENTER_WEIGHT;
+
+        if (this.isHit(position, time, time + SETTLE_TIME, state, hazards)) {
+            score -= UNSETTLED_PENALTY;
+        }
+        return score;
+    }
+
+    /**
+     * Where the player ends up after a move, mirroring the simulation's bounds
+     */
+    private applyMove(from: Position, move: Move, state: Readonly<SimulationState>): Position {
+        const { player, stepSize } = state;
+        const position = { ...from };
+        switch (move) {
+            case 'up':
+                position.y = Math.max(state.winningLine, position.y - stepSize.y);
+                break;
+            case 'down':
+                position.y = Math.min(state.height - player.height, position.y + stepSize.y);
+                break;
+            case 'left':
+                position.x = Math.max(0, position.x - stepSize.x);
+                break;
+            case 'right':
+                position.x = Math.min(state.width - player.width, position.x + stepSize.x);
+                break;
+        }
+        return position;
+    }
+
+    /**
+     * Whether any obstacle sweeps over the position during a time window
+     */
+    private isHit(
+        position: Position,
+        startTime: number,
+        endTime: number,
+        state: Readonly<SimulationState>,
+        hazards: readonly SimulationObstacle[]
+    ): boolean {
+        const { player } = state;
+        const left = position.x - SAFETY_MARGIN;
+        const right = position.x + player.width + SAFETY_MARGIN;
+        const top = position.y - SAFETY_MARGIN;
+        const bottom = position.y + player.height + SAFETY_MARGIN;
+
+        return hazards.some((obstacle) => {
+            if (obstacle.y >= bottom || obstacle.y + obstacle.height <= top) {
+                return false;
+            }
+
+            // Obstacles move right at a constant speed, covering this span during the window
+            const sweepLeft = obstacle.x + obstacle.speed * startTime;
+            const sweepRight = obstacle.x + obstacle.width + obstacle.speed * endTime;
+            return sweepLeft < right && sweepRight > left;
+        });
+    }
+}
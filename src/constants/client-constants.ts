@@ -1,9 +1,18 @@
 // Game configuration constants
 export const GAME_CONFIG = {
     ROOM_NAME: 'game_room',
+    RACE_ROOM_NAME: 'race_room',
     DEFAULT_PLAYER_NAME: 'Anonymous',
     RECONNECT_ATTEMPTS: 3,
     RECONNECT_DELAY: 2000,
+    RECONNECTION_TOKEN_KEY: 'reconnectionToken',
+    JOIN_CODE_PARAM: 'room',
+    SEED_PARAM: 'seed',
+    GHOST_STORAGE_KEY: 'ascendAvoidGhost',
+    DAILY_PARAM: 'daily',
+    DAILY_STORAGE_KEY: 'ascendAvoidDaily',
+    LEADERBOARD_NAME_KEY: 'ascendAvoidLeaderboardName',
+    AUTOPILOT_RESTART_DELAY: 2000, // ms before the autopilot starts a new game after losing
 } as const;
 
 // Game event types for EventBus
@@ -13,6 +22,8 @@ export const GameEvents = {
     MULTIPLAYER_DISCONNECTED: 'multiplayer:disconnected',
     MULTIPLAYER_ERROR: 'multiplayer:error',
     MULTIPLAYER_STATE_UPDATE: 'multiplayer:stateUpdate',
+    MULTIPLAYER_RECONNECTING: 'multiplayer:reconnecting',
+    MULTIPLAYER_RECONNECTED: 'multiplayer:reconnected',
     
     // Player events
     PLAYER_JOINED: 'player:joined',
@@ -25,6 +36,9 @@ export const GameEvents = {
     GAME_OVER: 'game:over',
     GAME_PAUSE: 'game:pause',
     GAME_RESUME: 'game:resume',
+    PROJECTILE_HIT: 'projectile:hit',
+    PLAYER_BUMP: 'player:bump',
+    POWER_UP: 'powerUp:collected',
     
     // UI events
     UI_SHOW_MENU: 'ui:showMenu',
@@ -8,7 +8,8 @@ export const CANVAS = {
   BASE_WIDTH: 600,
   BASE_HEIGHT: 700,
   MAX_DESKTOP_WIDTH: 1600,  // Increased maximum width for desktop (especially for large monitors)
-  MAX_MOBILE_WIDTH: 800     // Maximum width for mobile
+  MAX_MOBILE_WIDTH: 800,    // Maximum width for mobile
+  MIN_HEIGHT: 200           // Smallest canvas height, on phones
 };
 
 // Player settings
@@ -17,12 +18,19 @@ export const PLAYER = {
   BASE_HEIGHT: 30,
   MIN_STEP: 3,
   BASE_SPEED: 5,
+  SPEED: 150, // units per second in the server simulation (BASE_SPEED per tick of the old 30 Hz loop)
+  MAX_HEALTH: 100,
+  HIT_DAMAGE: 100, // health lost to an obstacle (or a lost crash); a life is lost each time health runs out
+  LIVES: 3,
+  INVULNERABILITY_TIME: 1500, // ms after a hit during which the player can't be hurt
+  KNOCKBACK: 40, // how far a hit throws the player back towards the start
   SIZE_RATIO: 0.04,
 } as const;
 
 // Obstacle settings
 export const OBSTACLE = {
   BASE_SPEED: 2,
+  SPEED: 60, // units per second in the server simulation (BASE_SPEED per tick of the old 30 Hz loop)
   MIN_WIDTH: 30,
   MAX_WIDTH: 60,
   MIN_WIDTH_RATIO: 0.08,
@@ -36,11 +44,36 @@ export const PROJECTILE = {
   SPEED: 400,
   BASE_SPEED: 400, // Base speed for projectiles (used in constructor)
   MAX_ACTIVE: 5,
-  MAX_COUNT: 5, // Maximum number of projectiles (used by ProjectileManager)
+  MAX_COUNT: 5, // Maximum number of projectiles in flight at once
   FIRE_RATE: 250, // milliseconds between shots
   COLOR: '#00ffff',
   TRAIL_LENGTH: 3,
   LIFETIME: 3000, // Projectile lifetime in milliseconds (3 seconds)
+  STUN_DURATION: 1000, // milliseconds a player is stunned when hit
+  MAX_HEAT: 100, // heat at which the gun overheats
+  HEAT_PER_SHOT: 20,
+  HEAT_COOLING_RATE: 35, // heat shed per second
+  OVERHEAT_RECOVERY: 30, // an overheated gun fires again once cooled to this level
+  OBSTACLE_BONUS: 1, // points awarded for destroying an obstacle
+} as const;
+
+// Power-up pickups: they appear in the field every so often and take
+// effect when a player touches one
+export const POWER_UPS = {
+  TYPES: {
+    SHIELD: "shield", // absorbs the next hit
+    SLOW_MOTION: "slow_motion", // obstacles move slower
+    SHRINK: "shrink", // smaller hitbox
+    DOUBLE_POINTS: "double_points", // points are worth double
+  },
+  SIZE: 24,
+  SPAWN_INTERVAL: 8000, // milliseconds between spawns
+  MAX_ACTIVE: 2, // pickups waiting in the field at once
+  LIFETIME: 10000, // milliseconds before an uncollected pickup disappears
+  DURATION: 8000, // milliseconds a timed effect lasts
+  SLOW_MOTION_FACTOR: 0.5, // obstacle speed while slowed
+  SHRINK_FACTOR: 0.6, // hitbox size while shrunk
+  POINTS_MULTIPLIER: 2,
 } as const;
 
 // Game settings
@@ -48,11 +81,40 @@ export const GAME = {
   WINNING_LINE: 40,
   MAX_PLAYERS: 30,
   STATE_UPDATE_RATE: 1000 / 30, // 30 updates per second
+  SIMULATION_STEP: 1000 / 60, // fixed server simulation step in milliseconds
+  MAX_SIMULATION_STEPS: 5, // steps run at most per tick when catching up
+  RECONNECT_GRACE_PERIOD: 20, // seconds a dropped player's slot is held for them
   ROOM_NAME: "last_player_standing",
   MAX_OBSTACLES: 12,
   DIFFICULTY_INCREASE_RATE: 0.15,
 } as const;
 
+// Multiplayer rule sets, one room type each
+export const GAME_MODES = {
+  LAST_STANDING: "last_standing", // the last player not hit wins
+  RACE: "race", // the first player to cross the winning line enough times wins
+} as const;
+
+// What happens when two players run into each other
+export const PLAYER_COLLISIONS = {
+  PUSH: "push", // they push each other apart
+  ELIMINATE: "eliminate", // the slower one is eliminated (sent back to the start in a race)
+} as const;
+
+// Server-side bot players
+export const BOTS = {
+  TARGET_ROOM_SIZE: 4, // bots fill rooms with at least one human up to this many players
+  DEFAULT_SKILL: "medium",
+  NAMES: ["Nova", "Orbit", "Pixel", "Comet", "Blitz", "Echo", "Vector", "Quasar"],
+  // REACTION_TIME: seconds between decisions, LOOK_AHEAD: seconds of obstacle movement predicted,
+  // SAFETY_MARGIN: extra clearance kept around obstacles, MISTAKE_CHANCE: odds a decision is random
+  SKILLS: {
+    easy: { REACTION_TIME: 0.35, LOOK_AHEAD: 0.4, SAFETY_MARGIN: 0, MISTAKE_CHANCE: 0.15 },
+    medium: { REACTION_TIME: 0.2, LOOK_AHEAD: 0.7, SAFETY_MARGIN: 4, MISTAKE_CHANCE: 0.05 },
+    hard: { REACTION_TIME: 0.08, LOOK_AHEAD: 1, SAFETY_MARGIN: 8, MISTAKE_CHANCE: 0 },
+  },
+} as const;
+
 // Game states
 export const STATE = {
   READY: 'ready',
@@ -72,10 +134,16 @@ export const PLAYER_STATE = {
 
 // Arena settings
 export const ARENA = {
-  INITIAL_AREA_PERCENTAGE: 100,
+  // Logical arena size in world units, identical for every client
+  WIDTH: CANVAS.BASE_WIDTH,
+  HEIGHT: CANVAS.BASE_HEIGHT,
+  // The safe zone starts as a circle around the whole arena and closes in on
+  // a smaller circle somewhere inside it every SHRINK_INTERVAL
   SHRINK_INTERVAL: 30000, // 30 seconds between shrinks
-  SHRINK_PERCENTAGE: 10, // Shrink by 10% each time
-  MIN_AREA_PERCENTAGE: 40, // Don't shrink below 40% of original size
+  SHRINK_DURATION: 10000, // milliseconds the zone takes to close in on the next circle
+  ZONE_SHRINK_RATIO: 0.7, // radius of the next zone relative to the current one
+  MIN_ZONE_RADIUS: 90, // the zone stops shrinking at this radius
+  ZONE_DAMAGE: 20, // health lost per second outside the zone
 } as const;
 
 // Key mappings
@@ -150,7 +218,11 @@ export const GAME_CONSTANTS = {
   PLAYER,
   OBSTACLE,
   PROJECTILE, // Added this
+  POWER_UPS,
   GAME,
+  GAME_MODES,
+  PLAYER_COLLISIONS,
+  BOTS,
   STATE,
   PLAYER_STATE,
   ARENA,
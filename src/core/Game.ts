@@ -49,15 +49,28 @@ interface GameConfigInterface {
 import ParticleSystem from '../entities/ParticleSystem'
 import AssetManager from '../managers/AssetManager'
 import InputManager from '../managers/InputManager'
-import ObstacleManager from '../managers/ObstacleManager'
 import UIManager from '../managers/UIManager'
 import GameConfig from './GameConfig'
 
 // Import game modes from consolidated file
-import { GameMode, MultiplayerMode, SinglePlayerMode } from './GameModes'
+import { DailyChallengeMode, GameMode, MultiplayerMode, SinglePlayerMode } from './GameModes'
+import { GAME_CONFIG } from '../constants/client-constants'
+import { ReplayViewer } from '../ui/ReplayViewer'
+import { MatchReplayViewer } from '../ui/MatchReplayViewer'
+import { DailyCalendarView } from '../ui/DailyCalendarView'
+import type { Replay } from '../../server/shared/replay'
 
 // Removed unused interfaces
 
+type GameModeName = 'singlePlayer' | 'dailyChallenge' | 'multiplayer'
+
+// How each mode is named in the loading message while switching to it
+const MODE_LABELS: Record<GameModeName, string> = {
+    singlePlayer: 'single player mode',
+    dailyChallenge: 'the daily challenge',
+    multiplayer: 'multiplayer mode',
+}
+
 export default class Game {
     // Canvas and rendering context
     canvas: HTMLCanvasElement
@@ -75,6 +88,8 @@ export default class Game {
     lastFrameTime: number
     isDesktop: boolean
     isMultiplayerMode: boolean
+    autopilotEnabled: boolean
+    ghostRaceEnabled: boolean
 
     // Core components
     config: GameConfig & GameConfigInterface
@@ -85,10 +100,12 @@ export default class Game {
 
     // Manager components
     inputManager: InputManager | null
-    obstacleManager: ObstacleManager | null
     uiManager: UIManager | null
     assetManager: AssetManager | null
     particleSystem: ParticleSystem | null
+    replayViewer: ReplayViewer | null
+    matchReplayViewer: MatchReplayViewer | null
+    dailyCalendarView: DailyCalendarView | null
 
     // Multiplayer state
     remotePlayers: Record<string, any>
@@ -101,6 +118,9 @@ export default class Game {
     frameTimeIndex: number
     frameTimeWindow: number
     performanceStats: PerformanceStats
+
+    // Resolves once init() has finished and the game loop is running
+    ready: Promise<void>
     particles?: any[] // Legacy fallback
 
     /**
@@ -179,14 +199,22 @@ export default class Game {
 
         // Initialize managers
         this.inputManager = null
-        this.obstacleManager = null
         this.uiManager = null
         this.assetManager = null
+        this.replayViewer = null
+        this.matchReplayViewer = null
+        this.dailyCalendarView = null
 
         // Multiplayer state
         this.isMultiplayerMode = false
         this.remotePlayers = {}
 
+        // Single-player autopilot (off until toggled from the menu)
+        this.autopilotEnabled = false
+
+        // Race the ghost of the best single-player run (on by default)
+        this.ghostRaceEnabled = true
+
         // Game scaling information
         this.scalingInfo = {
             widthScale: 1,
@@ -202,7 +230,7 @@ export default class Game {
         this.particleSystem = null
 
         // Initialize game
-        this.init()
+        this.ready = this.init()
     }
 
     /**
@@ -216,6 +244,11 @@ export default class Game {
             scoreElement: this.scoreElement || document.createElement('div'),
             highScoreElement:
                 this.highScoreElement || document.createElement('div'),
+            heatMeterElement: document.querySelector<HTMLElement>(
+                '.heat-meter-fill'
+            ),
+            livesElement: document.querySelector<HTMLElement>('.lives-value'),
+            powerUpsElement: document.querySelector<HTMLElement>('.power-up-timers'),
             config: this.config,
         })
 
@@ -249,13 +282,6 @@ export default class Game {
             maxParticles: 500,
         })
 
-        // Initialize obstacle manager
-        this.obstacleManager = new ObstacleManager({
-            canvas: this.canvas,
-            config: this.config,
-        })
-        this.obstacleManager.initialize()
-
         // Initialize input manager
         this.inputManager = new InputManager({
             keyMappings: this.config.getKeys() as KeyMappings,
@@ -270,8 +296,10 @@ export default class Game {
         // Set up touch controls if needed
         this.setupTouchControls()
 
-        // Initialize the default game mode (single player)
-        await this.initializeGameMode('singlePlayer')
+        // Initialize the default game mode (single player), or the daily
+        // challenge when the page was opened on it
+        const daily = new URLSearchParams(window.location.search).has(GAME_CONFIG.DAILY_PARAM)
+        await this.initializeGameMode(daily ? 'dailyChallenge' : 'singlePlayer')
 
         // Hide loading screen
         this.uiManager.hideLoading()
@@ -287,12 +315,10 @@ export default class Game {
 
     /**
      * Initialize the specified game mode
-     * @param mode - The mode to initialize ('singlePlayer' or 'multiplayer')
+     * @param mode - The mode to initialize ('singlePlayer', 'dailyChallenge' or 'multiplayer')
      * @returns A promise that resolves when the mode is initialized
      */
-    async initializeGameMode(
-        mode: 'singlePlayer' | 'multiplayer'
-    ): Promise<void> {
+    async initializeGameMode(mode: GameModeName): Promise<void> {
         // Clean up any existing game mode
         if (this.currentGameMode) {
             this.currentGameMode.dispose()
@@ -306,6 +332,10 @@ export default class Game {
                     this.currentGameMode = new MultiplayerMode(this)
                     break
 
+                case 'dailyChallenge':
+                    this.currentGameMode = new DailyChallengeMode(this)
+                    break
+
                 case 'singlePlayer':
                 default:
                     this.currentGameMode = new SinglePlayerMode(this)
@@ -330,17 +360,13 @@ export default class Game {
 
     /**
      * Switch to the specified game mode
-     * @param mode - The mode to switch to ('singlePlayer' or 'multiplayer')
+     * @param mode - The mode to switch to ('singlePlayer', 'dailyChallenge' or 'multiplayer')
      * @returns A promise that resolves when the mode switch is complete
      */
-    async switchGameMode(mode: 'singlePlayer' | 'multiplayer'): Promise<void> {
+    async switchGameMode(mode: GameModeName): Promise<void> {
         // Show loading indicator during mode switch
         if (this.uiManager) {
-            this.uiManager.showLoading(
-                `Switching to ${
-                    mode === 'multiplayer' ? 'multiplayer' : 'single player'
-                } mode...`
-            )
+            this.uiManager.showLoading(`Switching to ${MODE_LABELS[mode]}...`)
         }
 
         try {
@@ -398,14 +424,6 @@ export default class Game {
             this.background.resize()
         }
 
-        if (this.obstacleManager) {
-            // Update obstacles
-            const obstacles = this.obstacleManager.getObstacles()
-            for (const obstacle of obstacles) {
-                obstacle.calculateHeight()
-            }
-        }
-
         console.log(
             `Game resized: isDesktop=${
                 this.isDesktop
@@ -444,9 +462,10 @@ export default class Game {
             )) {
                 // Skip null buttons (like shield which we removed)
                 if (button) {
+                    // The A (missile) button fires
                     this.inputManager.registerTouchButton(
                         button as HTMLElement,
-                        direction
+                        direction === 'missile' ? 'shoot' : direction
                     )
                 }
             }
@@ -470,18 +489,122 @@ export default class Game {
         return true
     }
 
+    /**
+     * Turn the single-player autopilot on or off
+     * @param enabled - Whether the autopilot should play
+     */
+    setAutopilot(enabled: boolean): void {
+        this.autopilotEnabled = enabled
+
+        // Start playing straight away instead of waiting on the game over screen
+        if (
+            enabled &&
+            !this.isMultiplayerMode &&
+            this.gameState === this.config.STATE.GAME_OVER
+        ) {
+            if (this.currentGameMode) {
+                this.currentGameMode.completeReset()
+            } else {
+                this.completeReset()
+            }
+        }
+    }
+
+    /**
+     * Turn ghost racing on or off. Takes effect from the next run.
+     * @param enabled - Whether runs should race the best run's ghost
+     */
+    setGhostRace(enabled: boolean): void {
+        this.ghostRaceEnabled = enabled
+    }
+
+    /**
+     * Play back a single-player replay. A game in progress is paused
+     * while the replay is open.
+     * @param replay - The replay to watch
+     */
+    watchReplay(replay: Replay): void {
+        if (!this.replayViewer) {
+            this.replayViewer = new ReplayViewer()
+        }
+
+        this.replayViewer.open(replay, this.pauseForViewer())
+    }
+
+    /**
+     * Browse and watch the multiplayer rounds recorded by the server. A
+     * single-player game in progress is paused while the browser is open.
+     */
+    watchMatchReplays(): void {
+        if (!this.matchReplayViewer) {
+            this.matchReplayViewer = new MatchReplayViewer()
+        }
+
+        this.matchReplayViewer.open(this.pauseForViewer())
+    }
+
+    /**
+     * Whether today's daily challenge is the mode being played
+     */
+    isDailyChallenge(): boolean {
+        return this.currentGameMode instanceof DailyChallengeMode
+    }
+
+    /**
+     * Show the calendar of past daily challenge results. A single-player
+     * game in progress is paused while it is open.
+     */
+    showDailyCalendar(): void {
+        if (!this.dailyCalendarView) {
+            this.dailyCalendarView = new DailyCalendarView(() => {
+                if (!this.isDailyChallenge()) {
+                    this.switchGameMode('dailyChallenge')
+                }
+            })
+        }
+
+        this.dailyCalendarView.open(this.pauseForViewer())
+    }
+
+    /**
+     * Pause a single-player game in progress (multiplayer rounds carry on)
+     * @returns Callback that resumes the game once the viewer closes
+     */
+    private pauseForViewer(): () => void {
+        if (
+            this.gameState === this.config.STATE.PLAYING &&
+            !this.isMultiplayerMode
+        ) {
+            this.gameState = this.config.STATE.PAUSED
+        }
+
+        return () => {
+            if (this.gameState === this.config.STATE.PAUSED) {
+                this.gameState = this.config.STATE.PLAYING
+            }
+        }
+    }
+
     /**
      * Handle restart event from input manager
      * Can be triggered by keyboard or touch controls
      */
     handleRestartEvent(): void {
-        // Only handle restart events in specific states
+        // Only handle restart events in specific states (the active mode owns its own state)
         if (this.gameState === this.config.STATE.GAME_OVER) {
             // Complete reset from game over state
-            this.completeReset()
+            if (this.currentGameMode) {
+                this.currentGameMode.completeReset()
+            } else {
+                this.completeReset()
+            }
         } else if (this.gameState === this.config.STATE.PLAYING) {
             // In playing state, just reset positions but continue playing
-            this.resetGame()
+            if (this.currentGameMode) {
+                this.currentGameMode.reset()
+            } else {
+                this.resetGame()
+            }
         }
 
         // Trigger any UI updates needed
@@ -714,31 +837,17 @@ export default class Game {
             }
         }
 
-        // Get obstacles - with error handling
-        let obstacles: GameObject[] = []
-        try {
-            if (this.obstacleManager) {
-                obstacles = this.obstacleManager.getObstacles()
-            } else {
-                console.error('Obstacle manager not available')
-            }
-        } catch (e) {
-            console.error('Error getting obstacles:', e)
-        }
-
-        // Draw obstacles
-        for (const obstacle of obstacles) {
-            if (typeof (obstacle as any).draw === 'function') {
-                ;(obstacle as any).draw(this.ctx)
-            } else if (typeof obstacle.render === 'function') {
-                obstacle.render(this.ctx, timestamp)
-            }
+        // Draw mode-specific entities (e.g. remote players) beneath the local player
+        if (this.currentGameMode) {
+            this.currentGameMode.render(timestamp)
         }
 
         // Draw local player - with error handling
         try {
             if (this.player) {
-                this.player.draw(timestamp)
+                if (this.currentGameMode?.shouldDrawLocalPlayer() ?? true) {
+                    this.player.draw(timestamp)
+                }
             } else {
                 console.error('Player object not available for drawing')
             }
@@ -799,10 +908,6 @@ export default class Game {
             this.uiManager.updateScore(0)
         }
 
-        if (this.obstacleManager) {
-            this.obstacleManager.reset()
-        }
-
         if (this.player) {
             this.player.resetPosition()
         }
@@ -893,9 +998,6 @@ export default class Game {
             this.uiManager.updateScore(this.score)
         }
 
-        // Add more obstacles as game progresses
-        this.addObstaclesBasedOnScore()
-
         // Add visual effects at the correct screen position
         this.addScoreParticles(winningLineScreenY)
 
@@ -912,32 +1014,6 @@ export default class Game {
         this.player.resetPosition()
     }
 
-    /**
-     * Add obstacles based on current score
-     */
-    addObstaclesBasedOnScore(): void {
-        if (!this.obstacleManager) return
-
-        // Add initial obstacles for new game
-        if (this.score <= 2) {
-            this.obstacleManager.addObstacle()
-        }
-
-        // Add obstacles as score increases (difficulty progression)
-        if (this.score % 4 === 0) {
-            this.obstacleManager.addObstacle()
-        }
-
-        // On small screens, cap the max number of obstacles to avoid overwhelming
-        // the player
-        if (
-            this.scalingInfo.widthScale < 0.7 &&
-            this.obstacleManager.getObstacles().length > 7
-        ) {
-            return
-        }
-    }
-
     /**
      * Update the high score if needed
      */
@@ -1001,7 +1077,6 @@ export default class Game {
                 0
             )})`,
             `Game State: ${this.gameState}`,
-            `Obstacles: ${this.obstacleManager?.getObstacles().length || 0}`,
             `Particles: ${
                 this.particleSystem?.getStats().activeParticles || 0
             }`,
@@ -1039,6 +1114,19 @@ export default class Game {
             this.touchControls.hide()
         }
 
+        if (this.replayViewer) {
+            this.replayViewer.destroy()
+            this.replayViewer = null
+        }
+        if (this.matchReplayViewer) {
+            this.matchReplayViewer.destroy()
+            this.matchReplayViewer = null
+        }
+        if (this.dailyCalendarView) {
+            this.dailyCalendarView.destroy()
+            this.dailyCalendarView = null
+        }
+
         // Clear any remaining intervals/timeouts
         // (none currently used, but good practice for future additions)
     }
@@ -3,32 +3,83 @@
  * This file contains the base GameMode class and all its implementations.
  */
 import Player from '../entities/Player'
-import { InputState, NetworkPlayer } from '../types'
+import { ArenaStats, InputState, WorldTransform } from '../types'
+import { GAME, PLAYER, PLAYER_STATE, POWER_UPS, PROJECTILE } from '../constants/gameConstants'
+import { GAME_CONFIG, GameEvents } from '../constants/client-constants'
+import { getSprite } from '../utils/sprites'
+import { downloadTextFile, getSeedFromUrl, SCALE_FACTOR, setUrlParam, showSeedInUrl } from '../utils/utils'
+import {
+    drawObstacle,
+    drawPowerUp,
+    drawProjectile,
+    drawShield,
+    getPlayerColor,
+    isBlinkedOut,
+    POWER_UP_STYLES,
+} from '../utils/drawSimulation'
+import { AutopilotAgent } from '../ai/AutopilotAgent'
+import {
+    DEFAULT_SIMULATION_CONFIG,
+    FRAME_TIME,
+    SimulationAction,
+    SimulationConfig,
+    SimulationEvent,
+    SinglePlayerSimulation,
+} from '../../server/shared/singlePlayerSimulation'
+import { Replay, ReplayRecorder, serializeReplay } from '../../server/shared/replay'
+import {
+    ghostCrossingsAt,
+    ghostPositionAt,
+    GhostRecorder,
+    GhostRun,
+    loadGhost,
+    saveGhost,
+} from '../simulation/Ghost'
+import { randomSeed } from '../../server/shared/random'
+import { createPowerUpEffects, getHitbox, isPowerUpType } from '../../server/shared/powerUps'
+import { distanceOutsideZone } from '../../server/shared/zone'
+import type { LeaderboardMode, LeaderboardRanks } from '../../server/shared/leaderboard'
+import { submitScore } from '../utils/leaderboard'
+import { DAILY_FIELD, getDailySeed, getDayKey } from '../../server/shared/dailyChallenge'
+import { DailyCalendar, getStreaks, loadDailyCalendar, saveDailyCalendar } from '../utils/dailyChallenge'
+import type {
+    AlivePlayerInfo,
+    ObstacleSnapshot,
+    PowerUpSnapshot,
+    ProjectileSnapshot,
+    RemotePlayerSnapshot,
+} from '../managers/MultiplayerManager'
+import type { EventBus } from './EventBus'
 
 // Forward reference for the Game type to avoid circular dependencies
 interface Game {
     gameState: string
     isMultiplayerMode: boolean
+    autopilotEnabled: boolean
+    ghostRaceEnabled: boolean
     score: number
     highScore: number
     config: any
     canvas: HTMLCanvasElement
     ctx: CanvasRenderingContext2D
     player: Player
-    obstacleManager: any
+    inputManager: any
     particleSystem: any
     uiManager: any
     assetManager: any
+    responsiveManager: any
     scalingInfo: any
+    watchReplay(replay: Replay): void
 }
 
-// Common interfaces
-interface Obstacle {
-    x: number
-    y: number
-    width: number
-    height: number
-}
+// Most simulation steps run in one frame, so a long stall doesn't freeze the game catching up
+const MAX_STEPS_PER_FRAME = 6
+
+// Opacity of the ghost of the best run
+const GHOST_ALPHA = 0.35
+
+// How long the ring where two players bumped stays on screen (ms)
+const BUMP_EFFECT_DURATION = 300
 
 // interface ParticleOptions {
 //   x: number;
@@ -111,6 +162,13 @@ export abstract class GameMode {
      */
     abstract completeReset(): void
 
+    /**
+     * Whether Game.render should draw the local player
+     */
+    shouldDrawLocalPlayer(): boolean {
+        return true
+    }
+
     /**
      * Clean up resources when switching away from this mode
      */
@@ -123,6 +181,30 @@ export abstract class GameMode {
  * Implementation of single-player game mode.
  */
 export class SinglePlayerMode extends GameMode {
+    protected simulation: SinglePlayerSimulation
+    private autopilot: AutopilotAgent
+    private autopilotRestartTimer: ReturnType<typeof setTimeout> | null
+    // Seed requested in the page URL, used for the first run only
+    private urlSeed: number | null
+    // Time not yet consumed by fixed simulation steps (seconds)
+    private stepTime: number
+    // Keys held now, and keys held at any point since the last step
+    private heldInput: SimulationAction
+    private latchedInput: SimulationAction
+    private recorder: ReplayRecorder
+    // Best run so far, and the one being raced this run (when the seeds match)
+    private bestGhost: GhostRun | null
+    private racingGhost: GhostRun | null
+    private ghostRecorder: GhostRecorder
+    private ghostPlayer: Player
+    // Winning-line crossings this run, and how the latest compared with the ghost's
+    private crossings: number
+    private lastSplit: { crossing: number; time: number; delta: number | null } | null
+    // Counts runs, so a leaderboard rank arriving after a restart is dropped
+    private runNumber: number
+    // Whether the autopilot played any step of this run; such runs don't count
+    protected autopilotUsed: boolean
+
     /**
      * Creates a new SinglePlayerMode instance
      * @param game - Reference to the main game controller
@@ -130,9 +212,26 @@ export class SinglePlayerMode extends GameMode {
     constructor(game: Game) {
         super(game)
 
+        // All game rules live in the simulation; this mode feeds it input and draws it
+        this.simulation = new SinglePlayerSimulation(this.getSimulationConfig())
+        this.autopilot = new AutopilotAgent()
+        this.autopilotRestartTimer = null
+        this.urlSeed = getSeedFromUrl()
+        this.stepTime = 0
+        this.heldInput = { up: false, down: false, left: false, right: false, shoot: false }
+        this.latchedInput = { ...this.heldInput }
+        this.recorder = new ReplayRecorder()
+        this.bestGhost = loadGhost()
+        this.racingGhost = null
+        this.ghostRecorder = new GhostRecorder()
+        this.ghostPlayer = new Player(game.canvas)
+        this.crossings = 0
+        this.lastSplit = null
+        this.runNumber = 0
+        this.autopilotUsed = false
+
         // Bind methods to maintain proper 'this' context
         this.handleCollision = this.handleCollision.bind(this)
-        this.checkForWinner = this.checkForWinner.bind(this)
     }
 
     /**
@@ -154,63 +253,187 @@ export class SinglePlayerMode extends GameMode {
     /**
      * Update game state for single player mode
      */
-    update(inputState: InputState, deltaTime: number, timestamp: number): void {
+    update(inputState: InputState, deltaTime: number, _timestamp: number): void {
         // Skip if game is not in playing state
         if (this.game.gameState !== this.game.config.STATE.PLAYING) {
             return
         }
 
-        // Update player movement based on input
-        this.updatePlayerMovement(inputState)
-
-        // Update player position
-        if (this.game.player) {
-            this.game.player.move()
+        // Follow canvas resizes
+        this.syncSimulationConfig()
+        this.latchInput(inputState)
+
+        // Step the simulation at a fixed rate so every run can be replayed exactly
+        this.stepTime = Math.min(this.stepTime + deltaTime, FRAME_TIME * MAX_STEPS_PER_FRAME)
+        let done = false
+        while (this.stepTime >= FRAME_TIME && !done) {
+            this.stepTime -= FRAME_TIME
+
+            const action = this.takeAction()
+            const result = this.simulation.step(action, FRAME_TIME)
+            this.recorder.record(action)
+            this.ghostRecorder.record(result.observation, result.events)
+            this.handleEvents(result.events)
+            done = result.done
         }
 
-        // Update obstacles using scaling info for responsive sizing
-        if (this.game.obstacleManager) {
-            this.game.obstacleManager.update(
-                timestamp,
-                this.game.score,
-                this.game.scalingInfo
-            )
+        this.syncPlayer()
 
-            // Check for collisions with continuous collision detection (pass deltaTime)
-            const collision = this.game.obstacleManager.checkCollisions(
-                this.game.player,
-                deltaTime
-            )
-            if (collision) {
-                this.handleCollision(collision)
+        const state = this.simulation.getState()
+        if (this.game.score !== state.score) {
+            this.game.score = state.score
+            if (this.game.uiManager) {
+                this.game.uiManager.updateScore(this.game.score)
             }
         }
+
+        if (this.game.uiManager) {
+            this.game.uiManager.updateHeat(state.heat, state.overheated)
+            this.game.uiManager.updateLives(state.lives, this.simulation.getConfig().lives)
+            this.game.uiManager.updatePowerUps(state.effects)
+        }
+
+        if (done) {
+            this.handleCollision()
+        }
     }
 
     /**
-     * Update player movement based on input state
+     * Remember this frame's keys. A key pressed at any point between two
+     * steps counts as held on the next one, so quick taps aren't lost on
+     * screens that draw frames faster than the simulation steps.
      */
-    private updatePlayerMovement(inputState: InputState): void {
-        if (!this.game.player) return
+    private latchInput(inputState: InputState): void {
+        this.heldInput = {
+            up: inputState.up,
+            down: inputState.down,
+            left: inputState.left,
+            right: inputState.right,
+            shoot: this.game.inputManager?.isShootPressed() ?? false,
+        }
+        this.latchedInput = {
+            up: this.latchedInput.up || this.heldInput.up,
+            down: this.latchedInput.down || this.heldInput.down,
+            left: this.latchedInput.left || this.heldInput.left,
+            right: this.latchedInput.right || this.heldInput.right,
+            shoot: this.latchedInput.shoot || this.heldInput.shoot,
+        }
+    }
+
+    /**
+     * Keys for the next simulation step
+     */
+    private takeAction(): SimulationAction {
+        const latched = this.latchedInput
+        this.latchedInput = { ...this.heldInput }
+
+        // The autopilot stands in for the keyboard when it's on
+        if (this.game.autopilotEnabled) {
+            if (!this.autopilotUsed) {
+                this.autopilotUsed = true
+                this.handOverToAutopilot()
+            }
+            const keys = this.autopilot.getInputState(this.simulation.getState(), FRAME_TIME)
+            return {
+                up: keys.up,
+                down: keys.down,
+                left: keys.left,
+                right: keys.right,
+                shoot: latched.shoot,
+            }
+        }
+        return latched
+    }
 
-        // Apply input to player movement
-        this.game.player.setMovementKey('up', inputState.up)
-        this.game.player.setMovementKey('down', inputState.down)
-        this.game.player.setMovementKey('left', inputState.left)
-        this.game.player.setMovementKey('right', inputState.right)
+    /**
+     * Called when the autopilot first plays a step of the run
+     */
+    protected handOverToAutopilot(): void {
+        // Default implementation is a no-op
+    }
 
-        // Special case for up movement - make it more responsive and scale with screen size
-        if (inputState.up && this.game.player.y > 30) {
-            // Apply an immediate boost when pressing up, scaled by screen size
-            const boostAmount = 30 * this.game.scalingInfo.heightScale
-            this.game.player.y -= boostAmount * 0.1
+    /**
+     * Play the effects for what happened during a simulation step
+     */
+    private handleEvents(events: SimulationEvent[]): void {
+        for (const event of events) {
+            // Particles are drawn on the canvas, not the field
+            const at = this.toCanvas(event.x, event.y)
+            switch (event.type) {
+                case 'scored':
+                    this.recordSplit()
+                    this.addScoreParticles(at.x, at.y)
+                    if (this.game.assetManager) {
+                        this.game.assetManager.playSound('score', 0.3)
+                    }
+                    break
+
+                case 'obstacleDestroyed':
+                    if (this.game.particleSystem) {
+                        this.game.particleSystem.createBurst({
+                            x: at.x,
+                            y: at.y,
+                            count: 20,
+                            color: '#FF9800',
+                        })
+                    }
+                    if (this.game.assetManager) {
+                        this.game.assetManager.playSound('collision', 0.2)
+                    }
+                    break
+
+                case 'hit':
+                    if (this.game.particleSystem) {
+                        this.game.particleSystem.createBurst({
+                            x: at.x,
+                            y: at.y,
+                            count: 12,
+                            color: '#FF5252',
+                        })
+                    }
+                    if (this.game.assetManager) {
+                        this.game.assetManager.playSound('collision', 0.3)
+                    }
+                    if (this.game.uiManager) {
+                        this.game.uiManager.flashScreen('#ff0000', 150)
+                    }
+                    break
+
+                case 'shieldBroken':
+                    if (this.game.particleSystem) {
+                        this.game.particleSystem.createBurst({
+                            x: at.x,
+                            y: at.y,
+                            count: 16,
+                            color: POWER_UP_STYLES.shield.color,
+                        })
+                    }
+                    if (this.game.assetManager) {
+                        this.game.assetManager.playSound('collision', 0.2)
+                    }
+                    break
+
+                case 'powerUp':
+                    if (this.game.particleSystem && event.powerUp) {
+                        this.game.particleSystem.createBurst({
+                            x: at.x,
+                            y: at.y,
+                            count: 15,
+                            color: POWER_UP_STYLES[event.powerUp].color,
+                        })
+                    }
+                    if (this.game.assetManager) {
+                        this.game.assetManager.playSound('score', 0.2)
+                    }
+                    break
+            }
         }
     }
 
     /**
      * Handle collision with obstacle
      */
-    private handleCollision(_obstacle: Obstacle): void {
+    private handleCollision(): void {
         // Play collision sound
         if (this.game.assetManager) {
             this.game.assetManager.playSound('collision', 0.3)
@@ -227,110 +450,233 @@ export class SinglePlayerMode extends GameMode {
 
         // Set game state to game over
         this.game.gameState = this.game.config.STATE.GAME_OVER
+        const replay = this.recorder.finish(this.game.score)
+        const board = this.getLeaderboardMode()
+        const note = this.finishRun()
 
         // Show game over screen
         if (this.game.uiManager) {
             this.game.uiManager.showGameOver(
                 this.game.score,
                 this.game.highScore,
-                this.completeReset.bind(this)
+                this.completeReset.bind(this),
+                undefined,
+                undefined,
+                {
+                    seed: this.simulation.getState().seed,
+                    note,
+                    onWatchReplay: replay ? () => this.game.watchReplay(replay) : undefined,
+                    onDownloadReplay: replay ? () => this.downloadReplay(replay) : undefined,
+                }
             )
         }
+
+        if (board && replay && replay.score > 0) {
+            this.submitToLeaderboard(board, replay)
+        }
+
+        // Keep demos running: the autopilot starts the next game by itself
+        if (this.game.autopilotEnabled) {
+            this.autopilotRestartTimer = setTimeout(() => {
+                this.autopilotRestartTimer = null
+                if (
+                    this.game.autopilotEnabled &&
+                    this.game.gameState === this.game.config.STATE.GAME_OVER
+                ) {
+                    this.completeReset()
+                }
+            }, GAME_CONFIG.AUTOPILOT_RESTART_DELAY)
+        }
     }
 
     /**
      * Render single player mode specific elements
      */
-    render(_timestamp: number): void {
-        // Single player mode doesn't have any mode-specific rendering
-        // All rendering is handled by the main Game.render method
+    render(timestamp: number): void {
+        // Everything on the field comes from the simulation, the player included
+        const state = this.simulation.getState()
+        const ctx = this.game.ctx
+        ctx.save()
+        this.applyFieldTransform()
+
+        for (const powerUp of state.powerUps) {
+            drawPowerUp(this.game.ctx, powerUp, timestamp)
+        }
+
+        for (const obstacle of state.obstacles) {
+            drawObstacle(this.game.ctx, obstacle, timestamp)
+        }
+
+        for (const projectile of state.projectiles) {
+            drawProjectile(this.game.ctx, projectile, SCALE_FACTOR)
+        }
+
+        if (this.racingGhost) {
+            this.drawGhost(this.racingGhost, timestamp)
+            this.drawSplits(this.racingGhost)
+        }
+
+        this.game.player?.draw(timestamp)
+        ctx.restore()
     }
 
     /**
-     * Post-update operations for single player mode
+     * The player is drawn with the rest of the field in render
      */
-    postUpdate(): void {
-        // Only run these checks if the game is in PLAYING state
-        if (this.game.gameState !== this.game.config.STATE.PLAYING) return
-
-        // Check for winner
-        this.checkForWinner()
-
-        // Update high score
-        this.updateHighScore()
+    shouldDrawLocalPlayer(): boolean {
+        return false
     }
 
     /**
-     * Check if player has reached the winning line
+     * Get the transform from the simulated field to the canvas. Runs are
+     * played on the canvas itself unless a mode has a field of its own.
      */
-    checkForWinner(): void {
-        // Use EXACTLY the same calculation as Game.ts checkForWinner() and drawWinningLine()
-        const BASE_CANVAS_HEIGHT = 550
-        const scaledWinningLine = this.game.config.getWinningLine(
-            this.game.canvas.height,
-            BASE_CANVAS_HEIGHT
-        )
+    protected getFieldTransform(): WorldTransform {
+        return { scale: 1, offsetX: 0, offsetY: 0 }
+    }
 
-        // Simple check: if player's top touches or crosses the winning line
-        if (
-            this.game.player.y <= scaledWinningLine &&
-            !this.game.player.hasScored
-        ) {
-            // Mark as scored to prevent multiple scoring
-            this.game.player.hasScored = true
+    /**
+     * Draw in field units from here on
+     */
+    protected applyFieldTransform(): void {
+        const transform = this.getFieldTransform()
+        this.game.ctx.translate(transform.offsetX, transform.offsetY)
+        this.game.ctx.scale(transform.scale, transform.scale)
+    }
 
-            // Increment score
-            this.game.score++
-            if (this.game.uiManager) {
-                this.game.uiManager.updateScore(this.game.score)
-            }
+    /**
+     * Convert a point on the field to canvas coordinates
+     */
+    private toCanvas(x: number, y: number): { x: number; y: number } {
+        const transform = this.getFieldTransform()
+        return {
+            x: transform.offsetX + x * transform.scale,
+            y: transform.offsetY + y * transform.scale,
+        }
+    }
 
-            // Add more obstacles as game progresses
-            this.addObstaclesBasedOnScore()
+    /**
+     * Draw the best run's player where it was at this point of its run
+     */
+    private drawGhost(ghost: GhostRun, timestamp: number): void {
+        const state = this.simulation.getState()
+        const position = ghostPositionAt(ghost, state.time)
+        if (!position) return
+
+        this.ghostPlayer.x = position[0] * state.width
+        this.ghostPlayer.y = position[1] * state.height
+        this.ghostPlayer.width = state.player.width
+        this.ghostPlayer.height = state.player.height
+
+        const ctx = this.game.ctx
+        ctx.save()
+        ctx.globalAlpha = GHOST_ALPHA
+        this.ghostPlayer.draw(timestamp)
+        ctx.restore()
+    }
 
-            // Add visual effects
-            this.addScoreParticles(scaledWinningLine)
+    /**
+     * Compare split times with the ghost's: the latest crossing, and how far
+     * behind the run is once the ghost has made its next crossing
+     */
+    private drawSplits(ghost: GhostRun): void {
+        const state = this.simulation.getState()
+        const ctx = this.game.ctx
+        const lineHeight = Math.round(16 * SCALE_FACTOR)
+        const x = state.width - 10
+        let y = state.winningLine + lineHeight
+
+        ctx.save()
+        ctx.font = `${Math.round(14 * SCALE_FACTOR)}px Arial`
+        ctx.textAlign = 'right'
+        ctx.textBaseline = 'top'
+
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
+        ctx.fillText(`Ghost best: ${ghost.score}`, x, y)
+
+        const split = this.lastSplit
+        if (split) {
+            y += lineHeight
+            const delta = split.delta === null ? '' : ` (${formatSplitDelta(split.delta)})`
+            ctx.fillStyle = split.delta === null ? '#ffffff' : split.delta <= 0 ? '#4CAF50' : '#FF5252'
+            ctx.fillText(`Split ${split.crossing}: ${split.time.toFixed(2)}s${delta}`, x, y)
+        }
 
-            // Play score sound
-            if (this.game.assetManager) {
-                this.game.assetManager.playSound('score', 0.3)
-            }
+        if (ghostCrossingsAt(ghost, state.time) > this.crossings) {
+            y += lineHeight
+            ctx.fillStyle = '#FF5252'
+            ctx.fillText(`${formatSplitDelta(state.time - ghost.splits[this.crossings])} behind`, x, y)
+        }
+        ctx.restore()
+    }
 
-            // Reset player to bottom of screen
-            this.resetPlayerPosition()
+    /**
+     * Note a winning-line crossing and compare it with the ghost's
+     */
+    private recordSplit(): void {
+        const time = this.simulation.getState().time
+        const ghostTime = this.racingGhost?.splits[this.crossings]
+        this.crossings++
+        this.lastSplit = {
+            crossing: this.crossings,
+            time,
+            delta: ghostTime === undefined ? null : time - ghostTime,
         }
     }
 
     /**
-     * Properly reset player position and scoring flags
+     * Wrap up the run that just ended: keep it as the ghost if it beat the
+     * best one. Runs the autopilot played any part of don't count.
+     * @returns A line for the game over screen, if there's something to say
      */
-    private resetPlayerPosition(): void {
-        if (!this.game.player) return
+    protected finishRun(): string | undefined {
+        const run = this.ghostRecorder.finish(this.game.score)
+        if (!run || this.autopilotUsed) return undefined
+
+        if (run.score > 0 && run.score > (this.bestGhost?.score ?? 0)) {
+            this.bestGhost = run
+            saveGhost(run)
+            return 'New best run! Race its ghost on the same obstacles next time.'
+        }
+        return undefined
+    }
 
-        // Reset player to bottom of screen
-        this.game.player.resetPosition()
+    /**
+     * Save a replay as a file
+     */
+    private downloadReplay(replay: Replay): void {
+        downloadTextFile(
+            `ascend-avoid-${replay.seed}-${replay.score}.replay.json`,
+            serializeReplay(replay),
+            'application/json'
+        )
+    }
 
-        // CRITICAL: Reset scoring flag so player can score again
-        this.game.player.hasScored = false
+    /**
+     * Post-update operations for single player mode
+     */
+    postUpdate(): void {
+        // Only run these checks if the game is in PLAYING state
+        if (this.game.gameState !== this.game.config.STATE.PLAYING) return
 
-        // Reset last position to current position
-        this.game.player.lastY = this.game.player.y
+        // Update high score
+        this.updateHighScore()
     }
 
     /**
      * Add celebration particles when scoring
      */
-    private addScoreParticles(winningLineY: number): void {
-        if (!this.game.player || !this.game.particleSystem) return
+    private addScoreParticles(x: number, winningLineY: number): void {
+        if (!this.game.particleSystem) return
 
         // Number of particles based on score (more particles for higher scores)
-        const particleCount = Math.min(10 + this.game.score * 2, 50)
+        const particleCount = Math.min(10 + this.simulation.getState().score * 2, 50)
 
         // Apply scaling to particle sizes
         const scaleMultiplier = this.game.scalingInfo?.widthScale || 1
 
         this.game.particleSystem.createCelebration({
-            x: this.game.player.x + this.game.player.width / 2,
+            x,
             y: winningLineY, // Use exact winning line position
             count: particleCount,
             minSize: 2 * scaleMultiplier,
@@ -341,40 +687,62 @@ export class SinglePlayerMode extends GameMode {
     }
 
     /**
-     * Add obstacles based on current score
+     * Update the high score if needed
      */
-    private addObstaclesBasedOnScore(): void {
-        if (!this.game.obstacleManager) return
+    private updateHighScore(): void {
+        if (this.game.score > this.game.highScore) {
+            this.game.highScore = this.game.score
 
-        // Add initial obstacles for new game
-        if (this.game.score <= 2) {
-            this.game.obstacleManager.addObstacle()
+            if (this.game.uiManager) {
+                this.game.uiManager.updateHighScore(this.game.highScore)
+            }
         }
+    }
 
-        // Add obstacles as score increases (difficulty progression)
-        if (this.game.score % 4 === 0) {
-            this.game.obstacleManager.addObstacle()
-        }
+    /**
+     * Copy the simulated player into the Player entity that Game.render draws
+     */
+    private syncPlayer(): void {
+        if (!this.game.player) return
 
-        // On small screens, cap the max number of obstacles
-        if (
-            this.game.scalingInfo.widthScale < 0.7 &&
-            this.game.obstacleManager.getObstacles().length > 7
-        ) {
-            return
-        }
+        const { player, invulnerableTime, effects } = this.simulation.getState()
+        this.game.player.x = player.x
+        this.game.player.y = player.y
+        this.game.player.width = player.width
+        this.game.player.height = player.height
+        this.game.player.invulnerableTime = invulnerableTime
+        this.game.player.effects = { ...effects }
     }
 
     /**
-     * Update the high score if needed
+     * Simulation settings for the current canvas and device
      */
-    private updateHighScore(): void {
-        if (this.game.score > this.game.highScore) {
-            this.game.highScore = this.game.score
+    protected getSimulationConfig(): SimulationConfig {
+        return {
+            width: this.game.canvas.width,
+            height: this.game.canvas.height,
+            scale: SCALE_FACTOR,
+            obstacleMinWidthRatio: this.game.config.getObstacleMinWidthRatio(),
+            obstacleMaxWidthRatio: this.game.config.getObstacleMaxWidthRatio(),
+            maxObstacles: this.game.config.getMaxCars(),
+            lives: PLAYER.LIVES,
+            powerUpInterval: POWER_UPS.SPAWN_INTERVAL,
+        }
+    }
 
-            if (this.game.uiManager) {
-                this.game.uiManager.updateHighScore(this.game.highScore)
-            }
+    /**
+     * Pass playing field changes (canvas resizes) on to the simulation
+     */
+    private syncSimulationConfig(): void {
+        const current = this.simulation.getConfig()
+        const wanted = this.getSimulationConfig()
+        if (
+            current.width !== wanted.width ||
+            current.height !== wanted.height ||
+            current.scale !== wanted.scale
+        ) {
+            this.simulation.configure(this.getSimulationConfig())
+            this.recorder.recordConfig(this.simulation.getConfig())
         }
     }
 
@@ -382,20 +750,33 @@ export class SinglePlayerMode extends GameMode {
      * Reset game after collision
      */
     reset(): void {
-        this.game.score = 0
+        this.clearAutopilotRestart()
+        this.autopilot.reset()
+        this.runNumber++
+
+        const seed = this.chooseSeed()
+        const ghost = this.game.ghostRaceEnabled ? this.bestGhost : null
+        this.racingGhost = ghost?.seed === seed ? ghost : null
+        this.crossings = 0
+        this.lastSplit = null
+        this.autopilotUsed = false
+
+        this.simulation.configure(this.getSimulationConfig())
+        this.simulation.reset(seed)
+        this.syncPlayer()
+
+        // Record the run from its first step
+        this.recorder.start(seed, this.simulation.getConfig())
+        this.ghostRecorder.start(this.simulation.getState())
+        this.stepTime = 0
+        this.latchedInput = { ...this.heldInput }
 
+        this.game.score = 0
         if (this.game.uiManager) {
             this.game.uiManager.updateScore(0)
-        }
-
-        if (this.game.obstacleManager) {
-            this.game.obstacleManager.reset()
-        }
-
-        if (this.game.player) {
-            this.game.player.resetPosition()
-            // Reset scoring flag when game resets
-            this.game.player.hasScored = false
+            this.game.uiManager.updateHeat(0, false)
+            this.game.uiManager.updateLives(PLAYER.LIVES, PLAYER.LIVES)
+            this.game.uiManager.updatePowerUps(createPowerUpEffects())
         }
 
         // Clear particles
@@ -404,6 +785,45 @@ export class SinglePlayerMode extends GameMode {
         }
     }
 
+    /**
+     * Leaderboard the run that just ended is submitted to, if any.
+     * Runs the autopilot played any part of aren't.
+     */
+    protected getLeaderboardMode(): LeaderboardMode | null {
+        return this.autopilotUsed ? null : 'singlePlayer'
+    }
+
+    /**
+     * Submit a finished run's score with its replay and show where it placed
+     */
+    private submitToLeaderboard(mode: LeaderboardMode, replay: Replay): void {
+        const run = this.runNumber
+        submitScore(mode, replay)
+            .then((ranks: LeaderboardRanks) => {
+                if (run !== this.runNumber || this.game.gameState !== this.game.config.STATE.GAME_OVER) return
+                this.game.uiManager?.showGameOverRank(
+                    `Rank #${ranks.daily} today · #${ranks.weekly} this week · #${ranks.allTime} all time`
+                )
+            })
+            .catch((error: Error) => {
+                // Playing on without a server is fine; the score just isn't ranked
+                console.warn('Could not submit score to the leaderboard:', error)
+            })
+    }
+
+    /**
+     * Pick the seed for the next run
+     */
+    protected chooseSeed(): number {
+        // Each run gets its own seed, kept in the URL so the run can be shared or replayed.
+        // Racing the ghost replays its seed so both face the same obstacles.
+        const ghostSeed = this.game.ghostRaceEnabled ? this.bestGhost?.seed : undefined
+        const seed = this.urlSeed ?? ghostSeed ?? randomSeed()
+        this.urlSeed = null
+        showSeedInUrl(seed)
+        return seed
+    }
+
     /**
      * Complete reset after game over
      */
@@ -424,8 +844,198 @@ export class SinglePlayerMode extends GameMode {
      * Clean up resources
      */
     dispose(): void {
+        this.clearAutopilotRestart()
         console.log('SinglePlayerMode disposed')
     }
+
+    /**
+     * Cancel a pending autopilot restart
+     */
+    private clearAutopilotRestart(): void {
+        if (this.autopilotRestartTimer !== null) {
+            clearTimeout(this.autopilotRestartTimer)
+            this.autopilotRestartTimer = null
+        }
+    }
+}
+
+/**
+ * Daily challenge: everyone plays the same obstacle sequence each day, seeded
+ * from the date, on the same field and difficulty curve whatever the device. Only the
+ * first attempt of the day counts towards the calendar; later runs are practice.
+ */
+export class DailyChallengeMode extends SinglePlayerMode {
+    private calendar: DailyCalendar
+    // Day the current run belongs to
+    private day: string
+    // Whether the current run is the day's counted attempt
+    private countedAttempt: boolean
+
+    /**
+     * Creates a new DailyChallengeMode instance
+     * @param game - Reference to the main game controller
+     */
+    constructor(game: Game) {
+        super(game)
+
+        this.calendar = loadDailyCalendar()
+        this.day = getDayKey()
+        this.countedAttempt = false
+    }
+
+    /**
+     * Initialize the daily challenge mode
+     */
+    async initialize(): Promise<void> {
+        await super.initialize()
+
+        // Keep the mode in the URL so a reload comes back to it
+        setUrlParam(GAME_CONFIG.DAILY_PARAM, '')
+        console.log(`DailyChallengeMode initialized for ${this.day}`)
+    }
+
+    /**
+     * Keep the counted attempt's score current, so closing the page part way
+     * through still records it
+     */
+    postUpdate(): void {
+        super.postUpdate()
+        if (this.countedAttempt && this.calendar[this.day]?.score !== this.game.score) {
+            this.saveAttempt(false)
+        }
+    }
+
+    /**
+     * Handing over to the autopilot ends the counted attempt with the score so far
+     */
+    protected handOverToAutopilot(): void {
+        if (this.countedAttempt) {
+            this.saveAttempt(true)
+        }
+    }
+
+    /**
+     * Draw the day and whether the run counts under the winning line
+     */
+    render(timestamp: number): void {
+        super.render(timestamp)
+
+        const ctx = this.game.ctx
+        ctx.save()
+        this.applyFieldTransform()
+        ctx.font = `${Math.round(14 * SCALE_FACTOR)}px Arial`
+        ctx.textAlign = 'left'
+        ctx.textBaseline = 'top'
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)'
+        ctx.fillText(
+            `Daily ${this.day}${this.countedAttempt ? '' : ' · Practice'}`,
+            10,
+            this.simulation.getState().winningLine + Math.round(16 * SCALE_FACTOR)
+        )
+        ctx.restore()
+    }
+
+    /**
+     * Start the next run, claiming it as the day's attempt if none was made yet
+     */
+    reset(): void {
+        // Restarting part way through ends the counted attempt with the score so far
+        if (this.countedAttempt) {
+            this.saveAttempt(true)
+        }
+
+        super.reset()
+
+        // Claimed as soon as it starts, so reloading the page can't retry it.
+        // Autopilot runs never count.
+        this.countedAttempt = !this.game.autopilotEnabled && !this.calendar[this.day]
+        if (this.countedAttempt) {
+            this.saveAttempt(false)
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    dispose(): void {
+        if (this.countedAttempt) {
+            this.saveAttempt(true)
+        }
+        setUrlParam(GAME_CONFIG.DAILY_PARAM, null)
+        super.dispose()
+    }
+
+    /**
+     * Only the counted attempt goes on the daily challenge board
+     */
+    protected getLeaderboardMode(): LeaderboardMode | null {
+        return this.countedAttempt ? 'dailyChallenge' : null
+    }
+
+    /**
+     * Today's seed. Runs after midnight belong to the new day.
+     */
+    protected chooseSeed(): number {
+        this.day = getDayKey()
+        setUrlParam(GAME_CONFIG.SEED_PARAM, null)
+        return getDailySeed(this.day)
+    }
+
+    /**
+     * The daily field and the standard difficulty curve, whatever the device
+     */
+    protected getSimulationConfig(): SimulationConfig {
+        return {
+            ...super.getSimulationConfig(),
+            ...DAILY_FIELD,
+            obstacleMinWidthRatio: DEFAULT_SIMULATION_CONFIG.obstacleMinWidthRatio,
+            obstacleMaxWidthRatio: DEFAULT_SIMULATION_CONFIG.obstacleMaxWidthRatio,
+            maxObstacles: DEFAULT_SIMULATION_CONFIG.maxObstacles,
+        }
+    }
+
+    /**
+     * Fit the daily field to the canvas
+     */
+    protected getFieldTransform(): WorldTransform {
+        return this.game.responsiveManager
+            ? this.game.responsiveManager.getWorldTransform(DAILY_FIELD.width, DAILY_FIELD.height)
+            : super.getFieldTransform()
+    }
+
+    /**
+     * Record the counted attempt and report the streak
+     */
+    protected finishRun(): string | undefined {
+        if (!this.countedAttempt) {
+            return this.autopilotUsed
+                ? 'Autopilot runs don\'t count towards the daily challenge.'
+                : `Practice run: only the first attempt of ${this.day} counts.`
+        }
+
+        this.saveAttempt(true)
+        const { current, best } = getStreaks(this.calendar, this.day)
+        return `Daily challenge ${this.day} recorded. Streak: ${current} day${current === 1 ? '' : 's'} (best ${best}).`
+    }
+
+    /**
+     * Store the counted attempt's score
+     * @param finished - Whether the attempt is over
+     */
+    private saveAttempt(finished: boolean): void {
+        this.calendar[this.day] = { score: this.game.score, finished }
+        saveDailyCalendar(this.calendar)
+        if (finished) {
+            this.countedAttempt = false
+        }
+    }
+}
+
+/**
+ * Format a split time difference with its sign, e.g. "+0.42s"
+ */
+function formatSplitDelta(seconds: number): string {
+    return `${seconds > 0 ? '+' : '−'}${Math.abs(seconds).toFixed(2)}s`
 }
 
 /**
@@ -433,9 +1043,15 @@ export class SinglePlayerMode extends GameMode {
  */
 export class MultiplayerMode extends GameMode {
     private multiplayerManager: any | null
-    private remotePlayers: Record<string, NetworkPlayer>
+    private eventBus: EventBus | null
+    private eventUnsubscribers: Array<() => void>
     private lastSentInput?: InputState
     private lastInputSendTime: number
+    private lastShootTime: number
+    private spectateTargetId: string | null
+    private lastSpectateInput: InputState | null
+    // Recent bumps between players, in world units
+    private bumps: Array<{ x: number; y: number; time: number }>
     // private inputChangeCount = 0; // Currently unused
 
     /**
@@ -446,8 +1062,13 @@ export class MultiplayerMode extends GameMode {
 
         // Initialize multiplayer-specific state
         this.multiplayerManager = null
-        this.remotePlayers = {}
+        this.eventBus = null
+        this.eventUnsubscribers = []
         this.lastInputSendTime = 0
+        this.lastShootTime = -Infinity
+        this.spectateTargetId = null
+        this.lastSpectateInput = null
+        this.bumps = []
 
         // Bind methods to maintain proper 'this' context
         this.handleNetworkUpdate = this.handleNetworkUpdate.bind(this)
@@ -475,12 +1096,23 @@ export class MultiplayerMode extends GameMode {
 
             const eventBus = new EventBus()
             const assetManager = new AssetManager()
+            this.eventBus = eventBus
 
             this.multiplayerManager = new MultiplayerManager(
                 eventBus,
                 assetManager
             )
-            await this.multiplayerManager.connect()
+
+            // Join straight away when opened from an invite link or resuming a
+            // dropped session; otherwise the lobby lets the player pick a room
+            const joinCode = new URLSearchParams(window.location.search).get(
+                GAME_CONFIG.JOIN_CODE_PARAM
+            )
+            if (joinCode) {
+                await this.multiplayerManager.connect({ roomId: joinCode })
+            } else if (this.multiplayerManager.canResumeSession()) {
+                await this.multiplayerManager.connect()
+            }
 
             // Set up multiplayer event handlers
             this.setupEventHandlers()
@@ -503,28 +1135,114 @@ export class MultiplayerMode extends GameMode {
         console.log('✅ Setting up multiplayer event handlers...')
 
         // The MultiplayerManager uses EventBus, not direct callbacks
-        // For now, we'll implement basic event handling
         // TODO: Implement proper EventBus listeners for:
         // - GameEvents.MULTIPLAYER_STATE_UPDATE
         // - GameEvents.PLAYER_JOINED  
         // - GameEvents.PLAYER_LEFT
         // - GameEvents.MULTIPLAYER_ERROR
+        if (this.eventBus) {
+            this.eventUnsubscribers.push(
+                this.eventBus.on(GameEvents.PROJECTILE_HIT, (hit: any) =>
+                    this.handleProjectileHit(hit)
+                ),
+                this.eventBus.on(GameEvents.PLAYER_BUMP, (bump: any) =>
+                    this.handlePlayerBump(bump)
+                ),
+                this.eventBus.on(GameEvents.POWER_UP, (pickup: any) =>
+                    this.handlePowerUp(pickup)
+                )
+            )
+        }
 
         console.log('✅ Multiplayer event handlers setup complete')
     }
 
 
+    /**
+     * Show a burst where a projectile hit an obstacle or a player
+     */
+    private handleProjectileHit(hit: {
+        type: 'obstacle' | 'player'
+        x: number
+        y: number
+    }): void {
+        if (!this.game.particleSystem) return
+
+        const transform = this.getWorldTransform()
+        this.game.particleSystem.createBurst({
+            x: transform.offsetX + hit.x * transform.scale,
+            y: transform.offsetY + hit.y * transform.scale,
+            count: hit.type === 'obstacle' ? 20 : 10,
+            color: hit.type === 'obstacle' ? '#FF9800' : PROJECTILE.COLOR,
+        })
+    }
+
+    /**
+     * Show two players bumping into each other. The local player also gets a
+     * flash: white for a shove, red when the crash knocked them out.
+     */
+    private handlePlayerBump(bump: {
+        playerIds: [string, string]
+        loserId: string | null
+        x: number
+        y: number
+    }): void {
+        this.bumps.push({ x: bump.x, y: bump.y, time: performance.now() })
+
+        if (this.game.particleSystem) {
+            const transform = this.getWorldTransform()
+            this.game.particleSystem.createBurst({
+                x: transform.offsetX + bump.x * transform.scale,
+                y: transform.offsetY + bump.y * transform.scale,
+                count: bump.loserId ? 16 : 6,
+                color: bump.loserId ? '#FF5252' : 'white',
+            })
+        }
+
+        const localId = this.multiplayerManager?.getLocalPlayer()?.sessionId
+        if (localId && bump.playerIds.includes(localId) && this.game.uiManager) {
+            this.game.uiManager.flashScreen(
+                bump.loserId === localId ? '#ff0000' : '#ffffff',
+                100
+            )
+        }
+    }
+
+    /**
+     * Show a burst in the power-up's color where it was collected, with a
+     * sound when the local player got it
+     */
+    private handlePowerUp(pickup: {
+        playerId: string
+        type: string
+        x: number
+        y: number
+    }): void {
+        if (!isPowerUpType(pickup.type)) return
+
+        if (this.game.particleSystem) {
+            const transform = this.getWorldTransform()
+            this.game.particleSystem.createBurst({
+                x: transform.offsetX + pickup.x * transform.scale,
+                y: transform.offsetY + pickup.y * transform.scale,
+                count: 15,
+                color: POWER_UP_STYLES[pickup.type].color,
+            })
+        }
+
+        const localId = this.multiplayerManager?.getLocalPlayer()?.sessionId
+        if (pickup.playerId === localId && this.game.assetManager) {
+            this.game.assetManager.playSound('score', 0.2)
+        }
+    }
+
     /**
      * Handle network state update from the server
      */
     private handleNetworkUpdate(gameState: any): void {
         // Update local game state based on server state
+        // (remote players are read from the manager's snapshot buffer)
         this.game.gameState = gameState.gameState
-
-        // Update remote players
-        if (this.multiplayerManager) {
-            this.remotePlayers = this.multiplayerManager.getRemotePlayers()
-        }
     }
 
     /**
@@ -532,7 +1250,7 @@ export class MultiplayerMode extends GameMode {
      */
     update(
         inputState: InputState,
-        _deltaTime: number,
+        deltaTime: number,
         timestamp: number
     ): void {
         // Skip if game is not in playing state
@@ -540,28 +1258,101 @@ export class MultiplayerMode extends GameMode {
             return
         }
 
+        // Eliminated players and late joiners watch the round instead of playing
+        if (this.multiplayerManager?.isSpectating()) {
+            this.updateSpectating(inputState)
+            return
+        }
+        this.spectateTargetId = null
+        this.lastSpectateInput = null
+
         // Get local player from multiplayer manager
         const localPlayer = this.multiplayerManager?.getLocalPlayer()
 
         // Update local player based on input
         if (localPlayer && this.game.player) {
-            // Apply input to player (visual representation only)
-            this.updatePlayerMovement(inputState)
+            // Network optimization: Only send inputs when they change or periodically
+            this.throttledInputSend(inputState, deltaTime, timestamp)
+
+            // Request a shot while the shoot key is held; the server has the final say
+            if (
+                this.game.inputManager?.isShootPressed() &&
+                timestamp - this.lastShootTime >= PROJECTILE.FIRE_RATE
+            ) {
+                this.multiplayerManager.shoot()
+                this.lastShootTime = timestamp
+            }
 
-            // Move local player - this will be overridden by server updates
-            // but provides immediate visual feedback
-            this.game.player.move()
+            // Show the predicted position: the server's position plus the inputs
+            // it hasn't acknowledged yet, so movement responds immediately
+            const predicted = this.multiplayerManager.getPredictedLocalPlayer()
+            if (predicted) {
+                const transform = this.getWorldTransform()
+                this.game.player.x = transform.offsetX + predicted.x * transform.scale
+                this.game.player.y = transform.offsetY + predicted.y * transform.scale
+                this.game.player.width = localPlayer.width * transform.scale
+                this.game.player.height = localPlayer.height * transform.scale
+            }
 
-            // Network optimization: Only send inputs when they change or periodically
-            this.throttledInputSend(inputState, timestamp)
+            // Crossing the winning line is scored by the server
+            if (this.game.score !== localPlayer.score) {
+                this.game.score = localPlayer.score
+                if (this.game.uiManager) {
+                    this.game.uiManager.updateScore(this.game.score)
+                }
+            }
+
+            // Blink while shielded after a hit, and show the lives left and the power-ups running
+            this.game.player.invulnerableTime = localPlayer.invulnerableTime ?? 0
+            this.game.player.effects = {
+                shield: localPlayer.shield ?? false,
+                slowMotionTime: localPlayer.slowMotionTime ?? 0,
+                shrinkTime: localPlayer.shrinkTime ?? 0,
+                doublePointsTime: localPlayer.doublePointsTime ?? 0,
+            }
+            if (this.game.uiManager) {
+                this.game.uiManager.updateLives(localPlayer.lives ?? PLAYER.LIVES, PLAYER.LIVES)
+                this.game.uiManager.updatePowerUps(this.game.player.effects)
+            }
         }
     }
 
+    /**
+     * Choose which surviving player to follow. Left/right cycle through the
+     * alive players; if the followed player is eliminated, move on to the next.
+     */
+    private updateSpectating(inputState: InputState): void {
+        const alive: AlivePlayerInfo[] = this.multiplayerManager.getAlivePlayers()
+        if (alive.length === 0) {
+            this.spectateTargetId = null
+            return
+        }
+
+        let index = alive.findIndex(
+            (player) => player.sessionId === this.spectateTargetId
+        )
+        if (index === -1) {
+            index = 0
+        }
+
+        // Only react to a fresh key press, not to the key being held
+        const previous = this.lastSpectateInput
+        if (inputState.right && !previous?.right) {
+            index = (index + 1) % alive.length
+        } else if (inputState.left && !previous?.left) {
+            index = (index - 1 + alive.length) % alive.length
+        }
+
+        this.spectateTargetId = alive[index].sessionId
+        this.lastSpectateInput = { ...inputState }
+    }
+
     /**
      * Throttled input sending to reduce network traffic
      */
     private throttledInputSend(
         currentInput: InputState,
+        deltaTime: number,
         timestamp: number
     ): void {
         // Initialize last input values if not set
@@ -585,12 +1376,14 @@ export class MultiplayerMode extends GameMode {
         // Time since last send
         const timeSinceLastSend = timestamp - this.lastInputSendTime
 
-        // Send if changed or heartbeat interval elapsed (100ms)
-        if (hasChanged || timeSinceLastSend > 100) {
-            // Send to server
-            if (this.multiplayerManager) {
-                this.multiplayerManager.sendInput(currentInput)
-            }
+        if (!this.multiplayerManager) return
+
+        // Accumulate this frame into the open input command
+        this.multiplayerManager.queueInput(currentInput, deltaTime)
+
+        // Send if changed or heartbeat interval elapsed (one server tick)
+        if (hasChanged || timeSinceLastSend > GAME.STATE_UPDATE_RATE) {
+            this.multiplayerManager.sendInput()
 
             // Update tracking values
             this.lastSentInput = { ...currentInput }
@@ -599,93 +1392,344 @@ export class MultiplayerMode extends GameMode {
     }
 
     /**
-     * Update player movement based on input state
+     * Render multiplayer mode specific elements
      */
-    private updatePlayerMovement(inputState: InputState): void {
-        if (!this.game.player) return
+    render(timestamp: number): void {
+        // Render the server's obstacles
+        const obstacles: Record<string, ObstacleSnapshot> =
+            this.multiplayerManager?.getInterpolatedObstacles(timestamp) ?? {}
+        for (const id in obstacles) {
+            if (obstacles[id].active) {
+                this.drawServerObstacle(obstacles[id], timestamp)
+            }
+        }
+
+        // Power-ups don't move, so they're drawn straight from the state
+        for (const powerUp of this.multiplayerManager?.getPowerUps() ?? []) {
+            this.drawServerPowerUp(powerUp, timestamp)
+        }
+
+        // Render remote players from the snapshot buffer so they move smoothly
+        // between server updates
+        const remotePlayers: Record<string, RemotePlayerSnapshot> =
+            this.multiplayerManager?.getInterpolatedRemotePlayers(timestamp) ?? {}
+        for (const id in remotePlayers) {
+            // Eliminated players and spectators aren't part of the round
+            if (remotePlayers[id].state !== PLAYER_STATE.ALIVE) continue
+
+            this.drawRemotePlayer(remotePlayers[id], timestamp)
+            if (id === this.spectateTargetId) {
+                this.drawSpectateMarker(remotePlayers[id], timestamp)
+            }
+        }
+
+        this.drawBumps(timestamp)
 
-        // Apply input to player movement
-        this.game.player.setMovementKey('up', inputState.up)
-        this.game.player.setMovementKey('down', inputState.down)
-        this.game.player.setMovementKey('left', inputState.left)
-        this.game.player.setMovementKey('right', inputState.right)
+        // Render projectiles from every player
+        const projectiles: Record<string, ProjectileSnapshot> =
+            this.multiplayerManager?.getInterpolatedProjectiles(timestamp) ?? {}
+        for (const id in projectiles) {
+            this.drawProjectile(projectiles[id])
+        }
+
+        // Outline the local player while stunned
+        const localPlayer = this.multiplayerManager?.getLocalPlayer()
+        if (localPlayer && localPlayer.stunTime > 0 && this.game.player) {
+            this.drawStunOutline(
+                this.game.player.x,
+                this.game.player.y,
+                this.game.player.width,
+                this.game.player.height,
+                timestamp
+            )
+        }
+        if (localPlayer && this.game.player && this.shouldDrawLocalPlayer()) {
+            this.drawHealthBar(
+                localPlayer.health,
+                this.game.player.x,
+                this.game.player.y,
+                this.game.player.width
+            )
+        }
+
+        // Render any multiplayer-specific UI elements
+        this.renderMultiplayerUI(timestamp)
+
+        if (this.multiplayerManager?.isSpectating()) {
+            this.drawSpectatorOverlay()
+        }
     }
 
     /**
-     * Render multiplayer mode specific elements
+     * Hide the local player while spectating
+     */
+    shouldDrawLocalPlayer(): boolean {
+        return !this.multiplayerManager?.isSpectating()
+    }
+
+    /**
+     * Draw a pulsing ring around the player being followed
      */
-    render(_timestamp: number): void {
-        // Render remote players
-        for (const id in this.remotePlayers) {
-            const remotePlayer = this.remotePlayers[id]
+    private drawSpectateMarker(
+        playerData: RemotePlayerSnapshot,
+        timestamp: number
+    ): void {
+        const transform = this.getWorldTransform()
+        const width = playerData.width * transform.scale
+        const height = playerData.height * transform.scale
+        const centerX = transform.offsetX + playerData.x * transform.scale + width / 2
+        const centerY = transform.offsetY + playerData.y * transform.scale + height / 2
+        const radius = Math.max(width, height) * (0.9 + 0.1 * Math.sin(timestamp * 0.005))
+
+        this.game.ctx.save()
+        this.game.ctx.strokeStyle = 'white'
+        this.game.ctx.lineWidth = 2
+        this.game.ctx.beginPath()
+        this.game.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2)
+        this.game.ctx.stroke()
+        this.game.ctx.restore()
+    }
 
-            // Draw remote player - implementation depends on your player visualization
-            if (remotePlayer.x !== undefined && remotePlayer.y !== undefined) {
-                // Draw remote player at position
-                this.drawRemotePlayer(remotePlayer)
-            }
-        }
+    /**
+     * Draw the spectator panel: who is being followed and who is still alive
+     */
+    private drawSpectatorOverlay(): void {
+        const ctx = this.game.ctx
+        const alive: AlivePlayerInfo[] = this.multiplayerManager.getAlivePlayers()
+        const lineHeight = 16
+        const panelWidth = 180
+        const panelHeight = 70 + alive.length * lineHeight
+        const x = 10
+        const y = 30
+
+        ctx.save()
+        ctx.fillStyle = 'rgba(10, 25, 47, 0.75)'
+        ctx.fillRect(x, y, panelWidth, panelHeight)
+
+        ctx.textAlign = 'left'
+        ctx.fillStyle = '#64FFDA'
+        ctx.font = 'bold 14px Arial'
+        ctx.fillText('Spectating', x + 10, y + 20)
+
+        ctx.fillStyle = 'white'
+        ctx.font = '11px Arial'
+        ctx.fillText('←/→ to switch player', x + 10, y + 36)
+
+        ctx.font = '12px Arial'
+        ctx.fillText(`Alive (${alive.length}):`, x + 10, y + 54)
+
+        alive.forEach((player, i) => {
+            const rowY = y + 54 + (i + 1) * lineHeight
+            const followed = player.sessionId === this.spectateTargetId
+            ctx.fillStyle = getPlayerColor(player.playerIndex)
+            ctx.fillRect(x + 10, rowY - 9, 10, 10)
+            ctx.fillStyle = followed ? '#64FFDA' : 'white'
+            ctx.font = followed ? 'bold 12px Arial' : '12px Arial'
+            ctx.fillText(player.name, x + 26, rowY)
+        })
 
-        // Render any multiplayer-specific UI elements
-        this.renderMultiplayerUI()
+        ctx.restore()
+
+        // Let the player know they are queued for the next round
+        ctx.save()
+        ctx.fillStyle = 'white'
+        ctx.font = '14px Arial'
+        ctx.textAlign = 'center'
+        ctx.fillText(
+            "You'll join the next round",
+            this.game.canvas.width / 2,
+            this.game.canvas.height - 20
+        )
+        ctx.restore()
     }
 
     /**
      * Draw a remote player
      */
-    private drawRemotePlayer(playerData: NetworkPlayer): void {
+    private drawRemotePlayer(
+        playerData: RemotePlayerSnapshot,
+        timestamp: number
+    ): void {
         if (!this.game.ctx) return
 
+        // Map the server's world coordinates onto this canvas
+        const transform = this.getWorldTransform()
+        const x = transform.offsetX + playerData.x * transform.scale
+        const y = transform.offsetY + playerData.y * transform.scale
+        const width = playerData.width * transform.scale
+        const height = playerData.height * transform.scale
+
         // Get player color based on index or other property
-        const color = this.getPlayerColor(playerData.index || 0)
+        const color = getPlayerColor(playerData.playerIndex || 0)
+
+        // Draw remote player with distinct color (faded while their connection
+        // is down, blinking while they're shielded after a hit, smaller while shrunk)
+        if (!isBlinkedOut(playerData.invulnerableTime, timestamp)) {
+            const body = getHitbox({ x, y, width, height }, playerData)
+            this.game.ctx.save()
+            if (!playerData.connected) {
+                this.game.ctx.globalAlpha = 0.4
+            }
+            this.game.ctx.fillStyle = color
+            this.game.ctx.fillRect(body.x, body.y, body.width, body.height)
+            this.game.ctx.restore()
+        }
+        if (playerData.shield) {
+            drawShield(this.game.ctx, { x, y, width, height }, timestamp)
+        }
 
-        // Draw remote player with distinct color
-        this.game.ctx.fillStyle = color
-        this.game.ctx.fillRect(
-            playerData.x,
-            playerData.y,
-            this.game.player ? this.game.player.width : 30,
-            this.game.player ? this.game.player.height : 30
-        )
+        if (playerData.stunTime > 0) {
+            this.drawStunOutline(x, y, width, height, timestamp)
+        }
 
-        // Draw player name above
+        // Draw player name above, and their health above that once they've lost some
         if (playerData.name) {
             this.game.ctx.fillStyle = 'white'
             this.game.ctx.font = '12px Arial'
             this.game.ctx.textAlign = 'center'
-            this.game.ctx.fillText(
-                playerData.name,
-                playerData.x +
-                    (this.game.player ? this.game.player.width / 2 : 15),
-                playerData.y - 5
+            this.game.ctx.fillText(playerData.name, x + width / 2, y - 5)
+        }
+        this.drawHealthBar(playerData.health, x, y - 14, width)
+    }
+
+    /**
+     * Draw a health bar just above a player (screen coordinates), unless
+     * they're at full health
+     */
+    private drawHealthBar(health: number, x: number, y: number, width: number): void {
+        if (!(health < PLAYER.MAX_HEALTH)) return
+
+        const fraction = Math.max(0, health) / PLAYER.MAX_HEALTH
+        this.game.ctx.save()
+        this.game.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+        this.game.ctx.fillRect(x, y - 6, width, 4)
+        this.game.ctx.fillStyle = fraction > 0.3 ? '#4CAF50' : '#F44336'
+        this.game.ctx.fillRect(x, y - 6, width * fraction, 4)
+        this.game.ctx.restore()
+    }
+
+    /**
+     * Draw a ring growing out of each recent bump between players
+     */
+    private drawBumps(timestamp: number): void {
+        this.bumps = this.bumps.filter(
+            (bump) => timestamp - bump.time < BUMP_EFFECT_DURATION
+        )
+        if (this.bumps.length === 0) return
+
+        const ctx = this.game.ctx
+        const transform = this.getWorldTransform()
+        ctx.save()
+        ctx.strokeStyle = 'white'
+        ctx.lineWidth = 2
+        for (const bump of this.bumps) {
+            const progress = Math.max(0, timestamp - bump.time) / BUMP_EFFECT_DURATION
+            ctx.globalAlpha = 1 - progress
+            ctx.beginPath()
+            ctx.arc(
+                transform.offsetX + bump.x * transform.scale,
+                transform.offsetY + bump.y * transform.scale,
+                (8 + 24 * progress) * transform.scale,
+                0,
+                Math.PI * 2
             )
+            ctx.stroke()
         }
+        ctx.restore()
+    }
+
+    /**
+     * Draw a projectile simulated by the server
+     */
+    private drawProjectile(projectile: ProjectileSnapshot): void {
+        if (!this.game.ctx) return
+
+        const transform = this.getWorldTransform()
+        this.game.ctx.fillStyle = PROJECTILE.COLOR
+        this.game.ctx.fillRect(
+            transform.offsetX + projectile.x * transform.scale,
+            transform.offsetY + projectile.y * transform.scale,
+            projectile.width * transform.scale,
+            projectile.height * transform.scale
+        )
+    }
+
+    /**
+     * Draw a flashing outline around a stunned player (screen coordinates)
+     */
+    private drawStunOutline(
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        timestamp: number
+    ): void {
+        this.game.ctx.save()
+        this.game.ctx.globalAlpha = 0.5 + 0.5 * Math.sin(timestamp * 0.02)
+        this.game.ctx.strokeStyle = '#FFEB3B'
+        this.game.ctx.lineWidth = 2
+        this.game.ctx.strokeRect(x - 2, y - 2, width + 4, height + 4)
+        this.game.ctx.restore()
+    }
+
+    /**
+     * Draw an obstacle simulated by the server
+     */
+    private drawServerObstacle(obstacle: ObstacleSnapshot, timestamp: number): void {
+        if (!this.game.ctx) return
+
+        const transform = this.getWorldTransform()
+        const sprite = getSprite('obstacle', obstacle.variant, timestamp)
+        this.game.ctx.drawImage(
+            sprite,
+            transform.offsetX + obstacle.x * transform.scale,
+            transform.offsetY + obstacle.y * transform.scale,
+            obstacle.width * transform.scale,
+            obstacle.height * transform.scale
+        )
     }
 
     /**
-     * Get player color based on index
+     * Draw a power-up pickup from the server state
      */
-    private getPlayerColor(index: number): string {
-        // Define a set of distinct colors for players
-        const colors = [
-            '#FF5252', // Red
-            '#FF9800', // Orange
-            '#FFEB3B', // Yellow
-            '#4CAF50', // Green
-            '#2196F3', // Blue
-            '#9C27B0', // Purple
-            '#E91E63', // Pink
-        ]
+    private drawServerPowerUp(powerUp: PowerUpSnapshot, timestamp: number): void {
+        if (!this.game.ctx) return
 
-        return colors[index % colors.length]
+        const transform = this.getWorldTransform()
+        drawPowerUp(
+            this.game.ctx,
+            {
+                x: transform.offsetX + powerUp.x * transform.scale,
+                y: transform.offsetY + powerUp.y * transform.scale,
+                width: powerUp.width * transform.scale,
+                height: powerUp.height * transform.scale,
+                type: powerUp.type,
+            },
+            timestamp
+        )
+    }
+
+    /**
+     * Get the transform from server world units to canvas pixels
+     */
+    private getWorldTransform(): WorldTransform {
+        return this.game.responsiveManager
+            ? this.game.responsiveManager.getWorldTransform()
+            : { scale: 1, offsetX: 0, offsetY: 0 }
     }
 
     /**
      * Render multiplayer-specific UI elements
      */
-    private renderMultiplayerUI(): void {
+    private renderMultiplayerUI(timestamp: number): void {
         if (!this.game.ctx || !this.multiplayerManager) return
 
+        // Draw the safe zone under the rest of the UI
+        const arenaStats: ArenaStats | null = this.multiplayerManager.getArenaStats()
+        if (arenaStats) {
+            this.drawArenaBoundary(arenaStats, timestamp)
+        }
+
         // Draw player count
         const totalPlayers = this.multiplayerManager.getTotalPlayers()
         const alivePlayers = this.multiplayerManager.getAliveCount()
@@ -699,34 +1743,133 @@ export class MultiplayerMode extends GameMode {
             20
         )
 
-        // Draw arena boundary if applicable
-        const arenaStats = this.multiplayerManager.getArenaStats()
-        if (arenaStats && arenaStats.areaPercentage < 100) {
-            // Draw shrinking arena boundary
-            this.drawArenaBoundary(arenaStats)
+        // Races are first to a number of crossings
+        const raceTarget: number | null = this.multiplayerManager.getRaceTarget()
+        if (raceTarget !== null) {
+            this.game.ctx.fillText(
+                `First to ${raceTarget}`,
+                this.game.canvas.width - 10,
+                38
+            )
+        }
+
+        // Our connection dropped; the server is holding our slot
+        if (this.multiplayerManager.isReconnecting()) {
+            this.game.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
+            this.game.ctx.fillRect(
+                0,
+                0,
+                this.game.canvas.width,
+                this.game.canvas.height
+            )
+            this.game.ctx.fillStyle = 'white'
+            this.game.ctx.font = '20px Arial'
+            this.game.ctx.textAlign = 'center'
+            this.game.ctx.fillText(
+                'Reconnecting…',
+                this.game.canvas.width / 2,
+                this.game.canvas.height / 2
+            )
         }
     }
 
     /**
-     * Draw arena boundary for battle royale mode
+     * Draw the safe zone: the area outside it tinted red, the current edge,
+     * the circle it closes in on next with a countdown to the shrink, and a
+     * vignette while the local player is outside it
      */
-    private drawArenaBoundary(arenaStats: any): void {
-        if (!this.game.ctx) return
+    private drawArenaBoundary(arenaStats: ArenaStats, timestamp: number): void {
+        const { zone, nextZone, nextShrinkTime, elapsedTime } = arenaStats
+
+        // Until the first shrink is scheduled (and all race long) the zone is the whole arena
+        const shrinking = nextShrinkTime > 0
+        if (!shrinking && zone.radius >= Math.hypot(arenaStats.width, arenaStats.height) / 2) return
+
+        const ctx = this.game.ctx
+        const transform = this.getWorldTransform()
+        const toScreenX = (x: number) => transform.offsetX + x * transform.scale
+        const toScreenY = (y: number) => transform.offsetY + y * transform.scale
+
+        ctx.save()
+
+        // Tint everything in the arena outside the zone
+        ctx.fillStyle = 'rgba(255, 0, 0, 0.15)'
+        ctx.beginPath()
+        ctx.rect(
+            toScreenX(0),
+            toScreenY(0),
+            arenaStats.width * transform.scale,
+            arenaStats.height * transform.scale
+        )
+        ctx.arc(toScreenX(zone.x), toScreenY(zone.y), zone.radius * transform.scale, 0, Math.PI * 2)
+        ctx.fill('evenodd')
+
+        ctx.strokeStyle = 'rgba(255, 0, 0, 0.7)'
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        ctx.arc(toScreenX(zone.x), toScreenY(zone.y), zone.radius * transform.scale, 0, Math.PI * 2)
+        ctx.stroke()
+
+        if (shrinking) {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'
+            ctx.setLineDash([8, 6])
+            ctx.beginPath()
+            ctx.arc(
+                toScreenX(nextZone.x),
+                toScreenY(nextZone.y),
+                nextZone.radius * transform.scale,
+                0,
+                Math.PI * 2
+            )
+            ctx.stroke()
+            ctx.setLineDash([])
+
+            const secondsLeft = Math.ceil(nextShrinkTime - elapsedTime)
+            ctx.fillStyle = secondsLeft > 0 ? 'white' : '#FF5252'
+            ctx.font = 'bold 14px Arial'
+            ctx.textAlign = 'center'
+            ctx.fillText(
+                secondsLeft > 0 ? `Zone shrinks in ${secondsLeft}s` : 'Zone closing!',
+                this.game.canvas.width / 2,
+                20
+            )
+        }
 
-        // Calculate arena dimensions based on percentage
-        const margin = (100 - arenaStats.areaPercentage) / 100
-        const marginX = this.game.canvas.width * (margin / 2)
-        const marginY = this.game.canvas.height * (margin / 2)
+        ctx.restore()
 
-        // Draw arena boundary
-        this.game.ctx.strokeStyle = 'rgba(255, 0, 0, 0.7)'
-        this.game.ctx.lineWidth = 2
-        this.game.ctx.strokeRect(
-            marginX,
-            marginY,
-            this.game.canvas.width - marginX * 2,
-            this.game.canvas.height - marginY * 2
+        // Warn a player losing health outside the zone with a pulsing red vignette
+        const localPlayer = this.multiplayerManager?.getLocalPlayer()
+        if (
+            localPlayer &&
+            localPlayer.state === PLAYER_STATE.ALIVE &&
+            distanceOutsideZone(localPlayer, zone) > 0
+        ) {
+            this.drawDangerVignette(timestamp)
+        }
+    }
+
+    /**
+     * Redden the edges of the screen
+     */
+    private drawDangerVignette(timestamp: number): void {
+        const ctx = this.game.ctx
+        const { width, height } = this.game.canvas
+        const alpha = 0.35 + 0.15 * Math.sin(timestamp * 0.006)
+        const gradient = ctx.createRadialGradient(
+            width / 2,
+            height / 2,
+            Math.min(width, height) * 0.3,
+            width / 2,
+            height / 2,
+            Math.hypot(width, height) / 2
         )
+        gradient.addColorStop(0, 'rgba(255, 0, 0, 0)')
+        gradient.addColorStop(1, `rgba(255, 0, 0, ${alpha})`)
+
+        ctx.save()
+        ctx.fillStyle = gradient
+        ctx.fillRect(0, 0, width, height)
+        ctx.restore()
     }
 
     /**
@@ -779,13 +1922,17 @@ export class MultiplayerMode extends GameMode {
      * Clean up resources
      */
     dispose(): void {
+        // Stop listening to multiplayer events
+        this.eventUnsubscribers.forEach(unsubscribe => unsubscribe())
+        this.eventUnsubscribers = []
+        this.eventBus = null
+
         // Disconnect from server
         if (this.multiplayerManager) {
             this.multiplayerManager.disconnect()
             this.multiplayerManager = null
         }
 
-        this.remotePlayers = {}
         console.log('MultiplayerMode disposed')
     }
 }
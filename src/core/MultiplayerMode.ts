@@ -4,7 +4,7 @@
  * Now with TypeScript support.
  */
 import GameMode from './GameMode';
-import { InputState, NetworkPlayer } from '../types';
+import { ArenaStats, InputState, NetworkPlayer } from '../types';
 import { GameEvents } from '../constants/client-constants';
 
 interface GameState {
@@ -14,12 +14,6 @@ interface GameState {
   arenaHeight?: number;
 }
 
-interface ArenaStats {
-  areaPercentage: number;
-  shrinkStart?: number;
-  shrinkEnd?: number;
-}
-
 export default class MultiplayerMode extends GameMode {
   private multiplayerManager: any | null;
   private eventBus: any | null;
@@ -387,8 +381,8 @@ export default class MultiplayerMode extends GameMode {
     
     // Draw arena boundary if applicable
     const arenaStats = this.multiplayerManager.getArenaStats();
-    if (arenaStats && arenaStats.areaPercentage < 100) {
-      // Draw shrinking arena boundary
+    if (arenaStats && arenaStats.zone.radius < Math.hypot(arenaStats.width, arenaStats.height) / 2) {
+      // Draw the shrinking safe zone
       this.drawArenaBoundary(arenaStats);
     }
   }
@@ -400,20 +394,16 @@ export default class MultiplayerMode extends GameMode {
   private drawArenaBoundary(arenaStats: ArenaStats): void {
     if (!this.game.ctx) return;
     
-    // Calculate arena dimensions based on percentage
-    const margin = (100 - arenaStats.areaPercentage) / 100;
-    const marginX = this.game.canvas.width * (margin / 2);
-    const marginY = this.game.canvas.height * (margin / 2);
+    // Map the zone circle from arena units onto the canvas
+    const { zone } = arenaStats;
+    const scale = this.game.canvas.width / arenaStats.width;
     
     // Draw arena boundary
     this.game.ctx.strokeStyle = 'rgba(255, 0, 0, 0.7)';
     this.game.ctx.lineWidth = 2;
-    this.game.ctx.strokeRect(
-      marginX,
-      marginY,
-      this.game.canvas.width - marginX * 2,
-      this.game.canvas.height - marginY * 2
-    );
+    this.game.ctx.beginPath();
+    this.game.ctx.arc(zone.x * scale, zone.y * scale, zone.radius * scale, 0, Math.PI * 2);
+    this.game.ctx.stroke();
   }
   
   /**
@@ -4,6 +4,8 @@
  */
 import { GAME, PLAYER } from '../constants/gameConstants';
 import { getSprite } from '../utils/sprites';
+import { drawShield, isBlinkedOut } from '../utils/drawSimulation';
+import { createPowerUpEffects, getHitbox, PowerUpEffects } from '../../server/shared/powerUps';
 import { SCALE_FACTOR, BASE_CANVAS_WIDTH, BASE_CANVAS_HEIGHT } from '../utils/utils';
 import { GameObject, InputState } from '../types';
 
@@ -32,6 +34,12 @@ export default class Player implements GameObject {
   lastY: number = 0;  // Previous Y position for swept collision detection
   hasScored: boolean = false;  // Flag to prevent multiple scoring
   
+  // Seconds left of the invulnerability after a hit; the player blinks meanwhile
+  invulnerableTime: number = 0;
+  
+  // Power-ups running; the player is drawn smaller while shrunk and in a bubble while shielded
+  effects: PowerUpEffects = createPowerUpEffects();
+  
   /**
    * Creates a new Player instance
    * @param canvas - The game canvas
@@ -104,9 +112,16 @@ export default class Player implements GameObject {
    * @param timestamp - Current timestamp for animation
    */
   draw(timestamp: number = 0): void {
+    if (isBlinkedOut(this.invulnerableTime, timestamp)) return;
+    
     // Get and draw animated player sprite with current timestamp for animation
+    const body = getHitbox(this, this.effects);
     const playerSprite = getSprite('player', 0, timestamp);
-    this.ctx.drawImage(playerSprite, this.x, this.y, this.width, this.height);
+    this.ctx.drawImage(playerSprite, body.x, body.y, body.width, body.height);
+    
+    if (this.effects.shield) {
+      drawShield(this.ctx, this, timestamp);
+    }
   }
   
   /**
@@ -131,6 +146,22 @@ export default class Player implements GameObject {
     this.setMovementKey('right', inputState.right);
   }
   
+  /**
+   * Distance the player moves for each key press
+   * @returns Horizontal and vertical step sizes
+   */
+  getStepSize(): { x: number; y: number } {
+    // Calculate movement step size based on scale factor
+    const baseStepX = BASE_CANVAS_WIDTH * 0.07;
+    const baseStepY = BASE_CANVAS_HEIGHT * 0.07;
+    
+    // Scale the movement speed
+    return {
+      x: Math.max(baseStepX * SCALE_FACTOR, PLAYER.MIN_STEP * SCALE_FACTOR),
+      y: Math.max(baseStepY * SCALE_FACTOR, PLAYER.MIN_STEP * SCALE_FACTOR)
+    };
+  }
+  
   /**
    * Move the player based on current input state
    */
@@ -146,13 +177,7 @@ export default class Player implements GameObject {
     this.width = playerSize;
     this.height = playerSize;
     
-    // Calculate movement step size based on scale factor
-    const baseStepX = BASE_CANVAS_WIDTH * 0.07;
-    const baseStepY = BASE_CANVAS_HEIGHT * 0.07;
-    
-    // Scale the movement speed
-    const moveX = Math.max(baseStepX * SCALE_FACTOR, PLAYER.MIN_STEP * SCALE_FACTOR);
-    const moveY = Math.max(baseStepY * SCALE_FACTOR, PLAYER.MIN_STEP * SCALE_FACTOR);
+    const { x: moveX, y: moveY } = this.getStepSize();
     
     // Calculate scaled winning line position
     const scaledWinningLine = GAME.WINNING_LINE * (this.canvas.height / BASE_CANVAS_HEIGHT);
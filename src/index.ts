@@ -9,6 +9,7 @@
 import Game from './core/Game'
 import { ResponsiveSystem } from './systems/UnifiedResponsiveSystem'
 import { DrawerUI } from './ui/DrawerUI'
+import { GAME_CONFIG } from './constants/client-constants'
 
 // Helper function for device detection
 function detectDevice() {
@@ -65,6 +66,11 @@ document.addEventListener('DOMContentLoaded', () => {
     // Initialize UI controls
     initializeUIControls()
 
+    // Invite links (?room=CODE) go straight into multiplayer, which joins that room
+    if (new URLSearchParams(window.location.search).has(GAME_CONFIG.JOIN_CODE_PARAM)) {
+        game.ready.then(() => initializeMultiplayer())
+    }
+
     // Remove loading indicator after initialization
     if (loader) {
         setTimeout(() => {
@@ -83,9 +89,9 @@ document.addEventListener('DOMContentLoaded', () => {
  */
 function initializeMultiplayer() {
     // Get button and game reference
-    const mpButton = document.querySelector(
+    const mpButton = document.querySelector<HTMLButtonElement>(
         '.multiplayer-button'
-    ) as HTMLButtonElement
+    )
     const game = (window as any).game
 
     // Ensure game instance exists
@@ -95,11 +101,15 @@ function initializeMultiplayer() {
         return
     }
 
-    // Show a loading state on button
-    const originalText = mpButton.textContent
-    mpButton.textContent = 'Loading...'
-    mpButton.style.opacity = '0.7'
-    mpButton.disabled = true
+    // Show a loading state on the button (when the page has one)
+    const originalText = mpButton?.textContent
+    const setButtonLoading = (loading: boolean) => {
+        if (!mpButton) return
+        mpButton.textContent = loading ? 'Loading...' : originalText || 'Multiplayer'
+        mpButton.style.opacity = loading ? '0.7' : '1'
+        mpButton.disabled = loading
+    }
+    setButtonLoading(true)
 
     // Check if we're already in multiplayer mode
     if (game.isMultiplayerMode) {
@@ -118,9 +128,7 @@ function initializeMultiplayer() {
             ;(window as any).multiplayerUI.toggle()
 
             // Reset button
-            mpButton.textContent = originalText || 'Multiplayer'
-            mpButton.style.opacity = '1'
-            mpButton.disabled = false
+            setButtonLoading(false)
         })
 
         return
@@ -132,9 +140,7 @@ function initializeMultiplayer() {
             console.log('Switched to multiplayer mode successfully')
 
             // Reset button state
-            mpButton.textContent = originalText || 'Multiplayer'
-            mpButton.style.opacity = '1'
-            mpButton.disabled = false
+            setButtonLoading(false)
 
             // Load and show UI
             return import('./ui/MultiplayerUI')
@@ -154,9 +160,7 @@ function initializeMultiplayer() {
         })
         .catch((err: any) => {
             // Reset button state
-            mpButton.textContent = originalText || 'Multiplayer'
-            mpButton.style.opacity = '1'
-            mpButton.disabled = false
+            setButtonLoading(false)
 
             // Show error
             console.error('Failed to initialize multiplayer:', err)
@@ -1,7 +1,116 @@
-import { Client, Room } from 'colyseus.js';
+import { Client, ErrorCode, MatchMakeError, Room, RoomAvailable } from 'colyseus.js';
 import { EventBus } from '../core/EventBus';
 import AssetManager from './AssetManager';
 import { GAME_CONFIG, GameEvents } from '../constants/client-constants';
+import { GAME, GAME_MODES, PLAYER_COLLISIONS, PLAYER_STATE, STATE } from '../constants/gameConstants';
+import { ArenaStats, InputState } from '../types';
+import {
+    applyMovementInput,
+    crossWinningLine,
+    MovementInput
+} from '../../server/shared/movement';
+import type { PowerUpEffects, PowerUpType } from '../../server/shared/powerUps';
+import { SnapshotBuffer } from '../utils/SnapshotBuffer';
+import { getServerUrl } from '../utils/serverUrl';
+import { showSeedInUrl } from '../utils/utils';
+
+// Upper bound on unacknowledged inputs kept for reconciliation
+const MAX_PENDING_INPUTS = 120;
+
+// WebSocket close code used when the client leaves the room on purpose
+const CONSENTED_CLOSE_CODE = 4000;
+
+/**
+ * Remote player as captured in a state snapshot
+ */
+export interface RemotePlayerSnapshot extends PowerUpEffects {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    name: string;
+    playerIndex: number;
+    state: string;
+    score: number;
+    stunTime: number;
+    health: number;
+    lives: number;
+    invulnerableTime: number;
+    connected: boolean;
+}
+
+/**
+ * Obstacle as captured in a state snapshot
+ */
+export interface ObstacleSnapshot {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    variant: number;
+    active: boolean;
+}
+
+/**
+ * Projectile as captured in a state snapshot
+ */
+export interface ProjectileSnapshot {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    ownerId: string;
+}
+
+/**
+ * Power-up pickup lying in the arena
+ */
+export interface PowerUpSnapshot {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    type: PowerUpType;
+}
+
+/**
+ * Which room to connect to. With neither field set, quick-join any open public room.
+ */
+export interface RoomTarget {
+    // Join code (room ID) of a specific room, public or private
+    roomId?: string;
+    // Create a new room instead of joining one
+    create?: {
+        roomName: string;
+        isPrivate: boolean;
+        // Create a race room instead of a last-player-standing one
+        race: boolean;
+        // Crashing into a slower player knocks them out instead of pushing them
+        knockouts: boolean;
+    };
+}
+
+/**
+ * Public room as shown in the room browser
+ */
+export interface RoomListing {
+    roomId: string;
+    roomName: string;
+    mode: string;
+    playerCollisions: string;
+    gameState: string;
+    clients: number;
+    maxClients: number;
+}
+
+/**
+ * Player still in the round, as listed for spectators
+ */
+export interface AlivePlayerInfo {
+    sessionId: string;
+    name: string;
+    playerIndex: number;
+}
 
 export class MultiplayerManager {
     private client: Client | null = null;
@@ -11,6 +120,20 @@ export class MultiplayerManager {
     private isConnecting: boolean = false;
     private reconnectAttempts: number = 0;
     private maxReconnectAttempts: number = 3;
+    private reconnecting: boolean = false;
+    private inputSequence: number = 0;
+    private openInput: MovementInput | null = null;
+    private pendingInputs: MovementInput[] = [];
+    private playerSnapshots = new SnapshotBuffer<RemotePlayerSnapshot>();
+    // Obstacles wrap from one edge to the other, so only snap on large jumps
+    private obstacleSnapshots = new SnapshotBuffer<ObstacleSnapshot>({ snapDistance: 100 });
+    private projectileSnapshots = new SnapshotBuffer<ProjectileSnapshot>();
+    private roundSeed: number | null = null;
+
+    // Optional callbacks for UI that doesn't listen on the event bus
+    onReconnecting?: (attempt: number) => void;
+    onReconnected?: () => void;
+    onReconnectFailed?: () => void;
 
     constructor(eventBus: EventBus, _assetManager: AssetManager) {
         this.eventBus = eventBus;
@@ -21,22 +144,9 @@ export class MultiplayerManager {
      * Get WebSocket URL based on environment
      */
     private getWebSocketUrl(): string {
-        // Check if we're in production (built version)
-        // Use a more reliable way to detect production
-        const isProd = process.env.NODE_ENV === 'production' || 
-                      (typeof import.meta !== 'undefined' && (import.meta as any).env?.PROD);
-        
-        if (isProd) {
-            // In production, use same origin as the page
-            const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-            const host = window.location.host;
-            console.log(`Production WebSocket URL: ${protocol}//${host}`);
-            return `${protocol}//${host}`;
-        } else {
-            // In development, use localhost:3000
-            console.log('Development WebSocket URL: ws://localhost:3000');
-            return 'ws://localhost:3000';
-        }
+        const url = getServerUrl('ws');
+        console.log(`WebSocket URL: ${url}`);
+        return url;
     }
 
     /**
@@ -48,36 +158,153 @@ export class MultiplayerManager {
         });
     }
 
+    /**
+     * List the public rooms that can be joined
+     */
+    async listRooms(): Promise<RoomListing[]> {
+        const client = this.client ?? new Client(this.getWebSocketUrl());
+        const roomsByType: RoomAvailable<any>[][] = await Promise.all([
+            client.getAvailableRooms(GAME_CONFIG.ROOM_NAME),
+            client.getAvailableRooms(GAME_CONFIG.RACE_ROOM_NAME)
+        ]);
+
+        return roomsByType.flat().map(room => ({
+            roomId: room.roomId,
+            roomName: room.metadata?.roomName ?? room.roomId,
+            mode: room.metadata?.mode ?? GAME_MODES.LAST_STANDING,
+            playerCollisions: room.metadata?.playerCollisions ?? PLAYER_COLLISIONS.PUSH,
+            gameState: room.metadata?.gameState ?? '',
+            clients: room.clients,
+            maxClients: room.maxClients
+        }));
+    }
+
     /**
      * Attempt connection to the server
      */
-    private async attemptConnection(wsUrl: string): Promise<void> {
+    private async attemptConnection(wsUrl: string, target: RoomTarget): Promise<void> {
         // Create Colyseus client
         this.client = new Client(wsUrl);
         
-        // Get available rooms (optional, for debugging)
-        try {
-            const rooms = await this.client.getAvailableRooms(GAME_CONFIG.ROOM_NAME);
-            console.log('📋 Available rooms:', rooms);
-        } catch (e) {
-            console.log('⚠️ Could not fetch available rooms (this is okay):', e);
+        // Rejoin the previous session if the page was reloaded while its slot is still held
+        const reconnectionToken = sessionStorage.getItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+        if (reconnectionToken) {
+            try {
+                this.room = await this.client.reconnect(reconnectionToken);
+                this.storeReconnectionToken();
+                console.log('✅ Rejoined previous session in room:', this.room.id);
+                return;
+            } catch (e) {
+                console.log('⚠️ Previous session has expired, joining a new room:', e);
+                sessionStorage.removeItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+            }
         }
         
-        // Join or create room
-        this.room = await this.client.joinOrCreate(GAME_CONFIG.ROOM_NAME, {
-            playerName: this.getPlayerName(),
-            width: window.innerWidth,
-            height: window.innerHeight
-        });
+        const name = this.getPlayerName();
+        if (target.roomId) {
+            // Join codes are case-insensitive for players but room IDs are uppercase
+            this.room = await this.client.joinById(target.roomId.trim().toUpperCase(), { name });
+        } else if (target.create) {
+            const roomType = target.create.race ? GAME_CONFIG.RACE_ROOM_NAME : GAME_CONFIG.ROOM_NAME;
+            this.room = await this.client.create(roomType, {
+                name,
+                roomName: target.create.roomName,
+                private: target.create.isPrivate,
+                playerCollisions: target.create.knockouts ? PLAYER_COLLISIONS.ELIMINATE : PLAYER_COLLISIONS.PUSH
+            });
+        } else {
+            this.room = await this.client.joinOrCreate(GAME_CONFIG.ROOM_NAME, { name });
+        }
+        this.storeReconnectionToken();
         
         console.log('✅ Successfully joined room:', this.room.id);
     }
 
+    /**
+     * Remember the current room's reconnection token for this browser tab
+     */
+    private storeReconnectionToken(): void {
+        if (this.room?.reconnectionToken) {
+            sessionStorage.setItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY, this.room.reconnectionToken);
+        }
+    }
+
+    /**
+     * Try to rejoin the same session after an unexpected disconnect. The server
+     * holds the player's slot for RECONNECT_GRACE_PERIOD seconds, so keep
+     * retrying until then.
+     */
+    private async reconnect(): Promise<void> {
+        const client = this.client;
+        const reconnectionToken = sessionStorage.getItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+        if (!client || !reconnectionToken) {
+            this.handleConnectionLost();
+            return;
+        }
+
+        this.reconnecting = true;
+        const deadline = Date.now() + GAME.RECONNECT_GRACE_PERIOD * 1000;
+        let attempt = 0;
+
+        while (this.reconnecting && Date.now() < deadline) {
+            attempt++;
+            console.log(`🔄 Reconnecting (attempt ${attempt})...`);
+            this.eventBus.emit(GameEvents.MULTIPLAYER_RECONNECTING, { attempt });
+            this.onReconnecting?.(attempt);
+
+            try {
+                const room = await Promise.race([
+                    client.reconnect(reconnectionToken),
+                    this.createTimeoutPromise(Math.max(0, deadline - Date.now()))
+                ]);
+
+                // disconnect() was called while the attempt was in flight
+                if (!this.reconnecting) {
+                    room.leave();
+                    return;
+                }
+
+                this.reconnecting = false;
+                this.room = room;
+                this.storeReconnectionToken();
+                this.setupRoomHandlers();
+
+                console.log('✅ Reconnected to room:', room.id);
+                this.eventBus.emit(GameEvents.MULTIPLAYER_RECONNECTED, {
+                    roomId: room.id,
+                    sessionId: room.sessionId
+                });
+                this.onReconnected?.();
+                return;
+            } catch (error) {
+                console.warn(`Reconnect attempt ${attempt} failed:`, error);
+                await new Promise(resolve => setTimeout(resolve, GAME_CONFIG.RECONNECT_DELAY));
+            }
+        }
+
+        // Gave up, unless the player disconnected on purpose in the meantime
+        if (this.reconnecting) {
+            this.reconnecting = false;
+            this.handleConnectionLost();
+        }
+    }
+
+    /**
+     * Give up on the current session after the connection was lost for good
+     */
+    private handleConnectionLost(code?: number): void {
+        sessionStorage.removeItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+        this.client = null;
+        this.eventBus.emit(GameEvents.MULTIPLAYER_DISCONNECTED, { code });
+        this.onReconnectFailed?.();
+    }
+
     /**
      * Connect to the game server with timeout
+     * @param target - Room to join or create (defaults to quick-joining any public room)
      */
-    async connect(): Promise<boolean> {
-        if (this.isConnecting || this.room) {
+    async connect(target: RoomTarget = {}): Promise<boolean> {
+        if (this.isConnecting || this.reconnecting || this.room) {
             console.warn('Already connected or connecting');
             return false;
         }
@@ -90,7 +317,7 @@ export class MultiplayerManager {
             console.log('🔌 Connecting to server:', wsUrl);
             
             // Create connection promise with timeout
-            const connectionPromise = this.attemptConnection(wsUrl);
+            const connectionPromise = this.attemptConnection(wsUrl, target);
             const timeoutPromise = this.createTimeoutPromise(CONNECTION_TIMEOUT);
             
             // Race connection against timeout
@@ -122,8 +349,13 @@ export class MultiplayerManager {
             // Determine error type and message
             let errorMessage = 'Connection failed';
             let errorType = 'connection';
+            const roomNotFound = error instanceof MatchMakeError &&
+                error.code === ErrorCode.MATCHMAKE_INVALID_ROOM_ID;
             
-            if (error instanceof Error) {
+            if (roomNotFound) {
+                errorType = 'roomNotFound';
+                errorMessage = 'No open room matches that join code.';
+            } else if (error instanceof Error) {
                 if (error.message.includes('timeout')) {
                     errorType = 'timeout';
                     errorMessage = 'Connection timed out. Make sure the game server is running.';
@@ -141,11 +373,11 @@ export class MultiplayerManager {
                 message: errorMessage
             });
             
-            // Try to reconnect if not at max attempts
-            if (this.reconnectAttempts < this.maxReconnectAttempts) {
+            // Try to reconnect if not at max attempts (a bad join code won't fix itself)
+            if (!roomNotFound && this.reconnectAttempts < this.maxReconnectAttempts) {
                 this.reconnectAttempts++;
                 console.log(`Reconnect attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}`);
-                setTimeout(() => this.connect(), 2000 * this.reconnectAttempts);
+                setTimeout(() => this.connect(target), 2000 * this.reconnectAttempts);
             }
             
             return false;
@@ -165,7 +397,12 @@ export class MultiplayerManager {
 
         // Handle state changes
         this.room.onStateChange((state) => {
-            console.log('📡 Room state changed:', state);
+            this.recordSnapshot(state);
+            if (typeof state.seed === 'number' && state.seed !== this.roundSeed) {
+                // Keep the round's seed in the URL, as single-player does
+                this.roundSeed = state.seed;
+                showSeedInUrl(state.seed);
+            }
             this.eventBus.emit(GameEvents.MULTIPLAYER_STATE_UPDATE, state);
         });
 
@@ -180,6 +417,18 @@ export class MultiplayerManager {
             this.eventBus.emit(GameEvents.PLAYER_LEFT, data);
         });
 
+        this.room.onMessage('projectileHit', (data) => {
+            this.eventBus.emit(GameEvents.PROJECTILE_HIT, data);
+        });
+
+        this.room.onMessage('playerBump', (data) => {
+            this.eventBus.emit(GameEvents.PLAYER_BUMP, data);
+        });
+
+        this.room.onMessage('powerUp', (data) => {
+            this.eventBus.emit(GameEvents.POWER_UP, data);
+        });
+
         this.room.onMessage('gameStart', (data) => {
             console.log('Game starting:', data);
             this.eventBus.emit(GameEvents.GAME_START, data);
@@ -203,22 +452,126 @@ export class MultiplayerManager {
         // Handle disconnect
         this.room.onLeave((code) => {
             console.log('Left room:', code);
-            this.eventBus.emit(GameEvents.MULTIPLAYER_DISCONNECTED, { code });
             this.room = null;
+            this.openInput = null;
+            this.pendingInputs = [];
+            this.playerSnapshots.clear();
+            this.obstacleSnapshots.clear();
+            this.projectileSnapshots.clear();
+
+            // An unexpected drop (e.g. a network blip) keeps our slot on the server for a while
+            if (code !== CONSENTED_CLOSE_CODE && this.client) {
+                this.reconnect();
+                return;
+            }
+
+            sessionStorage.removeItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+            this.eventBus.emit(GameEvents.MULTIPLAYER_DISCONNECTED, { code });
             this.client = null;
         });
     }
 
     /**
-     * Send player input to server
+     * Record the local input held for this frame. Frames with the same keys are
+     * merged into one command; a key change sends the previous command first.
      */
-    sendInput(input: any): void {
+    queueInput(input: InputState, deltaTime: number): void {
+        if (!this.room) return;
+
+        const keysChanged = this.openInput !== null && (
+            this.openInput.up !== input.up ||
+            this.openInput.down !== input.down ||
+            this.openInput.left !== input.left ||
+            this.openInput.right !== input.right
+        );
+        if (keysChanged) {
+            this.sendInput();
+        }
+
+        if (!this.openInput) {
+            this.openInput = {
+                seq: ++this.inputSequence,
+                up: input.up,
+                down: input.down,
+                left: input.left,
+                right: input.right,
+                dt: 0
+            };
+        }
+
+        // The server ignores movement outside a round, so don't predict it either
+        if (this.canLocalPlayerMove()) {
+            this.openInput.dt += deltaTime;
+        }
+    }
+
+    /**
+     * Send the open input command to the server and keep it until acknowledged
+     */
+    sendInput(): void {
         if (!this.room) {
             console.warn('Not connected to room');
             return;
         }
 
-        this.room.send('input', input);
+        if (!this.openInput) return;
+
+        this.room.send('input', this.openInput);
+        this.pendingInputs.push(this.openInput);
+        if (this.pendingInputs.length > MAX_PENDING_INPUTS) {
+            this.pendingInputs.shift();
+        }
+        this.openInput = null;
+    }
+
+    /**
+     * Get the predicted local player position: the last authoritative
+     * position with all unacknowledged inputs replayed on top of it,
+     * including the trip back to the start after crossing the winning line
+     */
+    getPredictedLocalPlayer(): { x: number; y: number } | null {
+        const player = this.getLocalPlayer();
+        if (!player || !this.room) return null;
+
+        // Drop inputs the server has already applied
+        const lastProcessed = player.lastProcessedInput ?? 0;
+        this.pendingInputs = this.pendingInputs.filter(input => input.seq > lastProcessed);
+
+        const predicted = {
+            x: player.x,
+            y: player.y,
+            width: player.width,
+            height: player.height
+        };
+        const { arenaWidth, arenaHeight } = this.room.state;
+
+        const inputs = this.openInput ? [...this.pendingInputs, this.openInput] : this.pendingInputs;
+        for (const input of inputs) {
+            applyMovementInput(predicted, input, input.dt, arenaWidth, arenaHeight);
+            crossWinningLine(predicted, arenaWidth, arenaHeight);
+        }
+
+        return { x: predicted.x, y: predicted.y };
+    }
+
+    /**
+     * Check whether the server is currently moving the local player
+     */
+    private canLocalPlayerMove(): boolean {
+        const player = this.getLocalPlayer();
+        return !!player &&
+            this.room?.state.gameState === STATE.PLAYING &&
+            player.state === PLAYER_STATE.ALIVE &&
+            !(player.stunTime > 0);
+    }
+
+    /**
+     * Ask the server to fire a projectile (fire rate and limits are enforced there)
+     */
+    shoot(): void {
+        if (this.room) {
+            this.room.send('shoot');
+        }
     }
 
     /**
@@ -273,6 +626,176 @@ export class MultiplayerManager {
         return remotePlayers;
     }
 
+    /**
+     * Get every player still alive in the round, ordered by join order
+     */
+    getAlivePlayers(): AlivePlayerInfo[] {
+        const alive: AlivePlayerInfo[] = [];
+
+        this.room?.state?.players?.forEach((player: any, sessionId: string) => {
+            if (player.state === PLAYER_STATE.ALIVE) {
+                alive.push({ sessionId, name: player.name, playerIndex: player.playerIndex });
+            }
+        });
+
+        return alive.sort((a, b) => a.playerIndex - b.playerIndex);
+    }
+
+    /**
+     * Check whether the local player is watching rather than playing
+     * (eliminated this round, or joined while a round was in progress)
+     */
+    isSpectating(): boolean {
+        const player = this.getLocalPlayer();
+        return !!player && player.state !== PLAYER_STATE.ALIVE;
+    }
+
+    /**
+     * Get the total number of players in the room
+     */
+    getTotalPlayers(): number {
+        return this.room?.state?.totalPlayers ?? 0;
+    }
+
+    /**
+     * Get the number of players still alive
+     */
+    getAliveCount(): number {
+        return this.room?.state?.aliveCount ?? 0;
+    }
+
+    /**
+     * Get the crossings needed to win, or null unless the room is a race
+     */
+    getRaceTarget(): number | null {
+        const state = this.room?.state;
+        return state?.mode === GAME_MODES.RACE ? state.raceTarget : null;
+    }
+
+    /**
+     * Get the current arena dimensions and safe zone
+     */
+    getArenaStats(): ArenaStats | null {
+        const state = this.room?.state;
+        if (!state) return null;
+
+        return {
+            width: state.arenaWidth,
+            height: state.arenaHeight,
+            zone: { x: state.zoneX, y: state.zoneY, radius: state.zoneRadius },
+            nextZone: { x: state.nextZoneX, y: state.nextZoneY, radius: state.nextZoneRadius },
+            nextShrinkTime: state.nextShrinkTime,
+            elapsedTime: state.elapsedTime,
+            countdownTime: state.countdownTime
+        };
+    }
+
+    /**
+     * Ask the server to start a new round (only honoured after game over)
+     */
+    requestRestart(): void {
+        if (this.room) {
+            this.room.send('restartGame');
+        }
+    }
+
+    /**
+     * Get remote players interpolated for rendering at the given time
+     */
+    getInterpolatedRemotePlayers(now: number = performance.now()): Record<string, RemotePlayerSnapshot> {
+        return this.playerSnapshots.sample(now);
+    }
+
+    /**
+     * Get server obstacles interpolated for rendering at the given time
+     */
+    getInterpolatedObstacles(now: number = performance.now()): Record<string, ObstacleSnapshot> {
+        return this.obstacleSnapshots.sample(now);
+    }
+
+    /**
+     * Get projectiles interpolated for rendering at the given time
+     */
+    getInterpolatedProjectiles(now: number = performance.now()): Record<string, ProjectileSnapshot> {
+        return this.projectileSnapshots.sample(now);
+    }
+
+    /**
+     * Get the power-ups lying in the arena. They don't move, so they're read
+     * straight from the state.
+     */
+    getPowerUps(): PowerUpSnapshot[] {
+        const powerUps: PowerUpSnapshot[] = [];
+        this.room?.state?.powerUps?.forEach((powerUp: any) => {
+            powerUps.push({
+                x: powerUp.x,
+                y: powerUp.y,
+                width: powerUp.width,
+                height: powerUp.height,
+                type: powerUp.type
+            });
+        });
+        return powerUps;
+    }
+
+    /**
+     * Copy remote players, obstacles and projectiles out of a state patch into the snapshot buffers
+     */
+    private recordSnapshot(state: any): void {
+        const now = performance.now();
+        const players: Record<string, RemotePlayerSnapshot> = {};
+        const obstacles: Record<string, ObstacleSnapshot> = {};
+        const projectiles: Record<string, ProjectileSnapshot> = {};
+
+        state.players?.forEach((player: any, sessionId: string) => {
+            if (sessionId === this.room?.sessionId) return;
+            players[sessionId] = {
+                x: player.x,
+                y: player.y,
+                width: player.width,
+                height: player.height,
+                name: player.name,
+                playerIndex: player.playerIndex,
+                state: player.state,
+                score: player.score,
+                stunTime: player.stunTime,
+                health: player.health,
+                lives: player.lives,
+                invulnerableTime: player.invulnerableTime,
+                shield: player.shield,
+                slowMotionTime: player.slowMotionTime,
+                shrinkTime: player.shrinkTime,
+                doublePointsTime: player.doublePointsTime,
+                connected: player.connected
+            };
+        });
+
+        state.obstacles?.forEach((obstacle: any) => {
+            obstacles[obstacle.id] = {
+                x: obstacle.x,
+                y: obstacle.y,
+                width: obstacle.width,
+                height: obstacle.height,
+                variant: obstacle.variant,
+                active: obstacle.active
+            };
+        });
+
+        state.projectiles?.forEach((projectile: any) => {
+            projectiles[projectile.id] = {
+                x: projectile.x,
+                y: projectile.y,
+                width: projectile.width,
+                height: projectile.height,
+                ownerId: projectile.ownerId
+            };
+        });
+
+        this.playerSnapshots.push(now, players);
+        this.obstacleSnapshots.push(now, obstacles);
+        this.projectileSnapshots.push(now, projectiles);
+    }
+
     /**
      * Disconnect from server
      */
@@ -286,8 +809,17 @@ export class MultiplayerManager {
             this.client = null;
         }
         
+        // Leaving on purpose gives up the held slot
+        sessionStorage.removeItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY);
+        
         this.isConnecting = false;
+        this.reconnecting = false;
         this.reconnectAttempts = 0;
+        this.openInput = null;
+        this.pendingInputs = [];
+        this.playerSnapshots.clear();
+        this.obstacleSnapshots.clear();
+        this.projectileSnapshots.clear();
     }
 
     /**
@@ -297,6 +829,39 @@ export class MultiplayerManager {
         return this.room !== null && this.room.connection.isOpen;
     }
 
+    /**
+     * Check whether this tab holds a session that can be rejoined (e.g. after a reload)
+     */
+    canResumeSession(): boolean {
+        return sessionStorage.getItem(GAME_CONFIG.RECONNECTION_TOKEN_KEY) !== null;
+    }
+
+    /**
+     * Check if the connection dropped and we are trying to rejoin the session
+     */
+    isReconnecting(): boolean {
+        return this.reconnecting;
+    }
+
+    /**
+     * Get the join code of the current room (its room ID)
+     */
+    getRoomCode(): string | null {
+        return this.room?.id ?? null;
+    }
+
+    /**
+     * Get a link that opens the game and joins the current room
+     */
+    getShareUrl(): string | null {
+        const code = this.getRoomCode();
+        if (!code) return null;
+
+        const url = new URL(window.location.href);
+        url.searchParams.set(GAME_CONFIG.JOIN_CODE_PARAM, code);
+        return url.toString();
+    }
+
     /**
      * Get current room
      */
@@ -3,8 +3,8 @@
  * Handles canvas scaling, UI adjustments, and performance optimizations
  * based on device/screen size and capabilities
  */
-import { CANVAS, DEVICE_SETTINGS } from '../constants/gameConstants'
-import { ScalingInfo } from '../types'
+import { ARENA, CANVAS, DEVICE_SETTINGS } from '../constants/gameConstants'
+import { ScalingInfo, WorldTransform } from '../types'
 
 // Define types for ResponsiveManager
 interface DeviceCapabilities {
@@ -244,6 +244,9 @@ export default class ResponsiveManager {
                     `Desktop canvas sizing (fallback): ${availableWidth}x${availableHeight}`
                 )
             }
+
+            // Leaderboards only take runs on fields up to this wide
+            availableWidth = Math.min(availableWidth, CANVAS.MAX_DESKTOP_WIDTH)
         } else {
             // Mobile: Calculate based on actual layout structure
             const header = document.querySelector(
@@ -297,7 +300,7 @@ export default class ResponsiveManager {
         const canvasHeight = Math.floor(this.baseCanvasHeight * scale)
 
         // Ensure minimum playable size - more aggressive mobile sizing
-        const minHeight = this.isDesktop ? 500 : 200 // Reduced mobile minimum
+        const minHeight = this.isDesktop ? 500 : CANVAS.MIN_HEIGHT // Reduced mobile minimum
         const minWidth = Math.floor(
             (minHeight / this.baseCanvasHeight) * this.baseCanvasWidth
         )
@@ -352,6 +355,31 @@ export default class ResponsiveManager {
         return this.scalingInfo
     }
 
+    /**
+     * Get the transform that maps logical world units (the shared arena size,
+     * unless another world size is given) onto the canvas. The world is
+     * scaled uniformly and centered.
+     * @param worldWidth - Width of the world in world units
+     * @param worldHeight - Height of the world in world units
+     * @returns The current world-to-screen transform
+     */
+    getWorldTransform(worldWidth: number = ARENA.WIDTH, worldHeight: number = ARENA.HEIGHT): WorldTransform {
+        if (!this.canvas) {
+            return { scale: 1, offsetX: 0, offsetY: 0 }
+        }
+
+        const scale = Math.min(
+            this.canvas.width / worldWidth,
+            this.canvas.height / worldHeight
+        )
+
+        return {
+            scale,
+            offsetX: (this.canvas.width - worldWidth * scale) / 2,
+            offsetY: (this.canvas.height - worldHeight * scale) / 2,
+        }
+    }
+
     /**
      * Check if the current device is desktop
      * @returns Whether the current device is desktop
@@ -3,11 +3,16 @@
  * from game logic for better code organization.
  * Now with TypeScript support.
  */
+import { formatHearts, POWER_UP_STYLES } from '../utils/drawSimulation';
+import type { PowerUpEffects } from '../../server/shared/powerUps';
 
 // Interface for configuration options
 interface UIManagerOptions {
   scoreElement: HTMLElement;
   highScoreElement: HTMLElement;
+  heatMeterElement?: HTMLElement | null;
+  livesElement?: HTMLElement | null;
+  powerUpsElement?: HTMLElement | null;
   config: GameConfig;
 }
 
@@ -16,9 +21,23 @@ interface GameConfig {
   getKeys: () => Record<string, string[]>;
 }
 
+/**
+ * Details of a finished single-player run shown on the game over screen
+ */
+export interface GameOverRunInfo {
+  seed: number;
+  // Extra line about the run, e.g. a new best or a daily challenge streak
+  note?: string;
+  onWatchReplay?: () => void;
+  onDownloadReplay?: () => void;
+}
+
 export default class UIManager {
   private scoreElement: HTMLElement;
   private highScoreElement: HTMLElement;
+  private heatMeterElement: HTMLElement | null;
+  private livesElement: HTMLElement | null;
+  private powerUpsElement: HTMLElement | null;
   private config: GameConfig;
   
   // Game over overlay elements (created on-demand)
@@ -37,9 +56,12 @@ export default class UIManager {
    * Creates a new UIManager
    * @param options - Configuration options
    */
-  constructor({ scoreElement, highScoreElement, config }: UIManagerOptions) {
+  constructor({ scoreElement, highScoreElement, heatMeterElement = null, livesElement = null, powerUpsElement = null, config }: UIManagerOptions) {
     this.scoreElement = scoreElement;
     this.highScoreElement = highScoreElement;
+    this.heatMeterElement = heatMeterElement;
+    this.livesElement = livesElement;
+    this.powerUpsElement = powerUpsElement;
     this.config = config;
     
     // Initialize overlay elements as null (created on-demand)
@@ -76,6 +98,63 @@ export default class UIManager {
     }
   }
   
+  /**
+   * Update the gun heat meter
+   * @param heat - Heat level from 0 (cold) to 1 (overheated)
+   * @param overheated - Whether the gun is cooling down and can't fire
+   */
+  updateHeat(heat: number, overheated: boolean): void {
+    if (this.heatMeterElement) {
+      this.heatMeterElement.style.width = `${Math.round(heat * 100)}%`;
+      this.heatMeterElement.classList.toggle('overheated', overheated);
+    }
+  }
+  
+  /**
+   * Update the lives display
+   * @param lives - Lives left
+   * @param maxLives - Lives a run starts with
+   */
+  updateLives(lives: number, maxLives: number): void {
+    if (this.livesElement) {
+      const hearts = formatHearts(lives, maxLives);
+      if (this.livesElement.textContent !== hearts) {
+        this.livesElement.textContent = hearts;
+      }
+    }
+  }
+  
+  /**
+   * Update the running power-ups: the shield while it's up, and the seconds
+   * left of each timed effect
+   * @param effects - The player's power-up effects
+   */
+  updatePowerUps(effects: PowerUpEffects): void {
+    if (!this.powerUpsElement) return;
+    
+    const timers: Array<[keyof typeof POWER_UP_STYLES, string]> = [];
+    if (effects.shield) timers.push(['shield', '']);
+    if (effects.slowMotionTime > 0) timers.push(['slow_motion', `${Math.ceil(effects.slowMotionTime)}s`]);
+    if (effects.shrinkTime > 0) timers.push(['shrink', `${Math.ceil(effects.shrinkTime)}s`]);
+    if (effects.doublePointsTime > 0) timers.push(['double_points', `${Math.ceil(effects.doublePointsTime)}s`]);
+    
+    // Only rebuild when a timer ticks over, not every frame
+    const key = timers.map(([type, time]) => type + time).join();
+    if (this.powerUpsElement.dataset.timers === key) return;
+    this.powerUpsElement.dataset.timers = key;
+    
+    this.powerUpsElement.replaceChildren(
+      ...timers.map(([type, time]) => {
+        const style = POWER_UP_STYLES[type];
+        const timer = document.createElement('span');
+        timer.className = 'power-up-timer';
+        timer.style.color = style.color;
+        timer.textContent = time ? `${style.label} ${time}` : style.label;
+        return timer;
+      })
+    );
+  }
+  
   /**
    * Show the game over screen
    * @param finalScore - Final score achieved
@@ -83,13 +162,15 @@ export default class UIManager {
    * @param onRestart - Callback function when restart is clicked
    * @param winnerName - Name of winner in multiplayer mode
    * @param isWinner - Whether the local player is the winner
+   * @param run - Seed and replay actions of the run that just ended
    */
   showGameOver(
     finalScore: number, 
     highScore: number, 
     onRestart: () => void, 
     winnerName?: string, 
-    isWinner?: boolean
+    isWinner?: boolean,
+    run?: GameOverRunInfo
   ): void {
     // Create overlay if it doesn't exist
     if (!this.gameOverOverlay) {
@@ -119,6 +200,32 @@ export default class UIManager {
       highScoreDisplay.textContent = highScore.toString();
     }
     
+    const seedElement = this.gameOverOverlay?.querySelector('.game-over-seed') as HTMLElement;
+    if (seedElement) {
+      const seedValue = seedElement.querySelector('span');
+      if (seedValue) {
+        seedValue.textContent = run ? run.seed.toString() : '';
+      }
+      seedElement.style.display = run ? 'block' : 'none';
+    }
+    
+    const noteElement = this.gameOverOverlay?.querySelector('.game-over-note') as HTMLElement;
+    if (noteElement) {
+      noteElement.textContent = run?.note ?? '';
+      noteElement.style.display = run?.note ? 'block' : 'none';
+    }
+    
+    // Filled in by showGameOverRank once the server has ranked the score
+    this.showGameOverRank(null);
+    
+    // Replay buttons only show when the run has a replay
+    const replayActions = this.gameOverOverlay?.querySelector('.game-over-replay') as HTMLElement;
+    if (replayActions) {
+      this.bindGameOverButton('.game-over-watch', run?.onWatchReplay);
+      this.bindGameOverButton('.game-over-download', run?.onDownloadReplay);
+      replayActions.style.display = run?.onWatchReplay || run?.onDownloadReplay ? 'flex' : 'none';
+    }
+    
     // Handle multiplayer result
     const multiplayerResultElement = this.gameOverOverlay?.querySelector('.multiplayer-result') as HTMLElement;
     if (multiplayerResultElement) {
@@ -167,6 +274,37 @@ export default class UIManager {
     document.addEventListener('keydown', handleKeyDown);
   }
   
+  /**
+   * Point a game over button at a new action, hiding it if there isn't one
+   * @param selector - Selector of the button in the overlay
+   * @param action - Called when the button is clicked
+   */
+  private bindGameOverButton(selector: string, action?: () => void): void {
+    const button = this.gameOverOverlay?.querySelector(selector) as HTMLElement | null;
+    if (!button) return;
+    
+    // Replace the button to drop the previous run's listener
+    const newButton = button.cloneNode(true) as HTMLElement;
+    button.parentNode?.replaceChild(newButton, button);
+    
+    if (action) {
+      newButton.addEventListener('click', action);
+    }
+    newButton.style.display = action ? 'inline-block' : 'none';
+  }
+  
+  /**
+   * Show where the score placed on the leaderboards
+   * @param text - Rank line, or null to hide it
+   */
+  showGameOverRank(text: string | null): void {
+    const rankElement = this.gameOverOverlay?.querySelector('.game-over-rank') as HTMLElement;
+    if (rankElement) {
+      rankElement.textContent = text ?? '';
+      rankElement.style.display = text ? 'block' : 'none';
+    }
+  }
+  
   /**
    * Hide the game over screen
    */
@@ -198,6 +336,13 @@ export default class UIManager {
           <p>High Score: <span class="game-over-highscore">0</span></p>
         </div>
         <p class="multiplayer-result"></p>
+        <p class="game-over-seed">Seed: <span></span></p>
+        <p class="game-over-note"></p>
+        <p class="game-over-rank"></p>
+        <div class="game-over-replay">
+          <button class="game-over-watch">Watch Replay</button>
+          <button class="game-over-download">Download Replay</button>
+        </div>
         <button class="game-over-restart">Play Again</button>
         ${!isTouchDevice ? '<p class="game-over-hint">Press \'R\' to restart</p>' : ''}
       </div>
@@ -257,6 +402,46 @@ export default class UIManager {
         display: none;
       }
       
+      .game-over-seed {
+        color: #aaa;
+        font-size: 14px;
+        display: none;
+      }
+      
+      .game-over-seed span {
+        user-select: all;
+      }
+      
+      .game-over-note {
+        color: #00ccff;
+        font-size: 14px;
+        display: none;
+      }
+      
+      .game-over-rank {
+        color: #ffcc00;
+        font-size: 14px;
+        display: none;
+      }
+      
+      .game-over-replay {
+        display: none;
+        justify-content: center;
+        gap: 10px;
+        margin-top: 10px;
+      }
+      
+      .game-over-replay button {
+        background: transparent;
+        color: var(--primary-color);
+        border: 1px solid var(--primary-color);
+        padding: 8px 14px;
+        font-size: 14px;
+        border-radius: 4px;
+        cursor: pointer;
+        ${isTouchDevice ? 'min-height: 44px; touch-action: manipulation;' : ''}
+      }
+      
       .game-over-restart {
         background: var(--accent-primary, #00bcd4);
         color: var(--text-dark, #000);
@@ -0,0 +1,183 @@
+/**
+ * Ghost runs: the path the player took through their best run, saved with
+ * its seed so later attempts on the same obstacle sequence can race it.
+ * Positions are stored as fractions of the playing field, so a ghost still
+ * lines up after the window is resized.
+ */
+import { GAME_CONFIG } from '../constants/client-constants';
+import { FRAME_TIME, SimulationEvent, SimulationState } from '../../server/shared/singlePlayerSimulation';
+
+export const GHOST_VERSION = 1;
+
+// Steps between recorded positions; playback interpolates between them
+const SAMPLE_STEPS = 2;
+
+/**
+ * A recorded best run
+ */
+export interface GhostRun {
+    version: number;
+    seed: number;
+    score: number;
+    // Seconds of run time between trajectory points
+    sampleInterval: number;
+    // Top-left corner of the player, as fractions of the field width and height
+    trajectory: Array<[number, number]>;
+    // Run time (seconds) of each winning-line crossing
+    splits: number[];
+    recordedAt: string;
+}
+
+/**
+ * Records the player's path and split times as a run is played
+ */
+export class GhostRecorder {
+    private run: GhostRun | null = null;
+
+    /**
+     * Start recording a new run
+     * @param state - Simulation state straight after the reset
+     */
+    start(state: Readonly<SimulationState>): void {
+        this.run = {
+            version: GHOST_VERSION,
+            seed: state.seed,
+            score: 0,
+            sampleInterval: SAMPLE_STEPS * FRAME_TIME,
+            trajectory: [],
+            splits: [],
+            recordedAt: new Date().toISOString(),
+        };
+        this.addPoint(state);
+    }
+
+    /**
+     * Record the outcome of one simulation step (every step must last FRAME_TIME)
+     * @param state - Simulation state after the step
+     * @param events - Events reported by the step
+     */
+    record(state: Readonly<SimulationState>, events: SimulationEvent[]): void {
+        if (!this.run) return;
+
+        if (events.some((event) => event.type === 'scored')) {
+            this.run.splits.push(state.time);
+        }
+        if (state.frame % SAMPLE_STEPS === 0) {
+            this.addPoint(state);
+        }
+    }
+
+    /**
+     * Stop recording
+     * @returns The finished run, or null if nothing was being recorded
+     */
+    finish(score: number): GhostRun | null {
+        const run = this.run;
+        this.run = null;
+        if (run) {
+            run.score = score;
+        }
+        return run;
+    }
+
+    private addPoint(state: Readonly<SimulationState>): void {
+        const { player, width, height } = state;
+        // Four decimals is well under a pixel on any screen
+        this.run!.trajectory.push([
+            Math.round((player.x / width) * 10000) / 10000,
+            Math.round((player.y / height) * 10000) / 10000,
+        ]);
+    }
+}
+
+/**
+ * Where the ghost was at a point of its run
+ * @param time - Seconds since the run started
+ * @returns Position as fractions of the field size, or null once the ghost's run is over
+ */
+export function ghostPositionAt(run: GhostRun, time: number): [number, number] | null {
+    const points = run.trajectory;
+    if (points.length === 0 || run.sampleInterval <= 0) return null;
+
+    const position = Math.max(0, time / run.sampleInterval);
+    const index = Math.floor(position);
+    if (index >= points.length - 1) {
+        return position > points.length - 1 ? null : points[points.length - 1];
+    }
+
+    const t = position - index;
+    const [x0, y0] = points[index];
+    const [x1, y1] = points[index + 1];
+    return [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t];
+}
+
+/**
+ * Number of winning-line crossings the ghost had made by a point of its run
+ */
+export function ghostCrossingsAt(run: GhostRun, time: number): number {
+    let crossings = 0;
+    while (crossings < run.splits.length && run.splits[crossings] <= time) {
+        crossings++;
+    }
+    return crossings;
+}
+
+/**
+ * Read the saved ghost
+ * @returns The ghost, or null if none is saved or it can't be read
+ */
+export function loadGhost(): GhostRun | null {
+    try {
+        const text = localStorage.getItem(GAME_CONFIG.GHOST_STORAGE_KEY);
+        return text ? parseGhost(text) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save a ghost, replacing the previous one
+ * @returns Whether it could be stored
+ */
+export function saveGhost(run: GhostRun): boolean {
+    try {
+        localStorage.setItem(GAME_CONFIG.GHOST_STORAGE_KEY, JSON.stringify(run));
+        return true;
+    } catch (error) {
+        // Storage is full or disabled; racing simply isn't available
+        console.warn('Could not save ghost run:', error);
+        return false;
+    }
+}
+
+/**
+ * Read a stored ghost
+ * @returns The ghost, or null if the text isn't a ghost this version can use
+ */
+export function parseGhost(text: string): GhostRun | null {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (
+        !data ||
+        data.version !== GHOST_VERSION ||
+        !Number.isInteger(data.seed) ||
+        typeof data.score !== 'number' ||
+        typeof data.sampleInterval !== 'number' ||
+        !Array.isArray(data.trajectory) ||
+        !data.trajectory.every(
+            (point: unknown) =>
+                Array.isArray(point) && point.length === 2 && point.every((value) => typeof value === 'number')
+        ) ||
+        !Array.isArray(data.splits) ||
+        !data.splits.every((split: unknown) => typeof split === 'number')
+    ) {
+        return null;
+    }
+
+    return data as GhostRun;
+}
@@ -60,6 +60,14 @@ export interface ScalingInfo {
     reducedResolution?: boolean
 }
 
+export interface WorldTransform {
+    // Screen pixels per world unit
+    scale: number
+    // Screen position of the world origin
+    offsetX: number
+    offsetY: number
+}
+
 export interface PerformanceStats {
     fps?: number
     frameTime?: number
@@ -170,22 +178,37 @@ export interface GameState {
     obstacles: any[]
     arenaWidth: number
     arenaHeight: number
-    areaPercentage: number
+    zoneX: number
+    zoneY: number
+    zoneRadius: number
+    nextZoneX: number
+    nextZoneY: number
+    nextZoneRadius: number
+    nextShrinkTime: number
     elapsedTime: number
     countdownTime?: number
     aliveCount: number
     totalPlayers: number
     winnerName?: string
+    mode?: string
+    raceTarget?: number
+}
+
+export interface SafeZone {
+    x: number
+    y: number
+    radius: number
 }
 
 export interface ArenaStats {
     width: number
     height: number
-    areaPercentage: number
+    zone: SafeZone
+    nextZone: SafeZone
+    // Round time (seconds) the next shrink starts at, 0 once the zone has stopped shrinking
+    nextShrinkTime: number
     elapsedTime: number
     countdownTime?: number
-    shrinkStart?: number
-    shrinkEnd?: number
 }
 
 // ===== UI AND RESPONSIVE TYPES =====
@@ -0,0 +1,301 @@
+import { getDayKey } from '../../server/shared/dailyChallenge';
+import { DailyCalendar, getStreaks, loadDailyCalendar } from '../utils/dailyChallenge';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Overlay showing a month of daily challenge results, with the current and
+ * best streaks and a button to play today's challenge.
+ */
+export class DailyCalendarView {
+    private root!: HTMLDivElement;
+    private monthLabel!: HTMLSpanElement;
+    private streakLabel!: HTMLDivElement;
+    private grid!: HTMLDivElement;
+    private playButton!: HTMLButtonElement;
+
+    private calendar: DailyCalendar = {};
+    private today: string = '';
+    // First day of the month on show, at midnight UTC like the days themselves
+    private month: Date = new Date();
+    private onClose: (() => void) | null = null;
+    private onPlay: () => void;
+
+    /**
+     * @param onPlay - Starts today's challenge
+     */
+    constructor(onPlay: () => void) {
+        this.onPlay = onPlay;
+        this.createElements();
+        this.attachEventListeners();
+        this.injectStyles();
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+    }
+
+    /**
+     * Show the current month, read fresh from storage
+     * @param onClose - Called once the calendar is closed
+     */
+    open(onClose?: () => void): void {
+        if (this.isOpen()) {
+            this.close();
+        }
+
+        const now = new Date();
+        this.calendar = loadDailyCalendar();
+        this.today = getDayKey(now);
+        this.month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        this.onClose = onClose ?? null;
+
+        const { current, best } = getStreaks(this.calendar, this.today);
+        this.streakLabel.textContent = `Streak: ${current} · Best: ${best}`;
+        const playedToday = this.calendar[this.today] !== undefined;
+        this.playButton.textContent = playedToday ? 'Practice Today\'s Challenge' : 'Play Today\'s Challenge';
+        this.render();
+
+        this.root.classList.add('active');
+        document.addEventListener('keydown', this.handleKeyDown);
+    }
+
+    /**
+     * Close the calendar
+     */
+    close(): void {
+        if (!this.isOpen()) return;
+
+        this.root.classList.remove('active');
+        document.removeEventListener('keydown', this.handleKeyDown);
+
+        const onClose = this.onClose;
+        this.onClose = null;
+        onClose?.();
+    }
+
+    isOpen(): boolean {
+        return this.root.classList.contains('active');
+    }
+
+    public destroy(): void {
+        this.close();
+        this.root.remove();
+        document.getElementById('daily-calendar-styles')?.remove();
+    }
+
+    private createElements(): void {
+        this.root = document.createElement('div');
+        this.root.className = 'daily-calendar';
+        this.root.innerHTML = `
+            <div class="daily-calendar-panel">
+                <div class="daily-calendar-header">
+                    <h2>Daily Challenge</h2>
+                    <button class="daily-calendar-close" aria-label="Close calendar">✕</button>
+                </div>
+                <div class="daily-calendar-streak"></div>
+                <div class="daily-calendar-nav">
+                    <button class="daily-calendar-prev" aria-label="Previous month">‹</button>
+                    <span class="daily-calendar-month"></span>
+                    <button class="daily-calendar-next" aria-label="Next month">›</button>
+                </div>
+                <div class="daily-calendar-grid"></div>
+                <button class="daily-calendar-play"></button>
+            </div>
+        `;
+
+        this.monthLabel = this.root.querySelector('.daily-calendar-month') as HTMLSpanElement;
+        this.streakLabel = this.root.querySelector('.daily-calendar-streak') as HTMLDivElement;
+        this.grid = this.root.querySelector('.daily-calendar-grid') as HTMLDivElement;
+        this.playButton = this.root.querySelector('.daily-calendar-play') as HTMLButtonElement;
+
+        document.body.appendChild(this.root);
+    }
+
+    private attachEventListeners(): void {
+        this.root.querySelector('.daily-calendar-close')?.addEventListener('click', () => this.close());
+        this.root.querySelector('.daily-calendar-prev')?.addEventListener('click', () => this.showMonth(-1));
+        this.root.querySelector('.daily-calendar-next')?.addEventListener('click', () => this.showMonth(1));
+        this.playButton.addEventListener('click', () => {
+            this.close();
+            this.onPlay();
+        });
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.key === 'Escape') {
+            this.close();
+        } else if (e.key === 'ArrowLeft') {
+            this.showMonth(-1);
+        } else if (e.key === 'ArrowRight') {
+            this.showMonth(1);
+        }
+    }
+
+    private showMonth(offset: number): void {
+        this.month = new Date(Date.UTC(this.month.getUTCFullYear(), this.month.getUTCMonth() + offset, 1));
+        this.render();
+    }
+
+    /**
+     * Lay out the month on show, Monday first, with each played day's score
+     */
+    private render(): void {
+        const year = this.month.getUTCFullYear();
+        const month = this.month.getUTCMonth();
+        this.monthLabel.textContent = this.month.toLocaleDateString(undefined, {
+            month: 'long',
+            year: 'numeric',
+            timeZone: 'UTC',
+        });
+
+        const cells = WEEKDAYS.map((weekday) => `<div class="daily-calendar-weekday">${weekday}</div>`);
+        const leadingBlanks = (this.month.getUTCDay() + 6) % 7;
+        for (let i = 0; i < leadingBlanks; i++) {
+            cells.push('<div></div>');
+        }
+
+        const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        for (let date = 1; date <= daysInMonth; date++) {
+            const day = getDayKey(new Date(Date.UTC(year, month, date)));
+            const result = this.calendar[day];
+            const classes = ['daily-calendar-day'];
+            if (result) classes.push('played');
+            if (day === this.today) classes.push('today');
+
+            cells.push(`
+                <div class="${classes.join(' ')}" title="${day}">
+                    <span class="daily-calendar-date">${date}</span>
+                    <span class="daily-calendar-score">${result ? result.score : ''}</span>
+                </div>
+            `);
+        }
+
+        this.grid.innerHTML = cells.join('');
+    }
+
+    private injectStyles(): void {
+        if (document.getElementById('daily-calendar-styles')) return;
+
+        const style = document.createElement('style');
+        style.id = 'daily-calendar-styles';
+        style.textContent = `
+            .daily-calendar {
+                position: fixed;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                background: rgba(0, 0, 0, 0.85);
+                display: none;
+                justify-content: center;
+                align-items: center;
+                z-index: 1100;
+            }
+
+            .daily-calendar.active {
+                display: flex;
+            }
+
+            .daily-calendar-panel {
+                background: rgba(10, 35, 66, 0.95);
+                border: 2px solid #0CC7C7;
+                border-radius: 8px;
+                padding: 16px;
+                color: white;
+                width: 360px;
+                max-width: 95vw;
+                box-shadow: 0 0 30px rgba(12, 199, 199, 0.3);
+            }
+
+            .daily-calendar-header {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+            }
+
+            .daily-calendar-header h2 {
+                color: #0CC7C7;
+                margin: 0;
+                font-size: 22px;
+            }
+
+            .daily-calendar-close {
+                background: none;
+                border: none;
+                color: #0CC7C7;
+                font-size: 20px;
+                cursor: pointer;
+            }
+
+            .daily-calendar-streak {
+                color: #b0b0b0;
+                font-size: 14px;
+                margin: 6px 0 12px;
+            }
+
+            .daily-calendar-nav {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+                margin-bottom: 8px;
+            }
+
+            .daily-calendar-nav button,
+            .daily-calendar-play {
+                background: rgba(12, 199, 199, 0.1);
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: #0CC7C7;
+                padding: 4px 12px;
+                font-size: 16px;
+                cursor: pointer;
+            }
+
+            .daily-calendar-grid {
+                display: grid;
+                grid-template-columns: repeat(7, 1fr);
+                gap: 4px;
+            }
+
+            .daily-calendar-weekday {
+                color: #607080;
+                font-size: 12px;
+                text-align: center;
+            }
+
+            .daily-calendar-day {
+                display: flex;
+                flex-direction: column;
+                align-items: center;
+                min-height: 40px;
+                padding: 2px;
+                border: 1px solid rgba(12, 199, 199, 0.15);
+                border-radius: 4px;
+                color: #607080;
+                font-size: 12px;
+            }
+
+            .daily-calendar-day.played {
+                color: white;
+                background: rgba(12, 199, 199, 0.2);
+            }
+
+            .daily-calendar-day.today {
+                border-color: #0CC7C7;
+            }
+
+            .daily-calendar-score {
+                color: #0CC7C7;
+                font-size: 14px;
+                font-weight: bold;
+            }
+
+            .daily-calendar-play {
+                display: block;
+                width: 100%;
+                margin-top: 12px;
+                padding: 8px 12px;
+            }
+        `;
+
+        document.head.appendChild(style);
+    }
+}
@@ -1,8 +1,12 @@
+import { parseReplay } from '../../server/shared/replay';
+import { LeaderboardPanel } from './LeaderboardPanel';
+
 export class DrawerUI {
     private container: HTMLElement;
     private hamburgerBtn!: HTMLButtonElement;
     private drawer!: HTMLDivElement;
     private overlay!: HTMLDivElement;
+    private leaderboardPanel!: LeaderboardPanel;
     private isOpen: boolean = false;
 
     constructor() {
@@ -60,10 +64,46 @@ export class DrawerUI {
                         <span class="button-icon">👥</span>
                         <span class="button-text">Multiplayer</span>
                     </button>
+                    <button class="menu-button autopilot-menu-btn" aria-pressed="false">
+                        <span class="button-icon">🤖</span>
+                        <span class="button-text">Autopilot: Off</span>
+                    </button>
+                    <button class="menu-button ghost-race-menu-btn active" aria-pressed="true">
+                        <span class="button-icon">👻</span>
+                        <span class="button-text">Ghost Race: On</span>
+                    </button>
+                    <button class="menu-button daily-menu-btn" aria-pressed="false">
+                        <span class="button-icon">📅</span>
+                        <span class="button-text">Daily Challenge: Off</span>
+                    </button>
+                    <button class="menu-button daily-calendar-menu-btn">
+                        <span class="button-icon">🗓️</span>
+                        <span class="button-text">Daily Calendar</span>
+                    </button>
+                </div>
+
+                <div class="menu-section">
+                    <h3>Leaderboard</h3>
+                    <div class="leaderboard-panel"></div>
+                </div>
+
+                <div class="menu-section">
+                    <h3>Replays</h3>
+                    <button class="menu-button load-replay-menu-btn">
+                        <span class="button-icon">🎞️</span>
+                        <span class="button-text">Load Replay</span>
+                    </button>
+                    <input class="load-replay-input" type="file" accept=".json,application/json" hidden>
+                    <button class="menu-button match-replays-menu-btn">
+                        <span class="button-icon">📼</span>
+                        <span class="button-text">Match Replays</span>
+                    </button>
                 </div>
             </div>
         `;
 
+        this.leaderboardPanel = new LeaderboardPanel(this.drawer.querySelector('.leaderboard-panel') as HTMLElement);
+
         // Append to DOM
         this.container.appendChild(this.hamburgerBtn);
         this.container.appendChild(this.overlay);
@@ -96,6 +136,151 @@ export class DrawerUI {
                 this.handleMultiplayerClick();
             });
         }
+
+        // Add autopilot toggle handler
+        const autopilotBtn = this.drawer.querySelector('.autopilot-menu-btn');
+        if (autopilotBtn) {
+            autopilotBtn.addEventListener('click', () => {
+                this.handleAutopilotClick();
+            });
+        }
+
+        // Add ghost race toggle handler
+        const ghostRaceBtn = this.drawer.querySelector('.ghost-race-menu-btn');
+        if (ghostRaceBtn) {
+            ghostRaceBtn.addEventListener('click', () => {
+                this.handleGhostRaceClick();
+            });
+        }
+
+        // Switch between the daily challenge and the regular game
+        const dailyBtn = this.drawer.querySelector('.daily-menu-btn');
+        if (dailyBtn) {
+            dailyBtn.addEventListener('click', () => {
+                this.handleDailyClick();
+            });
+        }
+
+        const dailyCalendarBtn = this.drawer.querySelector('.daily-calendar-menu-btn');
+        if (dailyCalendarBtn) {
+            dailyCalendarBtn.addEventListener('click', () => {
+                const game = (window as any).game;
+                if (!game || typeof game.showDailyCalendar !== 'function') return;
+
+                this.close();
+                game.showDailyCalendar();
+            });
+        }
+
+        // Load a replay file picked by the player
+        const loadReplayBtn = this.drawer.querySelector('.load-replay-menu-btn');
+        const loadReplayInput = this.drawer.querySelector('.load-replay-input') as HTMLInputElement | null;
+        if (loadReplayBtn && loadReplayInput) {
+            loadReplayBtn.addEventListener('click', () => loadReplayInput.click());
+            loadReplayInput.addEventListener('change', () => {
+                const file = loadReplayInput.files?.[0];
+                // Clear the input so picking the same file again still fires
+                loadReplayInput.value = '';
+                if (file) {
+                    this.handleLoadReplayFile(file);
+                }
+            });
+        }
+
+        // Browse the multiplayer rounds recorded by the server
+        const matchReplaysBtn = this.drawer.querySelector('.match-replays-menu-btn');
+        if (matchReplaysBtn) {
+            matchReplaysBtn.addEventListener('click', () => {
+                const game = (window as any).game;
+                if (!game || typeof game.watchMatchReplays !== 'function') return;
+
+                this.close();
+                game.watchMatchReplays();
+            });
+        }
+    }
+
+    private handleLoadReplayFile(file: File): void {
+        const game = (window as any).game;
+        if (!game || typeof game.watchReplay !== 'function') return;
+
+        file.text()
+            .then((text) => {
+                this.close();
+                game.watchReplay(parseReplay(text));
+            })
+            .catch((error: Error) => {
+                console.error('Failed to load replay:', error);
+                game.uiManager?.showNotification(`Couldn't load replay: ${error.message}`, true);
+            });
+    }
+
+    private handleAutopilotClick(): void {
+        const game = (window as any).game;
+        if (!game || typeof game.setAutopilot !== 'function') return;
+
+        game.setAutopilot(!game.autopilotEnabled);
+        this.updateAutopilotButton(game.autopilotEnabled);
+
+        // Close the drawer so the autopilot can be watched
+        if (game.autopilotEnabled) {
+            this.close();
+        }
+    }
+
+    private updateAutopilotButton(enabled: boolean): void {
+        const autopilotBtn = this.drawer.querySelector('.autopilot-menu-btn');
+        if (!autopilotBtn) return;
+
+        autopilotBtn.setAttribute('aria-pressed', String(enabled));
+        autopilotBtn.classList.toggle('active', enabled);
+        const label = autopilotBtn.querySelector('.button-text');
+        if (label) {
+            label.textContent = `Autopilot: ${enabled ? 'On' : 'Off'}`;
+        }
+    }
+
+    private handleGhostRaceClick(): void {
+        const game = (window as any).game;
+        if (!game || typeof game.setGhostRace !== 'function') return;
+
+        game.setGhostRace(!game.ghostRaceEnabled);
+
+        const ghostRaceBtn = this.drawer.querySelector('.ghost-race-menu-btn');
+        if (!ghostRaceBtn) return;
+
+        ghostRaceBtn.setAttribute('aria-pressed', String(game.ghostRaceEnabled));
+        ghostRaceBtn.classList.toggle('active', game.ghostRaceEnabled);
+        const label = ghostRaceBtn.querySelector('.button-text');
+        if (label) {
+            label.textContent = `Ghost Race: ${game.ghostRaceEnabled ? 'On' : 'Off'}`;
+        }
+    }
+
+    private handleDailyClick(): void {
+        const game = (window as any).game;
+        if (!game || typeof game.switchGameMode !== 'function') return;
+
+        this.close();
+        game.switchGameMode(game.isDailyChallenge() ? 'singlePlayer' : 'dailyChallenge')
+            .catch(() => {
+                // Already reported by the game
+            })
+            .finally(() => this.updateDailyButton());
+    }
+
+    private updateDailyButton(): void {
+        const game = (window as any).game;
+        const dailyBtn = this.drawer.querySelector('.daily-menu-btn');
+        if (!game || typeof game.isDailyChallenge !== 'function' || !dailyBtn) return;
+
+        const enabled = game.isDailyChallenge();
+        dailyBtn.setAttribute('aria-pressed', String(enabled));
+        dailyBtn.classList.toggle('active', enabled);
+        const label = dailyBtn.querySelector('.button-text');
+        if (label) {
+            label.textContent = `Daily Challenge: ${enabled ? 'On' : 'Off'}`;
+        }
     }
 
     private handleMultiplayerClick(): void {
@@ -332,6 +517,11 @@ export class DrawerUI {
                 transform: translateY(0);
             }
 
+            .menu-button.active {
+                background: rgba(12, 199, 199, 0.3);
+                border-color: #0CC7C7;
+            }
+
             .button-icon {
                 font-size: 18px;
             }
@@ -398,6 +588,9 @@ export class DrawerUI {
     }
 
     public open(): void {
+        // The mode can change outside the drawer (URL, calendar, multiplayer)
+        this.updateDailyButton();
+        this.leaderboardPanel.refresh();
         this.isOpen = true;
         this.hamburgerBtn.classList.add('active');
         this.drawer.classList.add('active');
@@ -0,0 +1,236 @@
+import {
+    LEADERBOARD_PERIODS,
+    LeaderboardMode,
+    LeaderboardPeriod,
+    MAX_LEADERBOARD_NAME_LENGTH,
+} from '../../server/shared/leaderboard';
+import { fetchLeaderboard, getLeaderboardName, setLeaderboardName } from '../utils/leaderboard';
+import { escapeHtml } from '../utils/utils';
+
+const MODE_LABELS: Record<LeaderboardMode, string> = {
+    singlePlayer: 'Classic',
+    dailyChallenge: 'Daily Challenge',
+};
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+    allTime: 'All Time',
+    weekly: 'This Week',
+    daily: 'Today',
+};
+
+/**
+ * Leaderboard section of the drawer: pick a mode and period to see the top
+ * scores, and set the name scores are submitted under.
+ */
+export class LeaderboardPanel {
+    private root: HTMLElement;
+    private nameInput!: HTMLInputElement;
+    private modeSelect!: HTMLSelectElement;
+    private status!: HTMLParagraphElement;
+    private list!: HTMLOListElement;
+
+    private mode: LeaderboardMode = 'singlePlayer';
+    private period: LeaderboardPeriod = 'allTime';
+    // Number of the latest request, so slow answers to older ones are dropped
+    private request: number = 0;
+
+    /**
+     * @param root - Element the panel is built in
+     */
+    constructor(root: HTMLElement) {
+        this.root = root;
+        this.createElements();
+        this.attachEventListeners();
+        this.injectStyles();
+    }
+
+    /**
+     * Load the board on show
+     */
+    async refresh(): Promise<void> {
+        const request = ++this.request;
+        this.nameInput.value = getLeaderboardName();
+        this.status.textContent = 'Loading…';
+        this.status.style.display = 'block';
+        this.list.innerHTML = '';
+
+        let rows;
+        try {
+            ({ rows } = await fetchLeaderboard(this.mode, this.period));
+        } catch (error) {
+            console.error('Failed to load leaderboard:', error);
+            if (request === this.request) {
+                this.status.textContent = 'Could not reach the game server.';
+            }
+            return;
+        }
+        if (request !== this.request) return;
+
+        const name = getLeaderboardName();
+        this.status.textContent = 'No scores yet.';
+        this.status.style.display = rows.length > 0 ? 'none' : 'block';
+        this.list.innerHTML = rows
+            .map(
+                (row) => `
+                    <li class="leaderboard-row${row.name === name ? ' own' : ''}">
+                        <span class="leaderboard-rank">${row.rank}</span>
+                        <span class="leaderboard-name">${escapeHtml(row.name)}</span>
+                        <span class="leaderboard-score">${row.score}</span>
+                    </li>
+                `
+            )
+            .join('');
+    }
+
+    private createElements(): void {
+        this.root.innerHTML = `
+            <label class="leaderboard-name-field">
+                Your name
+                <input class="leaderboard-name-input" type="text" maxlength="${MAX_LEADERBOARD_NAME_LENGTH}">
+            </label>
+            <select class="leaderboard-mode" aria-label="Leaderboard mode">
+                ${Object.entries(MODE_LABELS)
+                    .map(([mode, label]) => `<option value="${mode}">${label}</option>`)
+                    .join('')}
+            </select>
+            <div class="leaderboard-periods" role="tablist">
+                ${LEADERBOARD_PERIODS.map(
+                    (period) =>
+                        `<button class="leaderboard-period${period === this.period ? ' active' : ''}" data-period="${period}">${PERIOD_LABELS[period]}</button>`
+                ).join('')}
+            </div>
+            <p class="leaderboard-status"></p>
+            <ol class="leaderboard-list"></ol>
+        `;
+
+        this.nameInput = this.root.querySelector('.leaderboard-name-input') as HTMLInputElement;
+        this.modeSelect = this.root.querySelector('.leaderboard-mode') as HTMLSelectElement;
+        this.status = this.root.querySelector('.leaderboard-status') as HTMLParagraphElement;
+        this.list = this.root.querySelector('.leaderboard-list') as HTMLOListElement;
+    }
+
+    private attachEventListeners(): void {
+        // Keep the name as typed once it's usable; otherwise put the saved one back
+        this.nameInput.addEventListener('change', () => {
+            this.nameInput.value = setLeaderboardName(this.nameInput.value) ?? getLeaderboardName();
+            this.refresh();
+        });
+
+        this.modeSelect.addEventListener('change', () => {
+            this.mode = this.modeSelect.value as LeaderboardMode;
+            this.refresh();
+        });
+
+        this.root.querySelectorAll<HTMLButtonElement>('.leaderboard-period').forEach((button) => {
+            button.addEventListener('click', () => {
+                this.period = button.dataset.period as LeaderboardPeriod;
+                this.root.querySelectorAll('.leaderboard-period').forEach((other) => {
+                    other.classList.toggle('active', other === button);
+                });
+                this.refresh();
+            });
+        });
+    }
+
+    private injectStyles(): void {
+        if (document.getElementById('leaderboard-panel-styles')) return;
+
+        const style = document.createElement('style');
+        style.id = 'leaderboard-panel-styles';
+        style.textContent = `
+            .leaderboard-name-field {
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                color: #b0b0b0;
+                font-size: 14px;
+                margin-bottom: 10px;
+            }
+
+            .leaderboard-name-input,
+            .leaderboard-mode {
+                flex: 1;
+                background: rgba(12, 199, 199, 0.1);
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: white;
+                padding: 6px 8px;
+                font-size: 14px;
+            }
+
+            .leaderboard-mode {
+                width: 100%;
+                margin-bottom: 10px;
+            }
+
+            .leaderboard-mode option {
+                background: #0a192f;
+            }
+
+            .leaderboard-periods {
+                display: flex;
+                gap: 6px;
+                margin-bottom: 10px;
+            }
+
+            .leaderboard-period {
+                flex: 1;
+                background: transparent;
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: #0CC7C7;
+                padding: 6px 4px;
+                font-size: 13px;
+                cursor: pointer;
+            }
+
+            .leaderboard-period.active {
+                background: #0CC7C7;
+                color: #0a192f;
+            }
+
+            .leaderboard-status {
+                color: #b0b0b0;
+                font-size: 14px;
+            }
+
+            .leaderboard-list {
+                list-style: none;
+                margin: 0;
+                padding: 0;
+            }
+
+            .leaderboard-row {
+                display: flex;
+                gap: 10px;
+                padding: 4px 6px;
+                font-size: 14px;
+                border-bottom: 1px solid rgba(12, 199, 199, 0.1);
+            }
+
+            .leaderboard-row.own {
+                background: rgba(12, 199, 199, 0.15);
+            }
+
+            .leaderboard-rank {
+                width: 24px;
+                color: #607080;
+                text-align: right;
+            }
+
+            .leaderboard-name {
+                flex: 1;
+                overflow: hidden;
+                text-overflow: ellipsis;
+                white-space: nowrap;
+            }
+
+            .leaderboard-score {
+                color: #0CC7C7;
+                font-weight: bold;
+            }
+        `;
+
+        document.head.appendChild(style);
+    }
+}
@@ -0,0 +1,895 @@
+import { GAME, PLAYER_STATE, STATE } from '../constants/gameConstants';
+import { getServerUrl } from '../utils/serverUrl';
+import {
+    findSnapshotIndex,
+    MatchEvent,
+    MatchReplay,
+    MatchReplaySummary,
+    MatchSnapshot,
+    sampleMatchReplay,
+    validateMatchReplay,
+} from '../../server/shared/matchReplay';
+import { drawProjectile, getPlayerColor } from '../utils/drawSimulation';
+import { getSprite } from '../utils/sprites';
+import { escapeHtml } from '../utils/utils';
+
+// Playback speeds offered in the speed menu
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Size of the viewer canvas in pixels; the camera decides what part of the arena fills it
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 600;
+
+// Camera limits and speeds
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.2;
+const PAN_SPEED = 500; // screen pixels per second while a pan key is held
+
+// Pointer movement (in pixels) below which a press counts as a click rather than a drag
+const CLICK_DISTANCE = 4;
+
+const PAN_KEYS: Record<string, [number, number]> = {
+    ArrowUp: [0, -1],
+    w: [0, -1],
+    ArrowDown: [0, 1],
+    s: [0, 1],
+    ArrowLeft: [-1, 0],
+    a: [-1, 0],
+    ArrowRight: [1, 0],
+    d: [1, 0],
+};
+
+/**
+ * Center of the view in arena units, and pixels per arena unit
+ */
+interface Camera {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+/**
+ * Full-screen browser and viewer for multiplayer rounds recorded by the
+ * server. Rounds play back from their snapshots with a free camera that can
+ * pan and zoom anywhere in the arena, or follow a player.
+ */
+export class MatchReplayViewer {
+    private root!: HTMLDivElement;
+    private listView!: HTMLDivElement;
+    private listStatus!: HTMLDivElement;
+    private listBody!: HTMLDivElement;
+    private watchView!: HTMLDivElement;
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private infoLabel!: HTMLDivElement;
+    private playersPanel!: HTMLDivElement;
+    private eventsPanel!: HTMLDivElement;
+    private playButton!: HTMLButtonElement;
+    private scrubber!: HTMLInputElement;
+    private speedSelect!: HTMLSelectElement;
+    private timeLabel!: HTMLSpanElement;
+
+    private replay: MatchReplay | null = null;
+    private playerNames = new Map<string, string>();
+    private time: number = 0;
+    private playing: boolean = false;
+    private speed: number = 1;
+    private lastTimestamp: number = 0;
+    private animationFrame: number | null = null;
+    private onClose: (() => void) | null = null;
+    // Snapshot and followed player the side panels were last drawn for
+    private panelSnapshotIndex: number = -1;
+    private panelFollowId: string | null = null;
+
+    private camera: Camera = { x: 0, y: 0, zoom: 1 };
+    private followId: string | null = null;
+    private heldPanKeys = new Set<string>();
+    private drag: { x: number; y: number; moved: boolean } | null = null;
+
+    constructor() {
+        this.createElements();
+        this.attachEventListeners();
+        this.injectStyles();
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+        this.handleKeyUp = this.handleKeyUp.bind(this);
+        this.loop = this.loop.bind(this);
+    }
+
+    /**
+     * Show the list of recorded rounds
+     * @param onClose - Called once the viewer is closed
+     */
+    open(onClose?: () => void): void {
+        if (this.isOpen()) {
+            this.close();
+        }
+
+        this.onClose = onClose ?? null;
+        this.root.classList.add('active');
+        document.addEventListener('keydown', this.handleKeyDown);
+        document.addEventListener('keyup', this.handleKeyUp);
+        this.showList();
+    }
+
+    /**
+     * Close the viewer
+     */
+    close(): void {
+        if (!this.isOpen()) return;
+
+        this.root.classList.remove('active');
+        document.removeEventListener('keydown', this.handleKeyDown);
+        document.removeEventListener('keyup', this.handleKeyUp);
+        this.stopWatching();
+
+        const onClose = this.onClose;
+        this.onClose = null;
+        onClose?.();
+    }
+
+    isOpen(): boolean {
+        return this.root.classList.contains('active');
+    }
+
+    public destroy(): void {
+        this.close();
+        this.root.remove();
+        document.getElementById('match-viewer-styles')?.remove();
+    }
+
+    private createElements(): void {
+        this.root = document.createElement('div');
+        this.root.className = 'match-viewer';
+        this.root.innerHTML = `
+            <div class="match-viewer-panel">
+                <div class="match-viewer-header">
+                    <h2>Match Replays</h2>
+                    <div class="match-viewer-info"></div>
+                    <button class="match-viewer-close" aria-label="Close match replays">✕</button>
+                </div>
+                <div class="match-viewer-list-view">
+                    <div class="match-viewer-status"></div>
+                    <div class="match-viewer-list"></div>
+                </div>
+                <div class="match-viewer-watch-view">
+                    <div class="match-viewer-stage">
+                        <canvas class="match-viewer-canvas" width="${VIEW_WIDTH}" height="${VIEW_HEIGHT}"></canvas>
+                        <div class="match-viewer-side">
+                            <h3>Players</h3>
+                            <div class="match-viewer-players"></div>
+                            <h3>Events</h3>
+                            <div class="match-viewer-events"></div>
+                        </div>
+                    </div>
+                    <div class="match-viewer-hint">
+                        Drag or WASD to pan · Wheel or +/− to zoom · Click a player to follow · F cycles players · 0 resets the camera
+                    </div>
+                    <div class="match-viewer-controls">
+                        <button class="match-viewer-back">Back</button>
+                        <button class="match-viewer-play">Play</button>
+                        <input class="match-viewer-scrubber" type="range" min="0" max="0" step="0.1" value="0" aria-label="Replay position">
+                        <span class="match-viewer-time">0:00.0</span>
+                        <select class="match-viewer-speed" aria-label="Playback speed">
+                            ${SPEEDS.map((speed) => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}×</option>`).join('')}
+                        </select>
+                        <button class="match-viewer-reset">Reset Camera</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        this.listView = this.root.querySelector('.match-viewer-list-view') as HTMLDivElement;
+        this.listStatus = this.root.querySelector('.match-viewer-status') as HTMLDivElement;
+        this.listBody = this.root.querySelector('.match-viewer-list') as HTMLDivElement;
+        this.watchView = this.root.querySelector('.match-viewer-watch-view') as HTMLDivElement;
+        this.canvas = this.root.querySelector('.match-viewer-canvas') as HTMLCanvasElement;
+        this.ctx = this.canvas.getContext('2d')!;
+        this.infoLabel = this.root.querySelector('.match-viewer-info') as HTMLDivElement;
+        this.playersPanel = this.root.querySelector('.match-viewer-players') as HTMLDivElement;
+        this.eventsPanel = this.root.querySelector('.match-viewer-events') as HTMLDivElement;
+        this.playButton = this.root.querySelector('.match-viewer-play') as HTMLButtonElement;
+        this.scrubber = this.root.querySelector('.match-viewer-scrubber') as HTMLInputElement;
+        this.speedSelect = this.root.querySelector('.match-viewer-speed') as HTMLSelectElement;
+        this.timeLabel = this.root.querySelector('.match-viewer-time') as HTMLSpanElement;
+
+        document.body.appendChild(this.root);
+    }
+
+    private attachEventListeners(): void {
+        this.root.querySelector('.match-viewer-close')?.addEventListener('click', () => this.close());
+        this.root.querySelector('.match-viewer-back')?.addEventListener('click', () => this.showList());
+        this.root.querySelector('.match-viewer-reset')?.addEventListener('click', () => this.resetCamera());
+        this.playButton.addEventListener('click', () => this.togglePlay());
+
+        this.scrubber.addEventListener('input', () => this.seek(Number(this.scrubber.value)));
+        this.speedSelect.addEventListener('change', () => {
+            this.speed = Number(this.speedSelect.value) || 1;
+        });
+
+        this.listBody.addEventListener('click', (e) => {
+            const row = (e.target as HTMLElement).closest<HTMLElement>('[data-replay-id]');
+            if (row?.dataset.replayId) {
+                this.loadReplay(row.dataset.replayId);
+            }
+        });
+
+        this.playersPanel.addEventListener('click', (e) => {
+            const row = (e.target as HTMLElement).closest<HTMLElement>('[data-player-id]');
+            if (row?.dataset.playerId) {
+                this.follow(row.dataset.playerId);
+            }
+        });
+
+        this.eventsPanel.addEventListener('click', (e) => {
+            const row = (e.target as HTMLElement).closest<HTMLElement>('[data-time]');
+            if (row?.dataset.time) {
+                this.seek(Number(row.dataset.time));
+            }
+        });
+
+        // Drag to pan, click to follow the player under the pointer
+        this.canvas.addEventListener('pointerdown', (e) => {
+            this.canvas.setPointerCapture(e.pointerId);
+            this.drag = { x: e.clientX, y: e.clientY, moved: false };
+        });
+        this.canvas.addEventListener('pointermove', (e) => {
+            if (!this.drag) return;
+
+            const dx = e.clientX - this.drag.x;
+            const dy = e.clientY - this.drag.y;
+            if (!this.drag.moved && Math.hypot(dx, dy) < CLICK_DISTANCE) return;
+
+            const pixelScale = this.getPixelScale();
+            this.drag = { x: e.clientX, y: e.clientY, moved: true };
+            this.followId = null;
+            this.camera.x -= (dx * pixelScale) / this.camera.zoom;
+            this.camera.y -= (dy * pixelScale) / this.camera.zoom;
+        });
+        this.canvas.addEventListener('pointerup', (e) => {
+            if (this.drag && !this.drag.moved) {
+                const [x, y] = this.toWorld(e.clientX, e.clientY);
+                const player = this.findPlayerAt(x, y);
+                if (player) {
+                    this.follow(player);
+                }
+            }
+            this.drag = null;
+        });
+
+        this.canvas.addEventListener(
+            'wheel',
+            (e) => {
+                e.preventDefault();
+                this.zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+            },
+            { passive: false }
+        );
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.key === 'Escape') {
+            this.close();
+            return;
+        }
+        if (!this.replay) return;
+
+        const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+        if (PAN_KEYS[key]) {
+            e.preventDefault();
+            this.heldPanKeys.add(key);
+            this.followId = null;
+        } else if (key === ' ') {
+            e.preventDefault();
+            this.togglePlay();
+        } else if (key === '+' || key === '=') {
+            this.zoomAt(ZOOM_STEP);
+        } else if (key === '-') {
+            this.zoomAt(1 / ZOOM_STEP);
+        } else if (key === 'f') {
+            this.followNext();
+        } else if (key === '0') {
+            this.resetCamera();
+        }
+    }
+
+    private handleKeyUp(e: KeyboardEvent): void {
+        this.heldPanKeys.delete(e.key.length === 1 ? e.key.toLowerCase() : e.key);
+    }
+
+    private async showList(): Promise<void> {
+        this.stopWatching();
+        this.watchView.style.display = 'none';
+        this.listView.style.display = 'block';
+        this.infoLabel.textContent = '';
+        this.listBody.innerHTML = '';
+        this.listStatus.textContent = 'Loading…';
+
+        let summaries: MatchReplaySummary[];
+        try {
+            const response = await fetch(`${getServerUrl('http')}/replays`);
+            if (!response.ok) {
+                throw new Error(`Server responded with ${response.status}`);
+            }
+            summaries = await response.json();
+        } catch (error) {
+            console.error('Failed to list match replays:', error);
+            this.listStatus.textContent = 'Could not reach the game server.';
+            return;
+        }
+
+        this.listStatus.textContent = summaries.length > 0 ? '' : 'No rounds have been recorded yet.';
+        this.listBody.innerHTML = summaries
+            .map(
+                (summary) => `
+                    <button class="match-viewer-row" data-replay-id="${escapeHtml(summary.id)}">
+                        <span>${escapeHtml(new Date(summary.startedAt).toLocaleString())}</span>
+                        <span>Room ${escapeHtml(summary.roomId)}</span>
+                        <span>${summary.playerCount} players</span>
+                        <span>${formatTime(summary.duration)}</span>
+                        <span>🏆 ${escapeHtml(summary.winnerName || 'No one')}</span>
+                    </button>
+                `
+            )
+            .join('');
+    }
+
+    private async loadReplay(id: string): Promise<void> {
+        this.listStatus.textContent = 'Loading replay…';
+
+        let replay: MatchReplay;
+        try {
+            const response = await fetch(`${getServerUrl('http')}/replays/${encodeURIComponent(id)}`);
+            if (!response.ok) {
+                throw new Error(`Server responded with ${response.status}`);
+            }
+            replay = validateMatchReplay(await response.json());
+        } catch (error) {
+            console.error(`Failed to load match replay ${id}:`, error);
+            this.listStatus.textContent = 'Could not load that replay.';
+            return;
+        }
+
+        // The viewer may have been closed while the replay was downloading
+        if (this.isOpen()) {
+            this.watch(replay);
+        }
+    }
+
+    private watch(replay: MatchReplay): void {
+        this.replay = replay;
+        this.playerNames = new Map(replay.players.map((player) => [player.id, player.name]));
+        this.scrubber.max = String(replay.duration);
+        this.infoLabel.textContent = `Room ${replay.roomId} · Seed ${replay.seed} · ${replay.players.length} players`;
+        this.listView.style.display = 'none';
+        this.watchView.style.display = 'block';
+
+        this.renderEvents(replay.events);
+        this.panelSnapshotIndex = -1;
+        this.resetCamera();
+        this.seek(0);
+        this.setPlaying(false);
+
+        this.lastTimestamp = 0;
+        this.animationFrame = requestAnimationFrame(this.loop);
+    }
+
+    private stopWatching(): void {
+        if (this.animationFrame !== null) {
+            cancelAnimationFrame(this.animationFrame);
+            this.animationFrame = null;
+        }
+        this.replay = null;
+        this.playing = false;
+        this.followId = null;
+        this.heldPanKeys.clear();
+        this.drag = null;
+    }
+
+    private togglePlay(): void {
+        if (!this.replay) return;
+
+        // Playing from the end starts over
+        if (!this.playing && this.time >= this.replay.duration) {
+            this.seek(0);
+        }
+        this.setPlaying(!this.playing);
+    }
+
+    private setPlaying(playing: boolean): void {
+        this.playing = playing;
+        this.playButton.textContent = playing ? 'Pause' : 'Play';
+    }
+
+    private seek(time: number): void {
+        if (!this.replay) return;
+        this.time = Math.max(0, Math.min(time, this.replay.duration));
+    }
+
+    /**
+     * Follow a player with the camera
+     */
+    private follow(playerId: string): void {
+        this.followId = playerId;
+    }
+
+    /**
+     * Follow the next player still in the round, in player list order
+     */
+    private followNext(): void {
+        if (!this.replay) return;
+
+        const alive = sampleMatchReplay(this.replay, this.time).players.filter(
+            (player) => player.state === PLAYER_STATE.ALIVE
+        );
+        if (alive.length === 0) return;
+
+        const current = alive.findIndex((player) => player.id === this.followId);
+        this.follow(alive[(current + 1) % alive.length].id);
+    }
+
+    /**
+     * Stop following and fit the whole arena in view
+     */
+    private resetCamera(): void {
+        if (!this.replay) return;
+
+        this.followId = null;
+        this.camera = {
+            x: this.replay.arenaWidth / 2,
+            y: this.replay.arenaHeight / 2,
+            zoom: Math.min(VIEW_WIDTH / this.replay.arenaWidth, VIEW_HEIGHT / this.replay.arenaHeight) * 0.95,
+        };
+    }
+
+    /**
+     * Zoom, keeping the arena point under the pointer (or the view center) in place
+     */
+    private zoomAt(factor: number, clientX?: number, clientY?: number): void {
+        const zoom = Math.max(MIN_ZOOM, Math.min(this.camera.zoom * factor, MAX_ZOOM));
+        if (clientX === undefined || clientY === undefined || this.followId) {
+            this.camera.zoom = zoom;
+            return;
+        }
+
+        const [worldX, worldY] = this.toWorld(clientX, clientY);
+        this.camera.x = worldX - (worldX - this.camera.x) * (this.camera.zoom / zoom);
+        this.camera.y = worldY - (worldY - this.camera.y) * (this.camera.zoom / zoom);
+        this.camera.zoom = zoom;
+    }
+
+    /**
+     * Canvas pixels per CSS pixel, as the canvas is scaled down to fit small screens
+     */
+    private getPixelScale(): number {
+        const rect = this.canvas.getBoundingClientRect();
+        return rect.width > 0 ? this.canvas.width / rect.width : 1;
+    }
+
+    /**
+     * Convert a pointer position to arena units
+     */
+    private toWorld(clientX: number, clientY: number): [number, number] {
+        const rect = this.canvas.getBoundingClientRect();
+        const pixelScale = this.getPixelScale();
+        const x = (clientX - rect.left) * pixelScale;
+        const y = (clientY - rect.top) * pixelScale;
+        return [
+            this.camera.x + (x - VIEW_WIDTH / 2) / this.camera.zoom,
+            this.camera.y + (y - VIEW_HEIGHT / 2) / this.camera.zoom,
+        ];
+    }
+
+    private findPlayerAt(x: number, y: number): string | null {
+        if (!this.replay) return null;
+
+        const hit = sampleMatchReplay(this.replay, this.time).players.find(
+            (player) =>
+                x >= player.x && x <= player.x + player.width && y >= player.y && y <= player.y + player.height
+        );
+        return hit?.id ?? null;
+    }
+
+    private loop(timestamp: number): void {
+        const deltaTime = this.lastTimestamp ? Math.min((timestamp - this.lastTimestamp) / 1000, 0.1) : 0;
+        this.lastTimestamp = timestamp;
+
+        const replay = this.replay;
+        if (!replay) return;
+
+        if (this.playing) {
+            this.time = Math.min(this.time + deltaTime * this.speed, replay.duration);
+            if (this.time >= replay.duration) {
+                this.setPlaying(false);
+            }
+        }
+
+        // Pan with the held keys at a steady on-screen speed whatever the zoom
+        for (const key of this.heldPanKeys) {
+            const [dx, dy] = PAN_KEYS[key];
+            this.camera.x += (dx * PAN_SPEED * deltaTime) / this.camera.zoom;
+            this.camera.y += (dy * PAN_SPEED * deltaTime) / this.camera.zoom;
+        }
+
+        const snapshot = sampleMatchReplay(replay, this.time);
+        const followed = this.followId ? snapshot.players.find((player) => player.id === this.followId) : undefined;
+        if (followed) {
+            this.camera.x = followed.x + followed.width / 2;
+            this.camera.y = followed.y + followed.height / 2;
+        }
+
+        this.render(replay, snapshot, timestamp);
+        this.updateControls(replay);
+        this.animationFrame = requestAnimationFrame(this.loop);
+    }
+
+    private render(replay: MatchReplay, snapshot: MatchSnapshot, timestamp: number): void {
+        const ctx = this.ctx;
+        const { x, y, zoom } = this.camera;
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = '#050d1a';
+        ctx.fillRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+
+        // Everything below is drawn in arena units
+        ctx.setTransform(zoom, 0, 0, zoom, VIEW_WIDTH / 2 - x * zoom, VIEW_HEIGHT / 2 - y * zoom);
+        ctx.fillStyle = '#0a192f';
+        ctx.fillRect(0, 0, replay.arenaWidth, replay.arenaHeight);
+
+        // Winning line
+        ctx.save();
+        ctx.strokeStyle = 'rgba(12, 199, 199, 0.6)';
+        ctx.lineWidth = 1 / zoom;
+        ctx.setLineDash([10 / zoom, 10 / zoom]);
+        ctx.beginPath();
+        ctx.moveTo(0, GAME.WINNING_LINE);
+        ctx.lineTo(replay.arenaWidth, GAME.WINNING_LINE);
+        ctx.stroke();
+        ctx.restore();
+
+        // Safe zone, and the circle it's closing in on
+        const { zone, nextZone } = snapshot;
+        if (nextZone.radius < zone.radius) {
+            ctx.save();
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+            ctx.lineWidth = 1 / zoom;
+            ctx.setLineDash([8 / zoom, 6 / zoom]);
+            ctx.beginPath();
+            ctx.arc(nextZone.x, nextZone.y, nextZone.radius, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.restore();
+        }
+        if (zone.radius < Math.hypot(replay.arenaWidth, replay.arenaHeight) / 2) {
+            ctx.strokeStyle = 'rgba(255, 0, 0, 0.7)';
+            ctx.lineWidth = 2 / zoom;
+            ctx.beginPath();
+            ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+
+        for (const obstacle of snapshot.obstacles) {
+            const sprite = getSprite('obstacle', obstacle.variant, timestamp);
+            ctx.drawImage(sprite, obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+        }
+
+        for (const projectile of snapshot.projectiles) {
+            drawProjectile(ctx, projectile, zoom);
+        }
+
+        const indices = new Map(replay.players.map((player) => [player.id, player.playerIndex]));
+        ctx.font = `${12 / zoom}px Arial`;
+        ctx.textAlign = 'center';
+        for (const player of snapshot.players) {
+            const alive = player.state === PLAYER_STATE.ALIVE;
+
+            ctx.save();
+            ctx.globalAlpha = alive ? (player.stunned ? 0.6 : 1) : 0.25;
+            ctx.fillStyle = getPlayerColor(indices.get(player.id) ?? 0);
+            ctx.fillRect(player.x, player.y, player.width, player.height);
+            if (player.id === this.followId) {
+                ctx.strokeStyle = '#ffffff';
+                ctx.lineWidth = 2 / zoom;
+                ctx.strokeRect(player.x - 3 / zoom, player.y - 3 / zoom, player.width + 6 / zoom, player.height + 6 / zoom);
+            }
+            ctx.fillStyle = 'white';
+            ctx.fillText(this.playerNames.get(player.id) ?? '', player.x + player.width / 2, player.y - 5 / zoom);
+            ctx.restore();
+        }
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        if (snapshot.gameState === STATE.STARTING) {
+            ctx.fillStyle = 'white';
+            ctx.font = '20px Arial';
+            ctx.textAlign = 'center';
+            ctx.fillText('Countdown', VIEW_WIDTH / 2, 30);
+        }
+    }
+
+    private updateControls(replay: MatchReplay): void {
+        if (document.activeElement !== this.scrubber) {
+            this.scrubber.value = String(this.time);
+        }
+        this.timeLabel.textContent = `${formatTime(this.time)} / ${formatTime(replay.duration)}`;
+
+        // The side panels only change when a new snapshot is reached
+        const index = findSnapshotIndex(replay.snapshots, this.time);
+        if (index === this.panelSnapshotIndex && this.followId === this.panelFollowId) return;
+        this.panelSnapshotIndex = index;
+        this.panelFollowId = this.followId;
+
+        const snapshot = replay.snapshots[Math.max(0, index)];
+        const present = new Map(snapshot.players.map((player) => [player.id, player]));
+        this.playersPanel.innerHTML = replay.players
+            .map((info) => {
+                const player = present.get(info.id);
+                const status = !player ? 'left' : player.state === PLAYER_STATE.ALIVE ? 'alive' : 'out';
+                return `
+                    <div class="match-viewer-player${info.id === this.followId ? ' followed' : ''}" data-player-id="${escapeHtml(info.id)}">
+                        <span class="match-viewer-swatch" style="background:${getPlayerColor(info.playerIndex)}"></span>
+                        <span class="match-viewer-name">${escapeHtml(info.name)}${info.isBot ? ' 🤖' : ''}</span>
+                        <span class="match-viewer-status-${status}">${status}</span>
+                        <span>${player?.score ?? ''}</span>
+                    </div>
+                `;
+            })
+            .join('');
+
+        this.eventsPanel.querySelectorAll<HTMLElement>('[data-time]').forEach((row) => {
+            row.classList.toggle('past', Number(row.dataset.time) <= this.time);
+        });
+    }
+
+    private renderEvents(events: MatchEvent[]): void {
+        const describe = (event: MatchEvent): string => {
+            switch (event.type) {
+                case 'join':
+                    return `${escapeHtml(event.name)} joined`;
+                case 'leave':
+                    return `${escapeHtml(this.playerNames.get(event.playerId) ?? 'A player')} left`;
+                case 'eliminated':
+                    return `${escapeHtml(this.playerNames.get(event.playerId) ?? 'A player')} was eliminated`;
+                case 'winner':
+                    return `🏆 ${escapeHtml(event.name)} wins`;
+            }
+        };
+
+        this.eventsPanel.innerHTML =
+            events
+                .map(
+                    (event) => `
+                        <div class="match-viewer-event" data-time="${event.time}">
+                            <span class="match-viewer-event-time">${formatTime(event.time)}</span>
+                            ${describe(event)}
+                        </div>
+                    `
+                )
+                .join('') || '<div class="match-viewer-empty">Nothing happened</div>';
+    }
+
+    private injectStyles(): void {
+        if (document.getElementById('match-viewer-styles')) return;
+
+        const style = document.createElement('style');
+        style.id = 'match-viewer-styles';
+        style.textContent = `
+            .match-viewer {
+                position: fixed;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                background: rgba(0, 0, 0, 0.85);
+                display: none;
+                justify-content: center;
+                align-items: center;
+                z-index: 1100;
+            }
+
+            .match-viewer.active {
+                display: flex;
+            }
+
+            .match-viewer-panel {
+                background: rgba(10, 35, 66, 0.95);
+                border: 2px solid #0CC7C7;
+                border-radius: 8px;
+                padding: 16px;
+                color: white;
+                max-width: 95vw;
+                max-height: 95vh;
+                overflow: auto;
+                box-shadow: 0 0 30px rgba(12, 199, 199, 0.3);
+            }
+
+            .match-viewer-header {
+                display: flex;
+                align-items: center;
+                gap: 16px;
+                margin-bottom: 12px;
+            }
+
+            .match-viewer-header h2 {
+                color: #0CC7C7;
+                margin: 0;
+                font-size: 22px;
+            }
+
+            .match-viewer-info {
+                flex: 1;
+                color: #b0b0b0;
+                font-size: 14px;
+            }
+
+            .match-viewer-close {
+                background: none;
+                border: none;
+                color: #0CC7C7;
+                font-size: 20px;
+                cursor: pointer;
+            }
+
+            .match-viewer-list-view {
+                min-width: min(600px, 90vw);
+            }
+
+            .match-viewer-status,
+            .match-viewer-empty {
+                color: #b0b0b0;
+                font-size: 14px;
+            }
+
+            .match-viewer-row {
+                display: grid;
+                grid-template-columns: 2fr 1fr 1fr 1fr 2fr;
+                gap: 12px;
+                width: 100%;
+                margin-bottom: 6px;
+                padding: 8px 12px;
+                background: rgba(12, 199, 199, 0.1);
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: white;
+                font-size: 14px;
+                text-align: left;
+                cursor: pointer;
+            }
+
+            .match-viewer-row:hover {
+                background: rgba(12, 199, 199, 0.25);
+            }
+
+            .match-viewer-watch-view {
+                display: none;
+            }
+
+            .match-viewer-stage {
+                display: flex;
+                gap: 12px;
+            }
+
+            .match-viewer-canvas {
+                display: block;
+                width: ${VIEW_WIDTH}px;
+                max-width: 70vw;
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                cursor: grab;
+                touch-action: none;
+            }
+
+            .match-viewer-side {
+                width: 220px;
+                max-height: 65vh;
+                overflow-y: auto;
+                font-size: 13px;
+            }
+
+            .match-viewer-side h3 {
+                color: #0CC7C7;
+                margin: 0 0 6px;
+                font-size: 15px;
+            }
+
+            .match-viewer-players {
+                margin-bottom: 12px;
+            }
+
+            .match-viewer-player {
+                display: flex;
+                align-items: center;
+                gap: 6px;
+                padding: 2px 4px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+
+            .match-viewer-player.followed {
+                background: rgba(12, 199, 199, 0.25);
+            }
+
+            .match-viewer-swatch {
+                width: 10px;
+                height: 10px;
+                flex-shrink: 0;
+            }
+
+            .match-viewer-name {
+                flex: 1;
+                overflow: hidden;
+                text-overflow: ellipsis;
+                white-space: nowrap;
+            }
+
+            .match-viewer-status-alive {
+                color: #4CAF50;
+            }
+
+            .match-viewer-status-out,
+            .match-viewer-status-left {
+                color: #607080;
+            }
+
+            .match-viewer-event {
+                padding: 2px 4px;
+                color: #607080;
+                cursor: pointer;
+            }
+
+            .match-viewer-event.past {
+                color: white;
+            }
+
+            .match-viewer-event-time {
+                color: #0CC7C7;
+                font-variant-numeric: tabular-nums;
+                margin-right: 6px;
+            }
+
+            .match-viewer-hint {
+                margin: 10px 0;
+                color: #b0b0b0;
+                font-size: 12px;
+                text-align: center;
+            }
+
+            .match-viewer-controls {
+                display: flex;
+                align-items: center;
+                gap: 12px;
+            }
+
+            .match-viewer-controls button,
+            .match-viewer-controls select {
+                background: rgba(12, 199, 199, 0.1);
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: #0CC7C7;
+                padding: 6px 12px;
+                font-size: 14px;
+                cursor: pointer;
+            }
+
+            .match-viewer-play {
+                min-width: 70px;
+            }
+
+            .match-viewer-scrubber {
+                flex: 1;
+                accent-color: #0CC7C7;
+            }
+
+            .match-viewer-time {
+                font-variant-numeric: tabular-nums;
+                font-size: 14px;
+                color: #b0b0b0;
+                white-space: nowrap;
+            }
+        `;
+
+        document.head.appendChild(style);
+    }
+}
+
+function formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
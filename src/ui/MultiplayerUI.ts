@@ -3,6 +3,7 @@
  * Converted to TypeScript and organized in ui/ directory.
  */
 import { GAME_CONSTANTS } from '../constants/gameConstants';
+import type { RoomListing, RoomTarget } from '../managers/MultiplayerManager';
 
 // Define interfaces for the MultiplayerUI
 interface Player {
@@ -13,15 +14,23 @@ interface Player {
 
 interface GameState {
   countdownTime?: number;
-  areaPercentage?: number;
+  arenaWidth?: number;
+  arenaHeight?: number;
+  zoneX?: number;
+  zoneY?: number;
+  zoneRadius?: number;
   winnerName?: string;
+  seed?: number;
 }
 
 interface MultiplayerManager {
   players: Record<string, Player>;
   localSessionId: string;
-  setServerAddress(address: string): void;
-  connect(playerName: string): Promise<boolean>;
+  connect(target?: RoomTarget): Promise<boolean>;
+  listRooms(): Promise<RoomListing[]>;
+  updatePlayerName(name: string): void;
+  getRoomCode(): string | null;
+  getShareUrl(): string | null;
   disconnect(): void;
   getAliveCount(): number;
   getTotalPlayers(): number;
@@ -36,6 +45,9 @@ interface MultiplayerManager {
   onPlayerJoin?: (data: any) => void;
   onPlayerLeave?: (data: any) => void;
   onGameOver?: (winnerName: string) => void;
+  onReconnecting?: (attempt: number) => void;
+  onReconnected?: () => void;
+  onReconnectFailed?: () => void;
 }
 
 export default class MultiplayerUI {
@@ -52,7 +64,24 @@ export default class MultiplayerUI {
   private connectButton: HTMLButtonElement;
   private disconnectButton: HTMLButtonElement;
   private playerNameInput: HTMLInputElement;
-  private serverAddressInput: HTMLInputElement;
+  private lobbyMessage: HTMLElement;
+  
+  // Room browser, room creation and join-by-code
+  private roomSelectionContainer: HTMLElement;
+  private roomList: HTMLElement;
+  private refreshRoomsButton: HTMLButtonElement;
+  private roomNameInput: HTMLInputElement;
+  private privateRoomCheckbox: HTMLInputElement;
+  private raceRoomCheckbox: HTMLInputElement;
+  private knockoutsCheckbox: HTMLInputElement;
+  private createRoomButton: HTMLButtonElement;
+  private joinCodeInput: HTMLInputElement;
+  private joinCodeButton: HTMLButtonElement;
+  
+  // Details of the joined room
+  private roomInfoContainer: HTMLElement;
+  private roomCodeDisplay: HTMLElement;
+  private copyLinkButton: HTMLButtonElement;
   private countdownDisplay: HTMLElement;
   private playerCountDisplay: HTMLElement;
   private gameStatusDisplay: HTMLElement;
@@ -78,7 +107,20 @@ export default class MultiplayerUI {
     this.connectButton = null!;
     this.disconnectButton = null!;
     this.playerNameInput = null!;
-    this.serverAddressInput = null!;
+    this.lobbyMessage = null!;
+    this.roomSelectionContainer = null!;
+    this.roomList = null!;
+    this.refreshRoomsButton = null!;
+    this.roomNameInput = null!;
+    this.privateRoomCheckbox = null!;
+    this.raceRoomCheckbox = null!;
+    this.knockoutsCheckbox = null!;
+    this.createRoomButton = null!;
+    this.joinCodeInput = null!;
+    this.joinCodeButton = null!;
+    this.roomInfoContainer = null!;
+    this.roomCodeDisplay = null!;
+    this.copyLinkButton = null!;
     this.countdownDisplay = null!;
     this.playerCountDisplay = null!;
     this.gameStatusDisplay = null!;
@@ -147,18 +189,9 @@ export default class MultiplayerUI {
     nameLabel.appendChild(this.playerNameInput);
     form.appendChild(nameLabel);
     
-    // Server address input
-    const serverLabel = document.createElement('label');
-    serverLabel.textContent = 'Server:';
-    this.serverAddressInput = document.createElement('input');
-    this.serverAddressInput.type = 'text';
-    this.serverAddressInput.value = 'ws://localhost:3000';
-    serverLabel.appendChild(this.serverAddressInput);
-    form.appendChild(serverLabel);
-    
-    // Connect button
+    // Quick play button (joins any open public room)
     this.connectButton = document.createElement('button') as HTMLButtonElement;
-    this.connectButton.textContent = 'Connect';
+    this.connectButton.textContent = 'Quick Play';
     this.connectButton.className = 'connect-button';
     form.appendChild(this.connectButton);
     
@@ -171,6 +204,19 @@ export default class MultiplayerUI {
     
     this.lobbyContainer.appendChild(form);
     
+    // Connection errors and other lobby feedback
+    this.lobbyMessage = document.createElement('div');
+    this.lobbyMessage.className = 'lobby-message';
+    this.lobbyContainer.appendChild(this.lobbyMessage);
+    
+    // Room browser, room creation and join-by-code
+    this.createRoomSelectionUI();
+    this.lobbyContainer.appendChild(this.roomSelectionContainer);
+    
+    // Join code and invite link of the current room
+    this.createRoomInfoUI();
+    this.lobbyContainer.appendChild(this.roomInfoContainer);
+    
     // Game description
     const description = document.createElement('div');
     description.className = 'multiplayer-description';
@@ -178,10 +224,12 @@ export default class MultiplayerUI {
       <h3>Last Player Standing Mode</h3>
       <p>In this multiplayer mode, up to 30 players compete to be the last one alive!</p>
       <ul>
-        <li>Avoid hitting obstacles and other players</li>
+        <li>Avoid hitting obstacles, and shove other players out of your way</li>
         <li>The playing field shrinks over time</li>
         <li>If you hit an obstacle or leave the arena, you're eliminated</li>
+        <li>In knockout rooms, crashing into a slower player eliminates them</li>
         <li>The last player alive wins!</li>
+        <li>Eliminated players and late joiners spectate until the next round</li>
       </ul>
     `;
     this.lobbyContainer.appendChild(description);
@@ -189,6 +237,104 @@ export default class MultiplayerUI {
     this.multiplayerContainer.appendChild(this.lobbyContainer);
   }
   
+  /**
+   * Create the room browser and the create/join-by-code forms
+   */
+  private createRoomSelectionUI(): void {
+    this.roomSelectionContainer = document.createElement('div');
+    this.roomSelectionContainer.className = 'room-selection';
+    
+    // Room browser
+    const browserHeader = document.createElement('div');
+    browserHeader.className = 'room-browser-header';
+    const browserTitle = document.createElement('h3');
+    browserTitle.textContent = 'Open Rooms';
+    browserHeader.appendChild(browserTitle);
+    this.refreshRoomsButton = document.createElement('button') as HTMLButtonElement;
+    this.refreshRoomsButton.textContent = 'Refresh';
+    this.refreshRoomsButton.className = 'small-button';
+    browserHeader.appendChild(this.refreshRoomsButton);
+    this.roomSelectionContainer.appendChild(browserHeader);
+    
+    this.roomList = document.createElement('ul');
+    this.roomList.className = 'room-list';
+    this.roomSelectionContainer.appendChild(this.roomList);
+    
+    // Create a room
+    const createForm = document.createElement('div');
+    createForm.className = 'room-form';
+    this.roomNameInput = document.createElement('input');
+    this.roomNameInput.type = 'text';
+    this.roomNameInput.placeholder = 'Room name';
+    this.roomNameInput.maxLength = 30;
+    createForm.appendChild(this.roomNameInput);
+    const privateLabel = document.createElement('label');
+    privateLabel.className = 'private-toggle';
+    this.privateRoomCheckbox = document.createElement('input');
+    this.privateRoomCheckbox.type = 'checkbox';
+    privateLabel.appendChild(this.privateRoomCheckbox);
+    privateLabel.appendChild(document.createTextNode(' Private'));
+    createForm.appendChild(privateLabel);
+    const raceLabel = document.createElement('label');
+    raceLabel.className = 'private-toggle';
+    raceLabel.title = 'First to cross the winning line enough times wins';
+    this.raceRoomCheckbox = document.createElement('input');
+    this.raceRoomCheckbox.type = 'checkbox';
+    raceLabel.appendChild(this.raceRoomCheckbox);
+    raceLabel.appendChild(document.createTextNode(' Race'));
+    createForm.appendChild(raceLabel);
+    const knockoutsLabel = document.createElement('label');
+    knockoutsLabel.className = 'private-toggle';
+    knockoutsLabel.title = 'Crashing into a slower player knocks them out instead of pushing them';
+    this.knockoutsCheckbox = document.createElement('input');
+    this.knockoutsCheckbox.type = 'checkbox';
+    knockoutsLabel.appendChild(this.knockoutsCheckbox);
+    knockoutsLabel.appendChild(document.createTextNode(' Knockouts'));
+    createForm.appendChild(knockoutsLabel);
+    this.createRoomButton = document.createElement('button') as HTMLButtonElement;
+    this.createRoomButton.textContent = 'Create Room';
+    this.createRoomButton.className = 'small-button';
+    createForm.appendChild(this.createRoomButton);
+    this.roomSelectionContainer.appendChild(createForm);
+    
+    // Join by code
+    const joinForm = document.createElement('div');
+    joinForm.className = 'room-form';
+    this.joinCodeInput = document.createElement('input');
+    this.joinCodeInput.type = 'text';
+    this.joinCodeInput.placeholder = 'Join code';
+    this.joinCodeInput.className = 'join-code-input';
+    this.joinCodeInput.maxLength = 5;
+    joinForm.appendChild(this.joinCodeInput);
+    this.joinCodeButton = document.createElement('button') as HTMLButtonElement;
+    this.joinCodeButton.textContent = 'Join';
+    this.joinCodeButton.className = 'small-button';
+    joinForm.appendChild(this.joinCodeButton);
+    this.roomSelectionContainer.appendChild(joinForm);
+  }
+  
+  /**
+   * Create the panel showing the current room's join code
+   */
+  private createRoomInfoUI(): void {
+    this.roomInfoContainer = document.createElement('div');
+    this.roomInfoContainer.className = 'room-info';
+    this.roomInfoContainer.style.display = 'none';
+    
+    const label = document.createElement('span');
+    label.textContent = 'Join code: ';
+    this.roomInfoContainer.appendChild(label);
+    
+    this.roomCodeDisplay = document.createElement('span');
+    this.roomCodeDisplay.className = 'room-code';
+    this.roomInfoContainer.appendChild(this.roomCodeDisplay);
+    
+    this.copyLinkButton = document.createElement('button') as HTMLButtonElement;
+    this.copyLinkButton.textContent = 'Copy invite link';
+    this.copyLinkButton.className = 'small-button';
+    this.roomInfoContainer.appendChild(this.copyLinkButton);
+  }
+  
   /**
    * Create game status UI elements
    */
@@ -250,16 +396,38 @@ export default class MultiplayerUI {
    * Set up event listeners
    */
   private setupEventListeners(): void {
-    // Connect button
+    // Quick play button
     this.connectButton.addEventListener('click', () => {
-      const playerName = this.playerNameInput.value.trim();
-      const serverAddress = this.serverAddressInput.value.trim();
-      
-      if (playerName && serverAddress) {
-        this.connectToServer(playerName, serverAddress);
+      this.connectToServer();
+    });
+    
+    // Room browser and room forms
+    this.refreshRoomsButton.addEventListener('click', () => {
+      this.refreshRoomList();
+    });
+    
+    this.createRoomButton.addEventListener('click', () => {
+      this.connectToServer({
+        create: {
+          roomName: this.roomNameInput.value.trim(),
+          isPrivate: this.privateRoomCheckbox.checked,
+          race: this.raceRoomCheckbox.checked,
+          knockouts: this.knockoutsCheckbox.checked
+        }
+      });
+    });
+    
+    this.joinCodeButton.addEventListener('click', () => {
+      const code = this.joinCodeInput.value.trim();
+      if (code) {
+        this.connectToServer({ roomId: code });
       }
     });
     
+    this.copyLinkButton.addEventListener('click', () => {
+      this.copyInviteLink();
+    });
+    
     // Disconnect button
     this.disconnectButton.addEventListener('click', () => {
       this.disconnectFromServer();
@@ -290,6 +458,18 @@ export default class MultiplayerUI {
       this.multiplayerManager.onGameOver = (winnerName: string) => {
         this.handleGameOver(winnerName);
       };
+      
+      this.multiplayerManager.onReconnecting = (attempt: number) => {
+        this.showReconnecting(attempt);
+      };
+      
+      this.multiplayerManager.onReconnected = () => {
+        this.hideReconnecting();
+      };
+      
+      this.multiplayerManager.onReconnectFailed = () => {
+        this.handleReconnectFailed();
+      };
     }
   }
   
@@ -400,6 +580,127 @@ export default class MultiplayerUI {
         box-shadow: 0 4px 8px rgba(255, 82, 82, 0.5);
       }
       
+      .lobby-message {
+        color: var(--mp-warning);
+        font-size: 13px;
+        margin-bottom: 10px;
+        word-break: break-all;
+      }
+      
+      .room-selection {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      
+      .room-browser-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+      }
+      
+      .room-browser-header h3 {
+        color: var(--mp-accent-secondary);
+        margin: 0;
+        font-size: 18px;
+      }
+      
+      .room-list {
+        max-height: 160px;
+        overflow-y: auto;
+        padding-left: 0;
+        margin: 0;
+        list-style-type: none;
+      }
+      
+      .room-list li {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        padding: 6px 8px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+      }
+      
+      .room-list li:last-child {
+        border-bottom: none;
+      }
+      
+      .room-list .room-list-empty {
+        color: var(--mp-neutral);
+        font-size: 13px;
+      }
+      
+      .room-name {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      
+      .room-details {
+        font-size: 12px;
+        color: var(--mp-accent-primary);
+      }
+      
+      .room-form {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+      
+      .room-form input[type="text"] {
+        flex: 1;
+        min-width: 0;
+        padding: 8px;
+        border-radius: 4px;
+        border: 1px solid var(--mp-accent-primary);
+        background: rgba(0, 0, 0, 0.3);
+        color: var(--mp-text-light);
+      }
+      
+      .join-code-input {
+        text-transform: uppercase;
+        letter-spacing: 2px;
+      }
+      
+      .private-toggle {
+        font-size: 13px;
+        white-space: nowrap;
+      }
+      
+      .small-button {
+        padding: 6px 12px;
+        border-radius: 4px;
+        border: none;
+        cursor: pointer;
+        font-weight: bold;
+        background: var(--mp-accent-primary);
+        color: var(--mp-text-dark);
+      }
+      
+      .small-button:hover:not(:disabled) {
+        background: var(--mp-accent-secondary);
+      }
+      
+      .small-button:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+      
+      .room-info {
+        align-items: center;
+        gap: 10px;
+        margin-bottom: 10px;
+      }
+      
+      .room-code {
+        font-size: 20px;
+        font-weight: bold;
+        letter-spacing: 3px;
+        color: var(--mp-accent-secondary);
+        flex: 1;
+      }
+      
       .multiplayer-description {
         background: rgba(23, 42, 70, 0.7);
         padding: 15px;
@@ -456,6 +757,19 @@ export default class MultiplayerUI {
         color: var(--mp-text-light);
       }
       
+      .multiplayer-status.reconnecting {
+        border-left-color: var(--mp-warning);
+      }
+      
+      .multiplayer-status.reconnecting .game-status {
+        color: var(--mp-warning);
+        animation: reconnect-blink 1s infinite;
+      }
+      
+      @keyframes reconnect-blink {
+        50% { opacity: 0.4; }
+      }
+      
       .player-list-container {
         background: rgba(23, 42, 70, 0.7);
         padding: 15px;
@@ -559,27 +873,156 @@ export default class MultiplayerUI {
   
   /**
    * Connect to the multiplayer server
-   * @param playerName - The player's name
-   * @param serverAddress - The server address
+   * @param target - Room to join or create (defaults to quick play)
    */
-  async connectToServer(playerName: string, serverAddress: string): Promise<void> {
-    // Disable connect button during connection attempt
-    this.connectButton.disabled = true;
-    this.connectButton.textContent = 'Connecting...';
+  async connectToServer(target: RoomTarget = {}): Promise<void> {
+    const playerName = this.playerNameInput.value.trim();
+    if (playerName) {
+      this.multiplayerManager.updatePlayerName(playerName);
+    }
     
-    // Set server address
-    this.multiplayerManager.setServerAddress(serverAddress);
+    // Disable the lobby during the connection attempt
+    this.setLobbyEnabled(false);
+    this.connectButton.textContent = 'Connecting...';
+    this.lobbyMessage.textContent = '';
     
     // Attempt connection
-    const success = await this.multiplayerManager.connect(playerName);
+    const success = await this.multiplayerManager.connect(target);
     
-    // Re-enable button if failed
-    if (!success) {
-      this.connectButton.disabled = false;
-      this.connectButton.textContent = 'Connect';
+    if (success) {
+      this.handleConnectionSuccess();
+    } else {
+      this.setLobbyEnabled(true);
+      this.connectButton.textContent = 'Quick Play';
+      this.lobbyMessage.textContent = target.roomId
+        ? 'Could not join that room. Check the code and try again.'
+        : 'Could not connect to the game server.';
     }
   }
   
+  /**
+   * Enable or disable the lobby's inputs and buttons
+   */
+  private setLobbyEnabled(enabled: boolean): void {
+    const controls = [
+      this.connectButton,
+      this.playerNameInput,
+      this.refreshRoomsButton,
+      this.roomNameInput,
+      this.privateRoomCheckbox,
+      this.raceRoomCheckbox,
+      this.knockoutsCheckbox,
+      this.createRoomButton,
+      this.joinCodeInput,
+      this.joinCodeButton
+    ];
+    controls.forEach(control => {
+      control.disabled = !enabled;
+    });
+    this.roomList.querySelectorAll('button').forEach(button => {
+      button.disabled = !enabled;
+    });
+  }
+  
+  /**
+   * Fetch the public rooms and show them in the room browser
+   */
+  async refreshRoomList(): Promise<void> {
+    let rooms: RoomListing[];
+    try {
+      rooms = await this.multiplayerManager.listRooms();
+    } catch (error) {
+      console.warn('Could not fetch rooms:', error);
+      this.roomList.innerHTML = '<li class="room-list-empty">Could not reach the game server</li>';
+      return;
+    }
+    
+    this.roomList.innerHTML = '';
+    if (rooms.length === 0) {
+      this.roomList.innerHTML = '<li class="room-list-empty">No open rooms. Create one!</li>';
+      return;
+    }
+    
+    for (const room of rooms) {
+      const item = document.createElement('li');
+      
+      const name = document.createElement('span');
+      name.className = 'room-name';
+      name.textContent = room.roomName;
+      item.appendChild(name);
+      
+      const details = document.createElement('span');
+      details.className = 'room-details';
+      let mode = room.mode === GAME_CONSTANTS.GAME_MODES.RACE ? 'Race' : 'Last standing';
+      if (room.playerCollisions === GAME_CONSTANTS.PLAYER_COLLISIONS.ELIMINATE) {
+        mode += ', knockouts';
+      }
+      details.textContent = `${mode} · ${room.clients}/${room.maxClients} · ${this.describeRoomState(room.gameState)}`;
+      item.appendChild(details);
+      
+      const joinButton = document.createElement('button') as HTMLButtonElement;
+      joinButton.textContent = 'Join';
+      joinButton.className = 'small-button';
+      joinButton.addEventListener('click', () => {
+        this.connectToServer({ roomId: room.roomId });
+      });
+      item.appendChild(joinButton);
+      
+      this.roomList.appendChild(item);
+    }
+  }
+  
+  /**
+   * Describe a room's game state for the room browser
+   */
+  private describeRoomState(gameState: string): string {
+    switch (gameState) {
+      case GAME_CONSTANTS.STATE.WAITING:
+        return 'Waiting';
+      case GAME_CONSTANTS.STATE.STARTING:
+        return 'Starting';
+      case GAME_CONSTANTS.STATE.PLAYING:
+        return 'In progress';
+      case GAME_CONSTANTS.STATE.GAME_OVER:
+        return 'Finished';
+      default:
+        return gameState;
+    }
+  }
+  
+  /**
+   * Copy the invite link for the current room to the clipboard
+   */
+  private async copyInviteLink(): Promise<void> {
+    const url = this.multiplayerManager.getShareUrl();
+    if (!url) return;
+    
+    try {
+      await navigator.clipboard.writeText(url);
+      this.copyLinkButton.textContent = 'Copied!';
+    } catch {
+      // Clipboard access can be denied; show the link so it can be copied by hand
+      this.lobbyMessage.textContent = url;
+    }
+    setTimeout(() => {
+      this.copyLinkButton.textContent = 'Copy invite link';
+    }, 2000);
+  }
+  
+  /**
+   * Return the lobby to its not-connected state
+   */
+  private showLobbyForm(): void {
+    this.setLobbyEnabled(true);
+    this.connectButton.textContent = 'Quick Play';
+    this.connectButton.style.display = 'block';
+    this.disconnectButton.style.display = 'none';
+    this.roomSelectionContainer.style.display = 'block';
+    this.roomInfoContainer.style.display = 'none';
+    this.arenaIndicator.style.display = 'none';
+    this.refreshRoomList();
+  }
+  
   /**
    * Handle successful connection to server
    */
@@ -588,7 +1031,11 @@ export default class MultiplayerUI {
     this.connectButton.style.display = 'none';
     this.disconnectButton.style.display = 'block';
     this.playerNameInput.disabled = true;
-    this.serverAddressInput.disabled = true;
+    this.roomSelectionContainer.style.display = 'none';
+    
+    // Show the join code so the room can be shared
+    this.roomCodeDisplay.textContent = this.multiplayerManager.getRoomCode() ?? '';
+    this.roomInfoContainer.style.display = 'flex';
     
     // Show game status
     this.gameStatusContainer.style.display = 'block';
@@ -610,8 +1057,39 @@ export default class MultiplayerUI {
     alert(`Connection error: ${error}`);
     
     // Reset UI
-    this.connectButton.disabled = false;
-    this.connectButton.textContent = 'Connect';
+    this.setLobbyEnabled(true);
+    this.connectButton.textContent = 'Quick Play';
+  }
+  
+  /**
+   * Show that the connection dropped and the client is trying to rejoin
+   * @param attempt - The current reconnection attempt
+   */
+  showReconnecting(attempt: number): void {
+    this.gameStatusContainer.classList.add('reconnecting');
+    this.gameStatusDisplay.textContent = attempt > 1
+      ? `Reconnecting… (attempt ${attempt})`
+      : 'Reconnecting…';
+  }
+  
+  /**
+   * Leave the reconnecting state after rejoining the session
+   */
+  hideReconnecting(): void {
+    this.gameStatusContainer.classList.remove('reconnecting');
+    this.gameStatusDisplay.textContent = 'Reconnected';
+    this.updatePlayerList();
+  }
+  
+  /**
+   * Handle giving up on reconnection after the grace period
+   */
+  handleReconnectFailed(): void {
+    this.gameStatusContainer.classList.remove('reconnecting');
+    this.gameStatusDisplay.textContent = 'Connection lost';
+    
+    // Back to the lobby form
+    this.showLobbyForm();
   }
   
   /**
@@ -622,13 +1100,8 @@ export default class MultiplayerUI {
     this.multiplayerManager.disconnect();
     
     // Update UI
-    this.connectButton.style.display = 'block';
-    this.disconnectButton.style.display = 'none';
-    this.playerNameInput.disabled = false;
-    this.serverAddressInput.disabled = false;
-    
-    // Hide arena indicator
-    this.arenaIndicator.style.display = 'none';
+    this.gameStatusContainer.classList.remove('reconnecting');
+    this.showLobbyForm();
   }
   
   /**
@@ -666,6 +1139,9 @@ export default class MultiplayerUI {
         
       case GAME_CONSTANTS.STATE.GAME_OVER:
         statusText = `Game over! ${state.winnerName} wins!`;
+        if (state.seed !== undefined) {
+          statusText += ` (seed ${state.seed})`;
+        }
         this.countdownDisplay.textContent = '';
         break;
     }
@@ -681,7 +1157,14 @@ export default class MultiplayerUI {
    * @param state - The current game state
    */
   updateArenaIndicator(state: GameState): void {
-    if (!state || state.areaPercentage === undefined || state.areaPercentage >= 100) {
+    if (!state || state.zoneRadius === undefined || !state.arenaWidth || !state.arenaHeight) {
+      this.arenaIndicator.style.display = 'none';
+      return;
+    }
+    
+    // The zone starts out reaching the arena's corners; nothing to show until it shrinks
+    const initialRadius = Math.hypot(state.arenaWidth, state.arenaHeight) / 2;
+    if (state.zoneRadius >= initialRadius) {
       this.arenaIndicator.style.display = 'none';
       return;
     }
@@ -692,26 +1175,24 @@ export default class MultiplayerUI {
     
     const canvasRect = canvas.getBoundingClientRect();
     
-    // Calculate the shrinking arena
-    const shrinkScale = state.areaPercentage / 100;
-    const centerX = canvasRect.left + canvasRect.width / 2;
-    const centerY = canvasRect.top + canvasRect.height / 2;
-    
-    // Size of the shrunk arena
-    const arenaWidth = canvasRect.width * shrinkScale;
-    const arenaHeight = canvasRect.height * shrinkScale;
+    // Map the zone circle from arena units onto the canvas
+    const scale = canvasRect.width / state.arenaWidth;
+    const centerX = canvasRect.left + (state.zoneX ?? state.arenaWidth / 2) * scale;
+    const centerY = canvasRect.top + (state.zoneY ?? state.arenaHeight / 2) * scale;
+    const radius = state.zoneRadius * scale;
     
     // Set indicator position
-    this.arenaIndicator.style.left = `${centerX - arenaWidth / 2}px`;
-    this.arenaIndicator.style.top = `${centerY - arenaHeight / 2}px`;
-    this.arenaIndicator.style.width = `${arenaWidth}px`;
-    this.arenaIndicator.style.height = `${arenaHeight}px`;
+    this.arenaIndicator.style.left = `${centerX - radius}px`;
+    this.arenaIndicator.style.top = `${centerY - radius}px`;
+    this.arenaIndicator.style.width = `${radius * 2}px`;
+    this.arenaIndicator.style.height = `${radius * 2}px`;
+    this.arenaIndicator.style.borderRadius = '50%';
     
     // Ensure it's visible
     this.arenaIndicator.style.display = 'block';
     
-    // Make it pulse when area is small
-    if (state.areaPercentage < 60) {
+    // Make it pulse when the zone is small
+    if (state.zoneRadius < initialRadius * 0.6) {
       this.arenaIndicator.style.borderColor = 'rgba(255, 0, 0, 0.7)';
       this.arenaIndicator.style.animation = 'pulse 1s infinite';
     } else {
@@ -925,6 +1406,15 @@ export default class MultiplayerUI {
   show(): void {
     this.multiplayerContainer.style.display = 'block';
     this.isVisible = true;
+    
+    if (!this.multiplayerManager) return;
+    
+    // The mode may already have joined a room (invite link or resumed session)
+    if (this.multiplayerManager.getRoomCode()) {
+      this.handleConnectionSuccess();
+    } else {
+      this.refreshRoomList();
+    }
   }
   
   /**
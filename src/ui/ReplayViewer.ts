@@ -0,0 +1,418 @@
+import { FRAME_TIME } from '../../server/shared/singlePlayerSimulation';
+import { Replay, ReplayPlayer } from '../../server/shared/replay';
+import { getHitbox } from '../../server/shared/powerUps';
+import {
+    drawObstacle,
+    drawPlayer,
+    drawPowerUp,
+    drawProjectile,
+    drawShield,
+    formatHearts,
+    isBlinkedOut,
+} from '../utils/drawSimulation';
+
+// Playback speeds offered in the speed menu
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Most steps played per animation frame, so fast playback can't stall the page
+const MAX_STEPS_PER_FRAME = 32;
+
+/**
+ * Full-screen viewer that plays back a single-player replay, with play/pause,
+ * a scrubber and speed control. It re-runs the simulation from the replay's
+ * inputs and draws it on its own canvas, independent of the running game.
+ */
+export class ReplayViewer {
+    private root!: HTMLDivElement;
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private playButton!: HTMLButtonElement;
+    private scrubber!: HTMLInputElement;
+    private speedSelect!: HTMLSelectElement;
+    private timeLabel!: HTMLSpanElement;
+    private infoLabel!: HTMLDivElement;
+    private keysLabel!: HTMLDivElement;
+
+    private player: ReplayPlayer | null = null;
+    private replay: Replay | null = null;
+    private playing: boolean = false;
+    private speed: number = 1;
+    private stepTime: number = 0;
+    private lastTimestamp: number = 0;
+    private animationFrame: number | null = null;
+    private onClose: (() => void) | null = null;
+
+    constructor() {
+        this.createElements();
+        this.attachEventListeners();
+        this.injectStyles();
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+        this.loop = this.loop.bind(this);
+    }
+
+    /**
+     * Show a replay, paused at the start
+     * @param replay - The replay to watch
+     * @param onClose - Called once the viewer is closed
+     */
+    open(replay: Replay, onClose?: () => void): void {
+        if (this.isOpen()) {
+            this.close();
+        }
+
+        this.replay = replay;
+        this.player = new ReplayPlayer(replay);
+        this.onClose = onClose ?? null;
+        this.scrubber.max = String(replay.frameCount);
+        this.infoLabel.textContent = `Seed ${replay.seed} · Final score ${replay.score}`;
+        this.setPlaying(false);
+
+        this.root.classList.add('active');
+        document.addEventListener('keydown', this.handleKeyDown);
+        this.lastTimestamp = 0;
+        this.animationFrame = requestAnimationFrame(this.loop);
+    }
+
+    /**
+     * Close the viewer
+     */
+    close(): void {
+        if (!this.isOpen()) return;
+
+        this.root.classList.remove('active');
+        document.removeEventListener('keydown', this.handleKeyDown);
+        if (this.animationFrame !== null) {
+            cancelAnimationFrame(this.animationFrame);
+            this.animationFrame = null;
+        }
+        this.player = null;
+        this.replay = null;
+        this.playing = false;
+
+        const onClose = this.onClose;
+        this.onClose = null;
+        onClose?.();
+    }
+
+    isOpen(): boolean {
+        return this.root.classList.contains('active');
+    }
+
+    public destroy(): void {
+        this.close();
+        this.root.remove();
+        document.getElementById('replay-viewer-styles')?.remove();
+    }
+
+    private createElements(): void {
+        this.root = document.createElement('div');
+        this.root.className = 'replay-viewer';
+        this.root.innerHTML = `
+            <div class="replay-viewer-panel">
+                <div class="replay-viewer-header">
+                    <h2>Replay</h2>
+                    <div class="replay-viewer-info"></div>
+                    <button class="replay-viewer-close" aria-label="Close replay">✕</button>
+                </div>
+                <canvas class="replay-viewer-canvas"></canvas>
+                <div class="replay-viewer-keys"></div>
+                <div class="replay-viewer-controls">
+                    <button class="replay-viewer-play">Play</button>
+                    <input class="replay-viewer-scrubber" type="range" min="0" max="0" step="1" value="0" aria-label="Replay position">
+                    <span class="replay-viewer-time">0:00.0</span>
+                    <select class="replay-viewer-speed" aria-label="Playback speed">
+                        ${SPEEDS.map((speed) => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}×</option>`).join('')}
+                    </select>
+                </div>
+            </div>
+        `;
+
+        this.canvas = this.root.querySelector('.replay-viewer-canvas') as HTMLCanvasElement;
+        this.ctx = this.canvas.getContext('2d')!;
+        this.playButton = this.root.querySelector('.replay-viewer-play') as HTMLButtonElement;
+        this.scrubber = this.root.querySelector('.replay-viewer-scrubber') as HTMLInputElement;
+        this.speedSelect = this.root.querySelector('.replay-viewer-speed') as HTMLSelectElement;
+        this.timeLabel = this.root.querySelector('.replay-viewer-time') as HTMLSpanElement;
+        this.infoLabel = this.root.querySelector('.replay-viewer-info') as HTMLDivElement;
+        this.keysLabel = this.root.querySelector('.replay-viewer-keys') as HTMLDivElement;
+
+        document.body.appendChild(this.root);
+    }
+
+    private attachEventListeners(): void {
+        this.root.querySelector('.replay-viewer-close')?.addEventListener('click', () => this.close());
+        this.playButton.addEventListener('click', () => this.togglePlay());
+
+        // Seek while dragging; playback carries on from the new position
+        this.scrubber.addEventListener('input', () => {
+            this.player?.seek(Number(this.scrubber.value));
+            this.stepTime = 0;
+        });
+
+        this.speedSelect.addEventListener('change', () => {
+            this.speed = Number(this.speedSelect.value) || 1;
+        });
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.key === 'Escape') {
+            this.close();
+        } else if (e.key === ' ') {
+            e.preventDefault();
+            this.togglePlay();
+        }
+    }
+
+    private togglePlay(): void {
+        if (!this.player) return;
+
+        // Playing from the end starts over
+        if (!this.playing && this.player.isFinished()) {
+            this.player.seek(0);
+        }
+        this.setPlaying(!this.playing);
+    }
+
+    private setPlaying(playing: boolean): void {
+        this.playing = playing;
+        this.stepTime = 0;
+        this.playButton.textContent = playing ? 'Pause' : 'Play';
+    }
+
+    private loop(timestamp: number): void {
+        const deltaTime = this.lastTimestamp ? Math.min((timestamp - this.lastTimestamp) / 1000, 0.1) : 0;
+        this.lastTimestamp = timestamp;
+
+        const player = this.player;
+        if (!player) return;
+
+        if (this.playing) {
+            this.stepTime += deltaTime * this.speed;
+            let steps = 0;
+            while (this.stepTime >= FRAME_TIME && steps < MAX_STEPS_PER_FRAME && player.step()) {
+                this.stepTime -= FRAME_TIME;
+                steps++;
+            }
+            if (steps === MAX_STEPS_PER_FRAME) {
+                this.stepTime = 0;
+            }
+            if (player.isFinished()) {
+                this.setPlaying(false);
+            }
+        }
+
+        this.render(timestamp);
+        this.updateControls();
+        this.animationFrame = requestAnimationFrame(this.loop);
+    }
+
+    private render(timestamp: number): void {
+        if (!this.player || !this.replay) return;
+
+        const state = this.player.getState();
+        if (this.canvas.width !== state.width || this.canvas.height !== state.height) {
+            this.canvas.width = state.width;
+            this.canvas.height = state.height;
+        }
+
+        const ctx = this.ctx;
+        ctx.fillStyle = '#0a192f';
+        ctx.fillRect(0, 0, state.width, state.height);
+
+        // Winning line
+        ctx.save();
+        ctx.strokeStyle = 'rgba(12, 199, 199, 0.6)';
+        ctx.setLineDash([10, 10]);
+        ctx.beginPath();
+        ctx.moveTo(0, state.winningLine);
+        ctx.lineTo(state.width, state.winningLine);
+        ctx.stroke();
+        ctx.restore();
+
+        const scale = this.replay.config.scale;
+        for (const powerUp of state.powerUps) {
+            drawPowerUp(ctx, powerUp, timestamp);
+        }
+        for (const obstacle of state.obstacles) {
+            drawObstacle(ctx, obstacle, timestamp);
+        }
+        for (const projectile of state.projectiles) {
+            drawProjectile(ctx, projectile, scale);
+        }
+        if (!isBlinkedOut(state.invulnerableTime, timestamp)) {
+            drawPlayer(ctx, getHitbox(state.player, state.effects), timestamp);
+        }
+        if (state.effects.shield) {
+            drawShield(ctx, state.player, timestamp);
+        }
+
+        // Score and lives in the corner, as in the game
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `${Math.round(18 * scale)}px sans-serif`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.fillText(`Score: ${state.score}`, 10, 10);
+        ctx.fillText(formatHearts(state.lives, this.replay.config.lives), 10, 10 + Math.round(24 * scale));
+
+        if (state.done) {
+            ctx.fillStyle = 'rgba(255, 0, 0, 0.25)';
+            ctx.fillRect(0, 0, state.width, state.height);
+        }
+    }
+
+    private updateControls(): void {
+        if (!this.player) return;
+
+        const frame = this.player.getFrame();
+        if (document.activeElement !== this.scrubber) {
+            this.scrubber.value = String(frame);
+        }
+        this.timeLabel.textContent = `${this.formatTime(frame)} / ${this.formatTime(this.player.getFrameCount())}`;
+
+        // Show the keys held on the current step, to see what the player was doing
+        const action = this.player.getLastAction();
+        const keys = [
+            ['↑', action.up],
+            ['↓', action.down],
+            ['←', action.left],
+            ['→', action.right],
+            ['Shoot', action.shoot],
+        ] as const;
+        this.keysLabel.innerHTML = keys
+            .map(([label, held]) => `<span class="replay-viewer-key${held ? ' held' : ''}">${label}</span>`)
+            .join('');
+    }
+
+    private formatTime(frame: number): string {
+        const seconds = frame * FRAME_TIME;
+        const minutes = Math.floor(seconds / 60);
+        return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+    }
+
+    private injectStyles(): void {
+        if (document.getElementById('replay-viewer-styles')) return;
+
+        const style = document.createElement('style');
+        style.id = 'replay-viewer-styles';
+        style.textContent = `
+            .replay-viewer {
+                position: fixed;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                background: rgba(0, 0, 0, 0.85);
+                display: none;
+                justify-content: center;
+                align-items: center;
+                z-index: 1100;
+            }
+
+            .replay-viewer.active {
+                display: flex;
+            }
+
+            .replay-viewer-panel {
+                background: rgba(10, 35, 66, 0.95);
+                border: 2px solid #0CC7C7;
+                border-radius: 8px;
+                padding: 16px;
+                color: white;
+                max-width: 95vw;
+                box-shadow: 0 0 30px rgba(12, 199, 199, 0.3);
+            }
+
+            .replay-viewer-header {
+                display: flex;
+                align-items: center;
+                gap: 16px;
+                margin-bottom: 12px;
+            }
+
+            .replay-viewer-header h2 {
+                color: #0CC7C7;
+                margin: 0;
+                font-size: 22px;
+            }
+
+            .replay-viewer-info {
+                flex: 1;
+                color: #b0b0b0;
+                font-size: 14px;
+            }
+
+            .replay-viewer-close {
+                background: none;
+                border: none;
+                color: #0CC7C7;
+                font-size: 20px;
+                cursor: pointer;
+            }
+
+            .replay-viewer-canvas {
+                display: block;
+                max-width: 100%;
+                max-height: 65vh;
+                margin: 0 auto;
+                border: 1px solid rgba(12, 199, 199, 0.3);
+            }
+
+            .replay-viewer-keys {
+                display: flex;
+                justify-content: center;
+                gap: 6px;
+                margin: 10px 0;
+            }
+
+            .replay-viewer-key {
+                min-width: 28px;
+                padding: 2px 8px;
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: #607080;
+                text-align: center;
+                font-size: 14px;
+            }
+
+            .replay-viewer-key.held {
+                color: #0a192f;
+                background: #0CC7C7;
+            }
+
+            .replay-viewer-controls {
+                display: flex;
+                align-items: center;
+                gap: 12px;
+            }
+
+            .replay-viewer-controls button,
+            .replay-viewer-controls select {
+                background: rgba(12, 199, 199, 0.1);
+                border: 1px solid rgba(12, 199, 199, 0.3);
+                border-radius: 4px;
+                color: #0CC7C7;
+                padding: 6px 12px;
+                font-size: 14px;
+                cursor: pointer;
+            }
+
+            .replay-viewer-play {
+                min-width: 70px;
+            }
+
+            .replay-viewer-scrubber {
+                flex: 1;
+                accent-color: #0CC7C7;
+            }
+
+            .replay-viewer-time {
+                font-variant-numeric: tabular-nums;
+                font-size: 14px;
+                color: #b0b0b0;
+                white-space: nowrap;
+            }
+        `;
+
+        document.head.appendChild(style);
+    }
+}
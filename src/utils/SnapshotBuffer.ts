@@ -0,0 +1,133 @@
+/**
+ * Timestamped buffer of server snapshots used to render networked entities
+ * smoothly. Entities are drawn slightly in the past so there is always a pair
+ * of snapshots to interpolate between; when packets stop arriving, positions
+ * are extrapolated from the last known velocity for a short time.
+ */
+
+export interface PositionedEntity {
+    x: number;
+    y: number;
+}
+
+export interface SnapshotBufferOptions {
+    // How far behind the newest snapshot entities are rendered (ms)
+    interpolationDelay?: number;
+    // Longest time positions are extrapolated past the newest snapshot (ms)
+    maxExtrapolation?: number;
+    // Number of snapshots kept in the buffer
+    maxSnapshots?: number;
+    // Movement between two snapshots larger than this is treated as a teleport
+    snapDistance?: number;
+}
+
+interface Snapshot<T> {
+    time: number;
+    entities: Record<string, T>;
+}
+
+export class SnapshotBuffer<T extends PositionedEntity> {
+    private snapshots: Snapshot<T>[] = [];
+    private interpolationDelay: number;
+    private maxExtrapolation: number;
+    private maxSnapshots: number;
+    private snapDistance: number;
+
+    constructor(options: SnapshotBufferOptions = {}) {
+        this.interpolationDelay = options.interpolationDelay ?? 100;
+        this.maxExtrapolation = options.maxExtrapolation ?? 250;
+        this.maxSnapshots = options.maxSnapshots ?? 30;
+        this.snapDistance = options.snapDistance ?? 200;
+    }
+
+    /**
+     * Add a snapshot of all entities received at the given time
+     */
+    push(time: number, entities: Record<string, T>): void {
+        // Snapshots must stay ordered; drop anything older than the newest one
+        const newest = this.snapshots[this.snapshots.length - 1];
+        if (newest && time < newest.time) return;
+
+        this.snapshots.push({ time, entities });
+        if (this.snapshots.length > this.maxSnapshots) {
+            this.snapshots.shift();
+        }
+    }
+
+    /**
+     * Get every entity's position at the render time (now minus the interpolation delay)
+     */
+    sample(now: number): Record<string, T> {
+        const count = this.snapshots.length;
+        if (count === 0) return {};
+
+        const renderTime = now - this.interpolationDelay;
+        const newest = this.snapshots[count - 1];
+
+        // Not enough history yet: show the oldest state we have
+        if (renderTime <= this.snapshots[0].time || count === 1) {
+            return this.copyEntities(count === 1 ? newest : this.snapshots[0]);
+        }
+
+        // Past the newest snapshot: extrapolate from the last two
+        if (renderTime >= newest.time) {
+            const previous = this.snapshots[count - 2];
+            const span = newest.time - previous.time;
+            const ahead = Math.min(renderTime - newest.time, this.maxExtrapolation);
+            return this.blend(previous, newest, span > 0 ? 1 + ahead / span : 1);
+        }
+
+        // Find the pair of snapshots surrounding the render time
+        let index = count - 1;
+        while (index > 0 && this.snapshots[index - 1].time > renderTime) {
+            index--;
+        }
+        const from = this.snapshots[index - 1];
+        const to = this.snapshots[index];
+        return this.blend(from, to, (renderTime - from.time) / (to.time - from.time));
+    }
+
+    /**
+     * Remove all snapshots
+     */
+    clear(): void {
+        this.snapshots = [];
+    }
+
+    /**
+     * Blend entity positions between two snapshots. Values of t above 1 extrapolate.
+     * Entities missing from the older snapshot, or that teleported, use the newer state.
+     */
+    private blend(from: Snapshot<T>, to: Snapshot<T>, t: number): Record<string, T> {
+        const result: Record<string, T> = {};
+
+        for (const id in to.entities) {
+            const target = to.entities[id];
+            const start = from.entities[id];
+
+            if (!start || Math.hypot(target.x - start.x, target.y - start.y) > this.snapDistance) {
+                result[id] = { ...target };
+                continue;
+            }
+
+            result[id] = {
+                ...target,
+                x: start.x + (target.x - start.x) * t,
+                y: start.y + (target.y - start.y) * t
+            };
+        }
+
+        return result;
+    }
+
+    /**
+     * Copy the entities of a snapshot so callers can't mutate the buffer
+     */
+    private copyEntities(snapshot: Snapshot<T>): Record<string, T> {
+        const result: Record<string, T> = {};
+        for (const id in snapshot.entities) {
+            result[id] = { ...snapshot.entities[id] };
+        }
+        return result;
+    }
+}
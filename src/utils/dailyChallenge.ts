@@ -0,0 +1,82 @@
+/**
+ * Daily challenge bookkeeping: the player's calendar of past results kept in
+ * localStorage. Days are UTC calendar days, written as YYYY-MM-DD; the day
+ * keys and seeds come from server/shared/dailyChallenge.
+ */
+import { GAME_CONFIG } from '../constants/client-constants';
+import { shiftDayKey } from '../../server/shared/dailyChallenge';
+
+/**
+ * Outcome of the attempt that counted on a day
+ */
+export interface DailyResult {
+    score: number;
+    // False while the attempt is being played (or if the page was closed during it)
+    finished: boolean;
+}
+
+/**
+ * Results keyed by day
+ */
+export type DailyCalendar = Record<string, DailyResult>;
+
+export interface DailyStreaks {
+    // Consecutive days played up to today, or up to yesterday if today isn't played yet
+    current: number;
+    best: number;
+}
+
+/**
+ * Count the current and longest runs of consecutive days played
+ * @param today - Day key of today
+ */
+export function getStreaks(calendar: DailyCalendar, today: string): DailyStreaks {
+    let best = 0;
+    for (const day of Object.keys(calendar)) {
+        // Only count from the first day of each run
+        if (calendar[shiftDayKey(day, -1)]) continue;
+
+        let length = 0;
+        while (calendar[shiftDayKey(day, length)]) {
+            length++;
+        }
+        best = Math.max(best, length);
+    }
+
+    let current = 0;
+    const last = calendar[today] ? today : shiftDayKey(today, -1);
+    while (calendar[shiftDayKey(last, -current)]) {
+        current++;
+    }
+
+    return { current, best };
+}
+
+/**
+ * Read the saved calendar
+ */
+export function loadDailyCalendar(): DailyCalendar {
+    try {
+        const data = JSON.parse(localStorage.getItem(GAME_CONFIG.DAILY_STORAGE_KEY) ?? '{}');
+        const calendar: DailyCalendar = {};
+        for (const [day, result] of Object.entries<any>(data ?? {})) {
+            if (/^\d{4}-\d{2}-\d{2}$/.test(day) && result && typeof result.score === 'number') {
+                calendar[day] = { score: result.score, finished: result.finished === true };
+            }
+        }
+        return calendar;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Save the calendar, replacing the stored one
+ */
+export function saveDailyCalendar(calendar: DailyCalendar): void {
+    try {
+        localStorage.setItem(GAME_CONFIG.DAILY_STORAGE_KEY, JSON.stringify(calendar));
+    } catch (error) {
+        console.warn('Could not save daily challenge results:', error);
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Canvas drawing shared by the game modes and the replay viewers.
+ */
+import { PROJECTILE } from '../constants/gameConstants';
+import type { SimulationBody, SimulationObstacle } from '../../server/shared/singlePlayerSimulation';
+import type { PowerUpType } from '../../server/shared/powerUps';
+import { getSprite } from './sprites';
+
+// Distinct colors for multiplayer players, picked by player index
+const MULTIPLAYER_COLORS = [
+    '#FF5252', // Red
+    '#FF9800', // Orange
+    '#FFEB3B', // Yellow
+    '#4CAF50', // Green
+    '#2196F3', // Blue
+    '#9C27B0', // Purple
+    '#E91E63', // Pink
+];
+
+// How long each on or off phase of an invulnerable player's blinking lasts (ms)
+const BLINK_INTERVAL = 100;
+
+/**
+ * How each kind of power-up looks on the field and in the HUD
+ */
+export const POWER_UP_STYLES: Record<PowerUpType, { color: string; icon: string; label: string }> = {
+    shield: { color: '#4FC3F7', icon: 'S', label: 'Shield' },
+    slow_motion: { color: '#B388FF', icon: 'T', label: 'Slow-mo' },
+    shrink: { color: '#69F0AE', icon: 'm', label: 'Shrink' },
+    double_points: { color: '#FFD740', icon: '2x', label: 'Double points' },
+};
+
+/**
+ * Color a multiplayer player is drawn in
+ */
+export function getPlayerColor(index: number): string {
+    return MULTIPLAYER_COLORS[index % MULTIPLAYER_COLORS.length];
+}
+
+/**
+ * Draw an obstacle, or its explosion once it has been shot
+ */
+export function drawObstacle(ctx: CanvasRenderingContext2D, obstacle: SimulationObstacle, timestamp: number): void {
+    if (obstacle.exploding) {
+        // Center the explosion on the obstacle
+        const explosionSprite = getSprite('explosion', obstacle.explosionFrame);
+        const explosionSize = Math.max(obstacle.width, obstacle.height) * 1.5;
+        ctx.drawImage(
+            explosionSprite,
+            obstacle.x + obstacle.width / 2 - explosionSize / 2,
+            obstacle.y + obstacle.height / 2 - explosionSize / 2,
+            explosionSize,
+            explosionSize
+        );
+        return;
+    }
+
+    const sprite = getSprite('obstacle', obstacle.variant, timestamp);
+    ctx.drawImage(sprite, obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+}
+
+/**
+ * Draw a projectile as a glowing rounded bar
+ * @param scale - Entity scale of the playing field, for the glow size
+ */
+export function drawProjectile(ctx: CanvasRenderingContext2D, projectile: SimulationBody, scale: number): void {
+    const { x, y, width, height } = projectile;
+    const radius = Math.min(width, height) / 4;
+
+    ctx.save();
+    ctx.fillStyle = PROJECTILE.COLOR;
+    ctx.shadowColor = PROJECTILE.COLOR;
+    ctx.shadowBlur = 3 * scale;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, radius);
+    ctx.fill();
+
+    // Inner highlight
+    const innerWidth = width * 0.6;
+    const innerHeight = height * 0.8;
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowBlur = 0;
+    ctx.beginPath();
+    ctx.roundRect(x + (width - innerWidth) / 2, y + (height - innerHeight) / 2, innerWidth, innerHeight, radius / 2);
+    ctx.fill();
+    ctx.restore();
+}
+
+/**
+ * Draw a power-up pickup as a pulsing orb with its icon
+ */
+export function drawPowerUp(
+    ctx: CanvasRenderingContext2D,
+    powerUp: SimulationBody & { type: PowerUpType },
+    timestamp: number
+): void {
+    const style = POWER_UP_STYLES[powerUp.type];
+    const radius = (powerUp.width / 2) * (1 + 0.1 * Math.sin(timestamp / 150));
+    const centerX = powerUp.x + powerUp.width / 2;
+    const centerY = powerUp.y + powerUp.height / 2;
+
+    ctx.save();
+    ctx.fillStyle = style.color;
+    ctx.shadowColor = style.color;
+    ctx.shadowBlur = radius;
+    ctx.globalAlpha = 0.85;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.globalAlpha = 1;
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = '#000000';
+    ctx.font = `bold ${Math.round(powerUp.height * 0.5)}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(style.icon, centerX, centerY);
+    ctx.restore();
+}
+
+/**
+ * Draw the bubble around a player whose shield is up
+ */
+export function drawShield(ctx: CanvasRenderingContext2D, player: SimulationBody, timestamp: number): void {
+    const radius = (Math.max(player.width, player.height) / 2) * 1.4;
+
+    ctx.save();
+    ctx.strokeStyle = POWER_UP_STYLES.shield.color;
+    ctx.lineWidth = 2;
+    ctx.globalAlpha = 0.6 + 0.3 * Math.sin(timestamp / 200);
+    ctx.beginPath();
+    ctx.arc(player.x + player.width / 2, player.y + player.height / 2, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+}
+
+/**
+ * Draw the player's sprite
+ */
+export function drawPlayer(ctx: CanvasRenderingContext2D, player: SimulationBody, timestamp: number): void {
+    ctx.drawImage(getSprite('player', 0, timestamp), player.x, player.y, player.width, player.height);
+}
+
+/**
+ * Whether a player still invulnerable after a hit is in the off phase of
+ * their blinking, and shouldn't be drawn
+ * @param invulnerableTime - Seconds of invulnerability left
+ */
+export function isBlinkedOut(invulnerableTime: number, timestamp: number): boolean {
+    return invulnerableTime > 0 && Math.floor(timestamp / BLINK_INTERVAL) % 2 === 1;
+}
+
+/**
+ * Lives as a row of hearts, lost ones hollow
+ */
+export function formatHearts(lives: number, maxLives: number): string {
+    const left = Math.max(0, Math.min(lives, maxLives));
+    return '♥'.repeat(left) + '♡'.repeat(maxLives - left);
+}
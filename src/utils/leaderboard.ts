@@ -0,0 +1,80 @@
+/**
+ * Client side of the server leaderboards: submitting scores, reading boards
+ * and the name the player's scores are listed under.
+ */
+import { GAME_CONFIG } from '../constants/client-constants';
+import { getServerUrl } from './serverUrl';
+import {
+    LeaderboardMode,
+    LeaderboardPage,
+    LeaderboardPeriod,
+    LeaderboardRanks,
+    MAX_LEADERBOARD_NAME_LENGTH,
+    ScoreRejectedResponse,
+} from '../../server/shared/leaderboard';
+import type { Replay } from '../../server/shared/replay';
+
+/**
+ * Name the player's scores are submitted under, made up the first time
+ */
+export function getLeaderboardName(): string {
+    try {
+        const saved = localStorage.getItem(GAME_CONFIG.LEADERBOARD_NAME_KEY);
+        if (saved) return saved;
+    } catch {
+        // Storage disabled; the name only lasts for this page
+    }
+
+    const name = `Player${Math.floor(Math.random() * 10000)}`;
+    setLeaderboardName(name);
+    return name;
+}
+
+/**
+ * Change the name future scores are submitted under
+ * @returns The name as stored, or null if it isn't usable
+ */
+export function setLeaderboardName(name: string): string | null {
+    const tidied = name.trim().replace(/\s+/g, ' ');
+    if (tidied.length === 0 || tidied.length > MAX_LEADERBOARD_NAME_LENGTH) return null;
+
+    try {
+        localStorage.setItem(GAME_CONFIG.LEADERBOARD_NAME_KEY, tidied);
+    } catch (error) {
+        console.warn('Could not save leaderboard name:', error);
+    }
+    return tidied;
+}
+
+/**
+ * Submit a run's score under the player's name. The server re-runs the
+ * replay and only accepts the score if it comes out the same.
+ * @returns Where it placed on each of the mode's boards
+ */
+export async function submitScore(mode: LeaderboardMode, replay: Replay): Promise<LeaderboardRanks> {
+    const response = await fetch(`${getServerUrl('http')}/leaderboard/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: getLeaderboardName(), score: replay.score, replay }),
+    });
+    if (!response.ok) {
+        const rejection: Partial<ScoreRejectedResponse> = await response.json().catch(() => ({}));
+        throw new Error(
+            rejection.reason
+                ? `Score rejected (${rejection.reason}): ${rejection.error}`
+                : (rejection.error ?? `Server responded with ${response.status}`)
+        );
+    }
+    return (await response.json()).ranks;
+}
+
+/**
+ * Read the top of a board
+ */
+export async function fetchLeaderboard(mode: LeaderboardMode, period: LeaderboardPeriod): Promise<LeaderboardPage> {
+    const response = await fetch(`${getServerUrl('http')}/leaderboard/${mode}?period=${period}`);
+    if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+    }
+    return response.json();
+}
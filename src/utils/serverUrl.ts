@@ -0,0 +1,23 @@
+/**
+ * Where the game server is. Kept apart from the multiplayer manager so that
+ * talking to the server's REST endpoints doesn't load the multiplayer client.
+ */
+
+/**
+ * Address of the game server: the page's own origin in production, or the
+ * local development server
+ * @param scheme - 'ws' for the room connection, 'http' for the REST endpoints
+ */
+export function getServerUrl(scheme: 'ws' | 'http'): string {
+    // Check if we're in production (built version)
+    const isProd = process.env.NODE_ENV === 'production' ||
+                  (typeof import.meta !== 'undefined' && (import.meta as any).env?.PROD);
+
+    if (isProd) {
+        // In production, use same origin as the page
+        const secure = window.location.protocol === 'https:';
+        return `${scheme}${secure ? 's' : ''}://${window.location.host}`;
+    }
+    // In development, use localhost:3000
+    return `${scheme}://localhost:3000`;
+}
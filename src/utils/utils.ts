@@ -3,15 +3,79 @@
  * Now with TypeScript support.
  */
 import { ScalingInfo } from '../types';
+import { GAME_CONFIG } from '../constants/client-constants';
+import type { RandomSource } from '../../server/shared/random';
+import { BASE_CANVAS_HEIGHT, BASE_CANVAS_WIDTH } from '../../server/shared/singlePlayerSimulation';
 
 /**
  * Generates a random integer between min and max (inclusive)
  * @param min - The minimum value
  * @param max - The maximum value
+ * @param random - Seeded source the value is drawn from
  * @returns A random integer between min and max
  */
-export function randomIntFromInterval(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1) + min);
+export function randomIntFromInterval(min: number, max: number, random: RandomSource): number {
+  return Math.floor(random.next() * (max - min + 1) + min);
+}
+
+/**
+ * Read the run seed from the page URL (?seed=123)
+ * @returns The seed, or null if the URL doesn't have a valid one
+ */
+export function getSeedFromUrl(): number | null {
+  const value = new URLSearchParams(window.location.search).get(GAME_CONFIG.SEED_PARAM);
+  if (value === null || !/^\d+$/.test(value)) return null;
+
+  const seed = Number(value);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/**
+ * Offer text to the user as a file download
+ * @param fileName - Suggested file name
+ * @param text - File contents
+ * @param type - MIME type of the contents
+ */
+export function downloadTextFile(fileName: string, text: string, type: string = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Put the current run's seed in the page URL so it can be shared or reloaded
+ * @param seed - The seed to show
+ */
+export function showSeedInUrl(seed: number): void {
+  setUrlParam(GAME_CONFIG.SEED_PARAM, String(seed));
+}
+
+/**
+ * Set or remove a page URL parameter without adding a history entry
+ * @param name - Parameter name
+ * @param value - New value, or null to remove the parameter
+ */
+export function setUrlParam(name: string, value: string | null): void {
+  const url = new URL(window.location.href);
+  if (value === null) {
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
+  }
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+/**
+ * Make text from other players safe to insert as markup
+ * @param text - Text such as a player or room name
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
 }
 
 // Singleton audio context to avoid multiple instances
@@ -98,8 +162,7 @@ export function playSound(type: SoundType, volume: number = 0.1): void {
 export let SCALE_FACTOR = 1;
 
 // Base canvas dimensions - will be used as a reference for scaling
-export const BASE_CANVAS_WIDTH = 560;
-export const BASE_CANVAS_HEIGHT = 550;
+export { BASE_CANVAS_WIDTH, BASE_CANVAS_HEIGHT };
 
 // Aspect ratio of the game
 export const ASPECT_RATIO = BASE_CANVAS_HEIGHT / BASE_CANVAS_WIDTH;
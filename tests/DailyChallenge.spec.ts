@@ -0,0 +1,39 @@
+/**
+ * @jest-environment node
+ */
+import { DailyCalendar, getStreaks } from '../src/utils/dailyChallenge';
+import { getDailySeed, getDayKey, shiftDayKey } from '../server/shared/dailyChallenge';
+
+describe('daily challenge', () => {
+  function played(...days: string[]): DailyCalendar {
+    return Object.fromEntries(days.map((day) => [day, { score: 1, finished: true }]));
+  }
+
+  it('gives every day its own stable seed', () => {
+    expect(getDailySeed('2026-03-01')).toBe(getDailySeed('2026-03-01'));
+    expect(getDailySeed('2026-03-01')).not.toBe(getDailySeed('2026-03-02'));
+    expect(Number.isInteger(getDailySeed('2026-03-01'))).toBe(true);
+  });
+
+  it('starts each day at midnight UTC, wherever the player is', () => {
+    expect(getDayKey(new Date(Date.UTC(2026, 2, 1, 0, 0)))).toBe('2026-03-01');
+    expect(getDayKey(new Date(Date.UTC(2026, 2, 1, 23, 59)))).toBe('2026-03-01');
+    expect(getDayKey(new Date('2026-03-01T23:30:00-05:00'))).toBe('2026-03-02');
+  });
+
+  it('steps across month and year boundaries', () => {
+    expect(shiftDayKey('2026-02-28', 1)).toBe('2026-03-01');
+    expect(shiftDayKey('2026-01-01', -1)).toBe('2025-12-31');
+  });
+
+  it('counts the current and best streaks', () => {
+    const calendar = played('2026-02-20', '2026-02-21', '2026-02-22', '2026-02-27', '2026-02-28', '2026-03-01');
+
+    expect(getStreaks(calendar, '2026-03-01')).toEqual({ current: 3, best: 3 });
+    expect(getStreaks(played('2026-02-20', '2026-02-21'), '2026-03-01')).toEqual({ current: 0, best: 2 });
+  });
+
+  it("keeps yesterday's streak alive until today is played", () => {
+    expect(getStreaks(played('2026-02-27', '2026-02-28'), '2026-03-01').current).toBe(2);
+  });
+});
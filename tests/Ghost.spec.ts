@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { FRAME_TIME, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { ghostCrossingsAt, ghostPositionAt, GhostRecorder, parseGhost } from '../src/simulation/Ghost';
+import { AutopilotAgent } from '../src/ai/AutopilotAgent';
+
+describe('Ghost', () => {
+  function recordRun(seed: number, frames: number) {
+    const simulation = new SinglePlayerSimulation({}, seed);
+    const recorder = new GhostRecorder();
+    const agent = new AutopilotAgent();
+    const positions: Array<[number, number]> = [];
+    let crossings = 0;
+    recorder.start(simulation.getState());
+
+    for (let i = 0; i < frames && !simulation.getState().done; i++) {
+      const input = agent.getInputState(simulation.getState(), FRAME_TIME);
+      const result = simulation.step({ ...input, shoot: false }, FRAME_TIME);
+      recorder.record(result.observation, result.events);
+      crossings += result.events.filter((event) => event.type === 'scored').length;
+
+      const { player, width, height } = result.observation;
+      positions.push([player.x / width, player.y / height]);
+    }
+
+    const state = simulation.getState();
+    return { ghost: recorder.finish(state.score)!, positions, crossings, time: state.time };
+  }
+
+  it('records a split for every winning-line crossing', () => {
+    const { ghost, crossings, time } = recordRun(3, 3600);
+
+    expect(crossings).toBeGreaterThan(0);
+    expect(ghost.splits).toHaveLength(crossings);
+    expect(ghostCrossingsAt(ghost, time)).toBe(crossings);
+    expect(ghostCrossingsAt(ghost, 0)).toBe(0);
+  });
+
+  it('follows the recorded path', () => {
+    const { ghost, positions } = recordRun(4, 600);
+
+    // Positions are sampled every other step, so check a sampled step
+    const [x, y] = ghostPositionAt(ghost, 300 * FRAME_TIME)!;
+    expect(x).toBeCloseTo(positions[299][0], 3);
+    expect(y).toBeCloseTo(positions[299][1], 3);
+    expect(ghostPositionAt(ghost, 1e6)).toBeNull();
+  });
+
+  it('survives being stored', () => {
+    const { ghost } = recordRun(5, 300);
+
+    expect(parseGhost(JSON.stringify(ghost))).toEqual(ghost);
+    expect(parseGhost('not json')).toBeNull();
+    expect(parseGhost(JSON.stringify({ ...ghost, version: 99 }))).toBeNull();
+  });
+});
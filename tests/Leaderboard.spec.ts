@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import { getPeriodStart, validateSubmission } from '../server/shared/leaderboard';
+import { REPLAY_FORMAT, REPLAY_VERSION } from '../server/shared/replay';
+import { DEFAULT_SIMULATION_CONFIG } from '../server/shared/singlePlayerSimulation';
+
+describe('leaderboard', () => {
+  // Wednesday 2026-03-04 15:30 UTC
+  const now = Date.UTC(2026, 2, 4, 15, 30);
+
+  it('starts days at midnight and weeks on Monday, in UTC', () => {
+    expect(getPeriodStart('daily', now)).toBe(Date.UTC(2026, 2, 4));
+    expect(getPeriodStart('weekly', now)).toBe(Date.UTC(2026, 2, 2));
+    expect(getPeriodStart('allTime', now)).toBeNull();
+  });
+
+  it('counts Sunday as the end of the week', () => {
+    expect(getPeriodStart('weekly', Date.UTC(2026, 2, 8, 23))).toBe(Date.UTC(2026, 2, 2));
+    expect(getPeriodStart('weekly', Date.UTC(2026, 2, 9))).toBe(Date.UTC(2026, 2, 9));
+  });
+
+  it('tidies names and rejects unusable submissions', () => {
+    const replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      seed: 1,
+      config: DEFAULT_SIMULATION_CONFIG,
+      score: 12,
+      frameCount: 1,
+      inputs: [[0, 1]],
+      configChanges: [],
+      recordedAt: '',
+    };
+
+    expect(validateSubmission({ name: '  Ada   L ', score: 12, replay })).toEqual({ name: 'Ada L', score: 12, replay });
+    expect(() => validateSubmission({ name: ' ', score: 12, replay })).toThrow('Name');
+    expect(() => validateSubmission({ name: 'x'.repeat(21), score: 12, replay })).toThrow('Name');
+    expect(() => validateSubmission({ name: 'Ada', score: 1.5, replay })).toThrow('Score');
+    expect(() => validateSubmission({ name: 'Ada', score: 0, replay })).toThrow('Score');
+    expect(() => validateSubmission({ name: 'Ada', score: 12 })).toThrow('Not a replay');
+    expect(() => validateSubmission(null)).toThrow();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { SimulationAction, SimulationState, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { ReplayRecorder, validateReplay } from '../server/shared/replay';
+import { GameState } from '../server/schema/GameState';
+import { ObstacleSchema } from '../server/schema/ObstacleSchema';
+import { PLAYER, PLAYER_STATE, STATE } from '../server/constants/gameConstants';
+
+describe('lives', () => {
+  const idle: SimulationAction = { up: false, down: false, left: false, right: false, shoot: false };
+
+  // Drop the first obstacle right on top of the player
+  function putObstacleOnPlayer(simulation: SinglePlayerSimulation): void {
+    const state = simulation.getState() as SimulationState;
+    Object.assign(state.obstacles[0], { ...state.player, exploding: false });
+  }
+
+  it('costs a single-player run a life per hit, with a moment of invulnerability', () => {
+    const simulation = new SinglePlayerSimulation({}, 3);
+    const startY = simulation.getState().player.y;
+
+    putObstacleOnPlayer(simulation);
+    const hit = simulation.step(idle);
+    expect(hit.done).toBe(false);
+    expect(hit.reward).toBe(-1);
+    expect(hit.events.map((event) => event.type)).toContain('hit');
+    expect(hit.observation.lives).toBe(PLAYER.LIVES - 1);
+    expect(hit.observation.invulnerableTime).toBeGreaterThan(0);
+    expect(hit.observation.player.y).toBeGreaterThan(startY);
+
+    putObstacleOnPlayer(simulation);
+    expect(simulation.step(idle).observation.lives).toBe(PLAYER.LIVES - 1);
+  });
+
+  it('ends a single-player run when the last life is lost', () => {
+    const simulation = new SinglePlayerSimulation({ lives: 1 }, 3);
+
+    putObstacleOnPlayer(simulation);
+    const result = simulation.step(idle);
+    expect(result.done).toBe(true);
+    expect(result.events.map((event) => event.type)).toContain('collision');
+  });
+
+  it('plays replays recorded before lives with a single life', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(1, new SinglePlayerSimulation({}, 1).getConfig());
+    recorder.record(idle);
+    const replay = recorder.finish(0)!;
+    const { lives: _lives, ...oldConfig } = replay.config;
+
+    const upgraded = validateReplay({ ...replay, version: 1, config: oldConfig });
+    expect(upgraded.config.lives).toBe(1);
+  });
+
+  it('knocks back and shields multiplayer players who survive a hit', () => {
+    const state = new GameState(1);
+    const player = state.createPlayer('a');
+    state.createPlayer('b');
+    state.gameState = STATE.PLAYING;
+    player.y = 300;
+
+    const obstacle = new ObstacleSchema(0);
+    Object.assign(obstacle, { x: player.x, y: player.y, width: PLAYER.BASE_WIDTH, height: PLAYER.BASE_HEIGHT });
+    state.checkObstacleCollisions(obstacle);
+
+    expect(player.lives).toBe(PLAYER.LIVES - 1);
+    expect(player.y).toBe(300 + PLAYER.KNOCKBACK);
+    expect(player.isInvulnerable()).toBe(true);
+
+    // Invulnerable players shrug off the next hit
+    obstacle.y = player.y;
+    state.checkObstacleCollisions(obstacle);
+    expect(player.lives).toBe(PLAYER.LIVES - 1);
+
+    player.invulnerableTime = 0;
+    player.lives = 1;
+    state.checkObstacleCollisions(obstacle);
+    expect(player.state).toBe(PLAYER_STATE.DEAD);
+    expect(state.aliveCount).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import {
+  MATCH_REPLAY_FORMAT,
+  MATCH_REPLAY_VERSION,
+  MatchReplay,
+  MatchSnapshot,
+  sampleMatchReplay,
+  validateMatchReplay,
+} from '../server/shared/matchReplay';
+
+describe('match replays', () => {
+  function snapshot(time: number, playerY: number, obstacleY: number): MatchSnapshot {
+    return {
+      time,
+      gameState: 'playing',
+      zone: { x: 300, y: 350, radius: 460 },
+      nextZone: { x: 300, y: 350, radius: 460 },
+      players: [{ id: 'a', x: 100, y: playerY, width: 30, height: 30, state: 'alive', score: 0, stunned: false }],
+      obstacles: [{ id: 1, x: 0, y: obstacleY, width: 40, height: 20, variant: 0 }],
+      projectiles: [],
+    };
+  }
+
+  const replay: MatchReplay = {
+    format: MATCH_REPLAY_FORMAT,
+    version: MATCH_REPLAY_VERSION,
+    id: '20260101T000000000Z-ABCDE',
+    roomId: 'ABCDE',
+    seed: 1,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    duration: 0.2,
+    winnerName: 'a',
+    playerCount: 1,
+    arenaWidth: 600,
+    arenaHeight: 700,
+    players: [{ id: 'a', name: 'a', playerIndex: 0, isBot: false }],
+    // The obstacle wraps back to the top between the last two snapshots
+    snapshots: [snapshot(0, 600, 500), snapshot(0.1, 580, 650), snapshot(0.2, 560, 10)],
+    events: [],
+  };
+
+  it('interpolates positions between snapshots', () => {
+    const sample = sampleMatchReplay(replay, 0.05);
+    expect(sample.players[0].y).toBeCloseTo(590);
+    expect(sample.obstacles[0].y).toBeCloseTo(575);
+  });
+
+  it("doesn't slide bodies that wrapped around the arena", () => {
+    expect(sampleMatchReplay(replay, 0.15).obstacles[0].y).toBe(650);
+  });
+
+  it('holds the first and last snapshots outside the recording', () => {
+    expect(sampleMatchReplay(replay, -1)).toBe(replay.snapshots[0]);
+    expect(sampleMatchReplay(replay, 5)).toBe(replay.snapshots[2]);
+  });
+
+  it('rejects data that is not a match replay', () => {
+    expect(() => validateMatchReplay({ format: 'ascend-avoid-replay' })).toThrow('Not a match replay');
+    expect(() => validateMatchReplay({ ...replay, snapshots: [] })).toThrow('incomplete');
+    expect(validateMatchReplay(JSON.parse(JSON.stringify(replay)))).toEqual(replay);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { GameState, PlayerBump } from '../server/schema/GameState';
+import { PlayerSchema } from '../server/schema/PlayerSchema';
+import { PLAYER_COLLISIONS, PLAYER_STATE, STATE } from '../server/constants/gameConstants';
+
+describe('player collisions', () => {
+  function startRound(playerCollisions: GameState['playerCollisions']): GameState {
+    const state = new GameState(1);
+    state.playerCollisions = playerCollisions;
+    state.createPlayer('a');
+    state.createPlayer('b');
+    state.gameState = STATE.PLAYING;
+    state.nextShrinkTime = Infinity;
+    return state;
+  }
+
+  function place(player: PlayerSchema, x: number, y: number): void {
+    player.x = x;
+    player.y = y;
+  }
+
+  // Move a to the right for one step
+  function driveRight(state: GameState, seq = 1): void {
+    state.players.get('a')!.queueInput({ seq, up: false, down: false, left: false, right: true, dt: 0.05 });
+    state.update(0.05);
+  }
+
+  it('pushes players that run into each other apart', () => {
+    const state = startRound(PLAYER_COLLISIONS.PUSH);
+    const a = state.players.get('a')!;
+    const b = state.players.get('b')!;
+    place(a, 200, 300);
+    place(b, 235, 300);
+
+    driveRight(state);
+
+    expect(a.x + a.width).toBeLessThanOrEqual(b.x);
+    expect(b.x).toBeGreaterThan(235);
+    expect(state.aliveCount).toBe(2);
+  });
+
+  it('knocks out the slower player in a crash once the round is under way', () => {
+    const state = startRound(PLAYER_COLLISIONS.ELIMINATE);
+    // Down to their last life, so the crash eliminates whoever loses it
+    state.players.forEach((player) => (player.lives = 1));
+    const bumps: PlayerBump[] = [];
+    state.onPlayerBump = (bump) => bumps.push(bump);
+    place(state.players.get('a')!, 200, 300);
+    place(state.players.get('b')!, 235, 300);
+
+    // Crashes only push while everyone leaves the start
+    driveRight(state, 1);
+    expect(state.aliveCount).toBe(2);
+
+    state.elapsedTime = 10;
+    bumps.length = 0;
+    place(state.players.get('a')!, 200, 300);
+    place(state.players.get('b')!, 235, 300);
+    driveRight(state, 2);
+
+    expect(state.players.get('b')!.state).toBe(PLAYER_STATE.DEAD);
+    expect(state.players.get('a')!.state).toBe(PLAYER_STATE.ALIVE);
+    expect(bumps).toEqual([expect.objectContaining({ playerIds: ['a', 'b'], loserId: 'b' })]);
+    expect(state.gameState).toBe(STATE.GAME_OVER);
+  });
+
+  it('only pushes apart players who were already overlapping, like everyone at the start', () => {
+    const state = startRound(PLAYER_COLLISIONS.ELIMINATE);
+    const a = state.players.get('a')!;
+    const b = state.players.get('b')!;
+    state.elapsedTime = 10;
+    expect(a.x).toBe(b.x);
+
+    driveRight(state);
+
+    expect(state.aliveCount).toBe(2);
+    expect(Math.abs(a.x - b.x)).toBeGreaterThanOrEqual(a.width);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { SimulationAction, SimulationState, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { ReplayRecorder, validateReplay } from '../server/shared/replay';
+import { GameState } from '../server/schema/GameState';
+import { ObstacleSchema } from '../server/schema/ObstacleSchema';
+import { PLAYER, POWER_UPS, STATE } from '../server/constants/gameConstants';
+import { applyPowerUp } from '../server/shared/powerUps';
+
+describe('power-ups', () => {
+  const idle: SimulationAction = { up: false, down: false, left: false, right: false, shoot: false };
+
+  function dropPowerUpOnPlayer(simulation: SinglePlayerSimulation, type: SimulationState['powerUps'][number]['type']): void {
+    const state = simulation.getState() as SimulationState;
+    state.powerUps.push({ ...state.player, id: 99, type, age: 0 });
+  }
+
+  it('spawns single-player pickups in the field, unless they are turned off', () => {
+    const simulation = new SinglePlayerSimulation({ powerUpInterval: 100 }, 5);
+    let state = simulation.step(idle).observation;
+    while (state.powerUps.length === 0) {
+      state = simulation.step(idle).observation;
+    }
+
+    const [powerUp] = state.powerUps;
+    expect(powerUp.y).toBeGreaterThan(state.winningLine);
+    expect(powerUp.x + powerUp.width).toBeLessThanOrEqual(state.width);
+    expect(state.powerUps.length).toBeLessThanOrEqual(POWER_UPS.MAX_ACTIVE);
+
+    const none = new SinglePlayerSimulation({ powerUpInterval: 0 }, 5);
+    for (let i = 0; i < 60; i++) none.step(idle);
+    expect(none.getState().powerUps).toHaveLength(0);
+  });
+
+  it('collects a single-player pickup on touch and runs its timer down', () => {
+    const simulation = new SinglePlayerSimulation({}, 3);
+    dropPowerUpOnPlayer(simulation, POWER_UPS.TYPES.SLOW_MOTION);
+
+    const result = simulation.step(idle);
+    expect(result.events).toContainEqual(expect.objectContaining({ type: 'powerUp', powerUp: POWER_UPS.TYPES.SLOW_MOTION }));
+    expect(result.observation.powerUps).toHaveLength(0);
+    expect(result.observation.effects.slowMotionTime).toBeCloseTo(POWER_UPS.DURATION / 1000);
+
+    expect(simulation.step(idle).observation.effects.slowMotionTime).toBeLessThan(POWER_UPS.DURATION / 1000);
+  });
+
+  it('lets a shield take a single-player hit', () => {
+    const simulation = new SinglePlayerSimulation({}, 3);
+    const state = simulation.getState() as SimulationState;
+    state.effects.shield = true;
+    Object.assign(state.obstacles[0], { ...state.player, exploding: false });
+
+    const result = simulation.step(idle);
+    expect(result.reward).toBe(0);
+    expect(result.events.map((event) => event.type)).toContain('shieldBroken');
+    expect(result.observation.lives).toBe(PLAYER.LIVES);
+    expect(result.observation.effects.shield).toBe(false);
+    expect(result.observation.invulnerableTime).toBeGreaterThan(0);
+  });
+
+  it('doubles single-player points while double points runs', () => {
+    const simulation = new SinglePlayerSimulation({}, 3);
+    const state = simulation.getState() as SimulationState;
+    state.effects.doublePointsTime = 5;
+    state.player.y = state.winningLine;
+
+    expect(simulation.step(idle).observation.score).toBe(POWER_UPS.POINTS_MULTIPLIER);
+  });
+
+  it('plays replays recorded before power-ups without them', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start(1, new SinglePlayerSimulation({}, 1).getConfig());
+    recorder.record(idle);
+    const replay = recorder.finish(0)!;
+    const { powerUpInterval: _interval, ...oldConfig } = replay.config;
+
+    const upgraded = validateReplay({ ...replay, version: 2, config: oldConfig });
+    expect(upgraded.config.powerUpInterval).toBe(0);
+    expect(upgraded.config.lives).toBe(PLAYER.LIVES);
+  });
+
+  it('lets a shield take a multiplayer hit in place of a life', () => {
+    const state = new GameState(1);
+    const player = state.createPlayer('a');
+    state.createPlayer('b');
+    state.gameState = STATE.PLAYING;
+    player.y = 300;
+    applyPowerUp(player, POWER_UPS.TYPES.SHIELD);
+
+    const obstacle = new ObstacleSchema(0);
+    Object.assign(obstacle, { x: player.x, y: player.y, width: PLAYER.BASE_WIDTH, height: PLAYER.BASE_HEIGHT });
+    state.checkObstacleCollisions(obstacle);
+    expect(player.shield).toBe(false);
+    expect(player.lives).toBe(PLAYER.LIVES);
+    expect(player.y).toBe(300);
+    expect(player.isInvulnerable()).toBe(true);
+  });
+
+  it('only hits shrunk multiplayer players where their smaller hitbox is', () => {
+    const state = new GameState(1);
+    const player = state.createPlayer('a');
+    state.createPlayer('b');
+    state.gameState = STATE.PLAYING;
+    player.y = 300;
+    player.shrinkTime = 5;
+
+    // Grazing the player's corner misses the shrunk hitbox
+    const obstacle = new ObstacleSchema(0);
+    const size = PLAYER.BASE_WIDTH / 2;
+    const offset = PLAYER.BASE_WIDTH * 0.15;
+    Object.assign(obstacle, { x: player.x - offset, y: player.y - offset, width: size, height: size });
+    state.checkObstacleCollisions(obstacle);
+    expect(player.lives).toBe(PLAYER.LIVES);
+
+    player.shrinkTime = 0;
+    state.checkObstacleCollisions(obstacle);
+    expect(player.lives).toBe(PLAYER.LIVES - 1);
+  });
+});
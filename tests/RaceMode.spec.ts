@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { GameState } from '../server/schema/GameState';
+import { ObstacleSchema } from '../server/schema/ObstacleSchema';
+import { PlayerSchema } from '../server/schema/PlayerSchema';
+import { GAME, GAME_MODES, PLAYER, STATE } from '../server/constants/gameConstants';
+
+describe('winning line crossings', () => {
+  function startRound(state: GameState): void {
+    state.gameState = STATE.PLAYING;
+    state.nextShrinkTime = Infinity;
+  }
+
+  // Put the player a step below the line and climb over it
+  function climbOver(state: GameState, player: PlayerSchema, seq: number): void {
+    player.y = GAME.WINNING_LINE + 1;
+    player.queueInput({ seq, up: true, down: false, left: false, right: false, dt: 0.05 });
+    state.update(0.05);
+  }
+
+  it('scores a point and sends the player back to the start', () => {
+    const state = new GameState(1);
+    const player = state.createPlayer('a');
+    // Out of the way of the start, so the two don't bump
+    state.createPlayer('b').x = 50;
+    startRound(state);
+
+    climbOver(state, player, 1);
+
+    expect(player.score).toBe(1);
+    expect(player.y).toBe(state.arenaHeight - player.height - 10);
+    expect(player.x).toBe(state.arenaWidth / 2 - player.width / 2);
+    expect(state.gameState).toBe(STATE.PLAYING);
+  });
+
+  it('ends a race when a player reaches the target', () => {
+    const state = new GameState(1, GAME_MODES.RACE, 2);
+    const player = state.createPlayer('a');
+    player.name = 'Ada';
+    state.createPlayer('b');
+    startRound(state);
+
+    climbOver(state, player, 1);
+    expect(state.gameState).toBe(STATE.PLAYING);
+
+    climbOver(state, player, 2);
+    expect(state.gameState).toBe(STATE.GAME_OVER);
+    expect(state.winnerName).toBe('Ada');
+  });
+
+  it('counts each race crossing once, even with double points', () => {
+    const state = new GameState(1, GAME_MODES.RACE, 2);
+    const player = state.createPlayer('a');
+    state.createPlayer('b');
+    startRound(state);
+    player.doublePointsTime = 5;
+
+    climbOver(state, player, 1);
+    expect(player.score).toBe(1);
+    expect(state.gameState).toBe(STATE.PLAYING);
+  });
+
+  it('sends racers hit by an obstacle back to the start instead of eliminating them', () => {
+    const state = new GameState(1, GAME_MODES.RACE, 3);
+    const player = state.createPlayer('a');
+    startRound(state);
+    player.y = 200;
+
+    const obstacle = new ObstacleSchema(0);
+    Object.assign(obstacle, { x: player.x, y: player.y, width: PLAYER.BASE_WIDTH, height: PLAYER.BASE_HEIGHT });
+    state.checkObstacleCollisions(obstacle);
+
+    expect(player.isActive()).toBe(true);
+    expect(player.y).toBe(state.arenaHeight - player.height - 10);
+    expect(state.aliveCount).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { FRAME_TIME, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { parseReplay, ReplayPlayer, ReplayRecorder, serializeReplay } from '../server/shared/replay';
+import { AutopilotAgent } from '../src/ai/AutopilotAgent';
+
+describe('Replay', () => {
+  function recordRun(seed: number, frames: number) {
+    const simulation = new SinglePlayerSimulation({}, seed);
+    const recorder = new ReplayRecorder();
+    const agent = new AutopilotAgent();
+    recorder.start(seed, simulation.getConfig());
+
+    for (let i = 0; i < frames && !simulation.getState().done; i++) {
+      // Resize part way through, as a window resize would
+      if (i === 300) {
+        simulation.configure({ width: 700, height: 600, scale: 1.2 });
+        recorder.recordConfig(simulation.getConfig());
+      }
+      const action = { ...agent.getInputState(simulation.getState(), FRAME_TIME), shoot: i % 45 === 0 };
+      simulation.step(action, FRAME_TIME);
+      recorder.record(action);
+    }
+
+    return { state: JSON.stringify(simulation.getState()), replay: recorder.finish(simulation.getState().score)! };
+  }
+
+  it('plays back to exactly the recorded state', () => {
+    const { state, replay } = recordRun(11, 1200);
+    const player = new ReplayPlayer(parseReplay(serializeReplay(replay)));
+
+    player.seek(replay.frameCount);
+    expect(player.isFinished()).toBe(true);
+    expect(JSON.stringify(player.getState())).toBe(state);
+  });
+
+  it('seeks backwards by replaying from the start', () => {
+    const { replay } = recordRun(12, 600);
+    const player = new ReplayPlayer(replay);
+
+    player.seek(400);
+    const at400 = JSON.stringify(player.getState());
+    player.seek(replay.frameCount);
+    player.seek(400);
+    expect(player.getFrame()).toBe(400);
+    expect(JSON.stringify(player.getState())).toBe(at400);
+  });
+
+  it('rejects files that are not replays', () => {
+    expect(() => parseReplay('not json')).toThrow('not valid JSON');
+    expect(() => parseReplay('{"format":"something-else"}')).toThrow('Not a replay file');
+
+    const { replay } = recordRun(13, 100);
+    expect(() => parseReplay(serializeReplay({ ...replay, frameCount: replay.frameCount + 1 }))).toThrow('truncated');
+  });
+});
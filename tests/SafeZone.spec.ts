@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { GameState } from '../server/schema/GameState';
+import { ARENA, GAME_MODES, PLAYER, PLAYER_STATE, STATE } from '../server/constants/gameConstants';
+import { createRandom } from '../server/shared/random';
+import { distanceOutsideZone, getInitialZone, pickNextZone } from '../server/shared/zone';
+
+describe('safe zone', () => {
+  // Run the countdown out so the round starts the way a room starts it
+  function startRound(state: GameState): void {
+    state.createPlayer('a');
+    state.createPlayer('b');
+    state.update(0);
+    state.startTime = Date.now();
+    state.update(0);
+  }
+
+  function advance(state: GameState, seconds: number): void {
+    for (let t = 0; t < seconds; t += 0.5) {
+      state.update(0.5);
+    }
+  }
+
+  it('picks each next zone inside the one before', () => {
+    const random = createRandom(7);
+    let zone = getInitialZone(ARENA.WIDTH, ARENA.HEIGHT);
+
+    for (let next = pickNextZone(zone, random, ARENA.WIDTH, ARENA.HEIGHT); next;
+      next = pickNextZone(zone, random, ARENA.WIDTH, ARENA.HEIGHT)) {
+      expect(next.radius).toBeLessThan(zone.radius);
+      expect(next.radius).toBeGreaterThanOrEqual(ARENA.MIN_ZONE_RADIUS);
+      expect(Math.hypot(next.x - zone.x, next.y - zone.y)).toBeLessThanOrEqual(zone.radius - next.radius + 1e-9);
+      zone = next;
+    }
+    expect(zone.radius).toBe(ARENA.MIN_ZONE_RADIUS);
+  });
+
+  it('telegraphs the next zone and closes in on it smoothly', () => {
+    const state = new GameState(3);
+    startRound(state);
+
+    const start = state.getZone();
+    const next = state.getNextZone();
+    expect(state.nextShrinkTime).toBe(ARENA.SHRINK_INTERVAL / 1000);
+    expect(next.radius).toBeLessThan(start.radius);
+
+    advance(state, ARENA.SHRINK_INTERVAL / 1000 + ARENA.SHRINK_DURATION / 2000);
+    expect(state.zoneRadius).toBeCloseTo((start.radius + next.radius) / 2);
+    expect(state.zoneX).toBeCloseTo((start.x + next.x) / 2);
+
+    advance(state, ARENA.SHRINK_DURATION / 2000);
+    expect(state.getZone()).toEqual(next);
+    expect(state.getNextZone().radius).toBeLessThan(next.radius);
+    expect(state.nextShrinkTime).toBe((ARENA.SHRINK_INTERVAL * 2 + ARENA.SHRINK_DURATION) / 1000);
+  });
+
+  it('drains the health of players outside the zone instead of eliminating them at once', () => {
+    const state = new GameState(3);
+    state.createPlayer('a');
+    state.createPlayer('b');
+    state.gameState = STATE.PLAYING;
+    Object.assign(state, { zoneX: 300, zoneY: 350, zoneRadius: 100 });
+    const outside = state.players.get('a')!;
+    const inside = state.players.get('b')!;
+    outside.x = 10;
+    outside.y = 600;
+    inside.x = 300 - inside.width / 2;
+    inside.y = 350 - inside.height / 2;
+    expect(distanceOutsideZone(outside, state.getZone())).toBeGreaterThan(0);
+
+    state.update(1);
+    expect(outside.health).toBeCloseTo(PLAYER.MAX_HEALTH - ARENA.ZONE_DAMAGE);
+    expect(outside.state).toBe(PLAYER_STATE.ALIVE);
+    expect(inside.health).toBe(PLAYER.MAX_HEALTH);
+
+    // Running out of health costs a life, then the next one starts draining
+    advance(state, PLAYER.MAX_HEALTH / ARENA.ZONE_DAMAGE);
+    expect(outside.lives).toBe(PLAYER.LIVES - 1);
+    expect(outside.state).toBe(PLAYER_STATE.ALIVE);
+
+    outside.lives = 1;
+    advance(state, (PLAYER.MAX_HEALTH / ARENA.ZONE_DAMAGE) * 2);
+    expect(outside.state).toBe(PLAYER_STATE.DEAD);
+    expect(state.gameState).toBe(STATE.GAME_OVER);
+  });
+
+  it('never shrinks in a race', () => {
+    const state = new GameState(3, GAME_MODES.RACE, 100);
+    startRound(state);
+
+    advance(state, (ARENA.SHRINK_INTERVAL + ARENA.SHRINK_DURATION) / 1000 + 1);
+    expect(state.nextShrinkTime).toBe(0);
+    expect(state.getZone()).toEqual(getInitialZone(state.arenaWidth, state.arenaHeight));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { FRAME_TIME, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { Replay, ReplayRecorder } from '../server/shared/replay';
+import { LeaderboardSubmission, validateSubmission } from '../server/shared/leaderboard';
+import { verifyScore, verifyScoreAsync } from '../server/leaderboard/verifyScore';
+import { SubmissionLimiter } from '../server/leaderboard/SubmissionLimiter';
+import { DAILY_FIELD, getDailySeed } from '../server/shared/dailyChallenge';
+import { LEADERBOARD } from '../server/constants/serverConstants';
+import { AutopilotAgent } from '../src/ai/AutopilotAgent';
+
+describe('score verification', () => {
+  // A whole run played by the autopilot, from the first step to the hit, on
+  // the daily challenge's field
+  function playRun(seed: number): Replay {
+    const simulation = new SinglePlayerSimulation({ ...DAILY_FIELD }, seed);
+    const recorder = new ReplayRecorder();
+    const agent = new AutopilotAgent();
+    recorder.start(seed, simulation.getConfig());
+
+    while (!simulation.getState().done) {
+      const action = { ...agent.getInputState(simulation.getState(), FRAME_TIME), shoot: false };
+      simulation.step(action, FRAME_TIME);
+      recorder.record(action);
+    }
+    return recorder.finish(simulation.getState().score)!;
+  }
+
+  const replay = playRun(7);
+
+  function submit(changes: Partial<Replay> = {}, score: number = replay.score): LeaderboardSubmission {
+    return { name: 'Ada', score, replay: { ...replay, ...changes } };
+  }
+
+  it('accepts a score its replay reproduces', () => {
+    expect(replay.score).toBeGreaterThan(0);
+    expect(verifyScore('singlePlayer', submit())).toBeNull();
+  });
+
+  it('rejects a score the replay does not reproduce', () => {
+    expect(verifyScore('singlePlayer', submit({}, replay.score + 1))?.reason).toBe('score_mismatch');
+  });
+
+  it('rejects replays that stop early or carry on after the hit', () => {
+    const inputs = replay.inputs.slice(0, -1);
+    const frameCount = inputs.reduce((total, [, steps]) => total + steps, 0);
+    expect(verifyScore('singlePlayer', submit({ inputs, frameCount }))?.reason).toBe('not_finished');
+
+    const extended = submit({ inputs: [...replay.inputs, [0, 30]], frameCount: replay.frameCount + 30 });
+    expect(verifyScore('singlePlayer', extended)?.reason).toBe('inputs_after_end');
+  });
+
+  it('rejects scores made faster than the player can climb', () => {
+    expect(verifyScore('singlePlayer', submit({}, replay.frameCount))?.reason).toBe('too_fast');
+  });
+
+  it('rejects playing fields the game never uses', () => {
+    const easy = submit({ config: { ...replay.config, maxObstacles: 1 } });
+    expect(verifyScore('singlePlayer', easy)?.reason).toBe('invalid_config');
+
+    const narrow = submit({ seed: getDailySeed('2026-03-01'), config: { ...replay.config, obstacleMaxWidthRatio: 0.01 } });
+    expect(verifyScore('dailyChallenge', narrow, Date.UTC(2026, 2, 1, 12))?.reason).toBe('invalid_config');
+
+    const squashed = submit({ config: { ...replay.config, height: 100 } });
+    expect(verifyScore('singlePlayer', squashed)?.reason).toBe('invalid_config');
+
+    const huge = submit({ config: { ...replay.config, width: 6000, height: 7000 } });
+    expect(verifyScore('singlePlayer', huge)?.reason).toBe('invalid_config');
+
+    const tiny = submit({ config: { ...replay.config, scale: 0.5 } });
+    expect(verifyScore('singlePlayer', tiny)?.reason).toBe('invalid_config');
+
+    const immortal = submit({ config: { ...replay.config, lives: 99 } });
+    expect(verifyScore('singlePlayer', immortal)?.reason).toBe('invalid_config');
+  });
+
+  it("only takes daily challenge runs played on that day's seed", () => {
+    const noon = Date.UTC(2026, 2, 1, 12);
+    const daily = playRun(getDailySeed('2026-03-01'));
+    const onDay = { name: 'Ada', score: daily.score, replay: daily };
+    expect(verifyScore('dailyChallenge', onDay, noon)).toBeNull();
+    expect(verifyScore('dailyChallenge', onDay, noon + 24 * 60 * 60 * 1000)?.reason).toBe('wrong_seed');
+
+    // Every daily run is on the same field, whatever the screen
+    const resized = { ...onDay, replay: { ...daily, config: { ...daily.config, width: 300, height: 350 } } };
+    expect(verifyScore('dailyChallenge', resized, noon)?.reason).toBe('invalid_config');
+
+    // A run that verifies on any other board isn't the day's challenge
+    expect(verifyScore('singlePlayer', submit())).toBeNull();
+    expect(verifyScore('dailyChallenge', submit(), noon)?.reason).toBe('wrong_seed');
+  });
+
+  it('comes to the same verdict when checking in chunks', async () => {
+    expect(replay.frameCount).toBeGreaterThan(LEADERBOARD.REPLAY_CHUNK_FRAMES);
+    await expect(verifyScoreAsync('singlePlayer', submit())).resolves.toBeNull();
+    await expect(verifyScoreAsync('singlePlayer', submit({}, replay.score + 1))).resolves.toMatchObject({
+      reason: 'score_mismatch',
+    });
+  });
+
+  it('limits how many scores a client can submit in a window', () => {
+    let now = 0;
+    const limiter = new SubmissionLimiter(2, 1000, () => now);
+    expect(limiter.allow('a')).toBe(true);
+    expect(limiter.allow('a')).toBe(true);
+    expect(limiter.allow('a')).toBe(false);
+    expect(limiter.allow('b')).toBe(true);
+
+    now = 1000;
+    expect(limiter.allow('a')).toBe(true);
+  });
+
+  it('rejects submissions whose replay cannot be read', () => {
+    expect(() => validateSubmission({ name: 'Ada', score: 3, replay: { format: 'nope' } })).toThrow('Not a replay');
+    expect(validateSubmission(JSON.parse(JSON.stringify(submit()))).replay).toEqual(replay);
+  });
+});
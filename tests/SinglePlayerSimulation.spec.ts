@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+import { SimulationAction, SinglePlayerSimulation } from '../server/shared/singlePlayerSimulation';
+import { AutopilotAgent } from '../src/ai/AutopilotAgent';
+
+describe('SinglePlayerSimulation', () => {
+  const idle: SimulationAction = { up: false, down: false, left: false, right: false, shoot: false };
+
+  function run(seed: number, frames: number) {
+    const simulation = new SinglePlayerSimulation({}, seed);
+    for (let i = 0; i < frames; i++) {
+      // Tap up every tenth frame so the run isn't just the player standing still
+      simulation.step({ ...idle, up: i % 10 === 0 });
+    }
+    return JSON.stringify(simulation.getState());
+  }
+
+  it('replays the same run from the same seed and actions', () => {
+    expect(run(42, 300)).toBe(run(42, 300));
+    expect(run(42, 300)).not.toBe(run(43, 300));
+  });
+
+  it('ends the episode with a negative reward when the player is hit', () => {
+    const simulation = new SinglePlayerSimulation({}, 7);
+    let result = simulation.step(idle);
+    for (let i = 0; i < 20000 && !result.done; i++) {
+      // Keep climbing into the obstacles' path
+      result = simulation.step({ ...idle, up: i % 2 === 0 });
+    }
+
+    expect(result.done).toBe(true);
+    expect(result.reward).toBe(-1);
+    expect(result.events.map((event) => event.type)).toContain('collision');
+    expect(simulation.step(idle).reward).toBe(0);
+  });
+
+  it('can be played to a score by the autopilot', () => {
+    const simulation = new SinglePlayerSimulation({}, 1);
+    const agent = new AutopilotAgent();
+    const frameTime = 1 / 60;
+
+    for (let i = 0; i < 3600 && !simulation.getState().done; i++) {
+      const input = agent.getInputState(simulation.getState(), frameTime);
+      simulation.step({ ...input, shoot: false }, frameTime);
+    }
+
+    expect(simulation.getState().score).toBeGreaterThan(0);
+  });
+});
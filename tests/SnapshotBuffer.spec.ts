@@ -0,0 +1,34 @@
+import { SnapshotBuffer } from '../src/utils/SnapshotBuffer';
+
+describe('SnapshotBuffer', () => {
+  const delay = 100;
+
+  function createBuffer() {
+    const buffer = new SnapshotBuffer<{ x: number; y: number }>({
+      interpolationDelay: delay,
+      maxExtrapolation: 50,
+      snapDistance: 100,
+    });
+    buffer.push(1000, { a: { x: 0, y: 0 } });
+    buffer.push(1100, { a: { x: 10, y: 20 } });
+    return buffer;
+  }
+
+  it('interpolates between the snapshots around the render time', () => {
+    const sample = createBuffer().sample(1050 + delay);
+    expect(sample.a.x).toBeCloseTo(5);
+    expect(sample.a.y).toBeCloseTo(10);
+  });
+
+  it('extrapolates past the newest snapshot for a limited time', () => {
+    const buffer = createBuffer();
+    expect(buffer.sample(1120 + delay).a.x).toBeCloseTo(12);
+    expect(buffer.sample(1500 + delay).a.x).toBeCloseTo(15);
+  });
+
+  it('snaps entities that teleported instead of sliding them', () => {
+    const buffer = createBuffer();
+    buffer.push(1200, { a: { x: 500, y: 20 } });
+    expect(buffer.sample(1150 + delay).a.x).toBe(500);
+  });
+});